@@ -0,0 +1,5 @@
+import ApprovalQueue from "@/components/admin/approval-queue"
+
+export default function ApprovalsPage() {
+  return <ApprovalQueue />
+}
@@ -0,0 +1,5 @@
+import ClosuresTable from "@/components/admin/closures-table"
+
+export default function ClosuresPage() {
+  return <ClosuresTable />
+}
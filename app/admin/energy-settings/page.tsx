@@ -0,0 +1,5 @@
+import EnergySettingsForm from "@/components/admin/energy-settings-form"
+
+export default function EnergySettingsPage() {
+  return <EnergySettingsForm />
+}
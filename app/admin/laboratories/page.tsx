@@ -0,0 +1,5 @@
+import LaboratoriesTable from "@/components/admin/laboratories-table"
+
+export default function LaboratoriesPage() {
+  return <LaboratoriesTable />
+}
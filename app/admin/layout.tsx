@@ -0,0 +1,24 @@
+import { redirect } from "next/navigation"
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
+import AdminSidebar from "@/components/admin/admin-sidebar"
+import { currentActor } from "@/lib/auth"
+
+// Lab managers and energy admins only; the API enforces the same rules (403) on every action
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const actor = await currentActor()
+  if (!actor) redirect("/login?next=/admin")
+  if (actor.role === "STUDENT") redirect("/")
+
+  return (
+    <SidebarProvider>
+      <AdminSidebar role={actor.role} />
+      <SidebarInset>
+        <header className="flex h-14 items-center gap-2 border-b px-4">
+          <SidebarTrigger />
+          <span className="font-semibold">Administración</span>
+        </header>
+        <div className="p-6">{children}</div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -0,0 +1,5 @@
+import MachinesTable from "@/components/admin/machines-table"
+
+export default function MachinesPage() {
+  return <MachinesTable />
+}
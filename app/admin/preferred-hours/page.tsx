@@ -0,0 +1,5 @@
+import PreferredHoursTable from "@/components/admin/preferred-hours-table"
+
+export default function PreferredHoursPage() {
+  return <PreferredHoursTable />
+}
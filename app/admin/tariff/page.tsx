@@ -0,0 +1,5 @@
+import TariffBandsTable from "@/components/admin/tariff-bands-table"
+
+export default function TariffPage() {
+  return <TariffBandsTable />
+}
@@ -0,0 +1,39 @@
+// app/api/admin/approvals/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { MailService } from '@/app/services/MailService';
+import { appointmentErrorResponse, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { approvalDecisionSchema } from '@/lib/schemas';
+
+const service = new AppointmentService();
+const mailService = new MailService();
+
+type Params = { params: { id: string } };
+
+// POST /api/admin/approvals/:id
+// Body: { "decision": "approve" | "reject", "note": "opcional" }
+// The booker is emailed the approval or the rejection; a mail failure doesn't undo the decision.
+// Managers of the booking's laboratory only (403 otherwise).
+export async function POST(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = approvalDecisionSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const data = await service.review(id, parsed.data.decision, parsed.data.note, actor);
+    try {
+      await mailService.sendAppointmentStatus(data, new URL(request.url).origin);
+    } catch (mailError) {
+      console.error(`Error al enviar el email de la cita ${id}:`, mailError);
+    }
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al revisar la reserva');
+  }
+}
@@ -0,0 +1,22 @@
+// app/api/admin/approvals/route.ts
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { errorResponse } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+
+const service = new AppointmentService();
+
+// GET /api/admin/approvals
+// Bookings held as PENDING because they exceed the energy threshold or fall in a peak window,
+// limited to the laboratories the signed-in manager administers (all of them for energy admins)
+export async function GET() {
+  try {
+    const actor = await requireActor();
+    const data = await service.getPendingApproval(actor);
+    return NextResponse.json({ data, meta: { count: data.length } }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener las reservas pendientes de aprobación' });
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/appointments/[id]/cancel/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { appointmentErrorResponse, parseId } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+
+const service = new AppointmentService();
+
+type Params = { params: { id: string } };
+
+// POST /api/appointments/:id/cancel
+// Marks the appointment as cancelled (no hard delete) so its machines and energy are released.
+// Managers of the laboratory at any time; the booker up to MIN_NOTICE_HOURS before the start.
+export async function POST(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const data = await service.cancel(id, actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al cancelar la cita');
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/appointments/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { appointmentErrorResponse, errorResponse, notFound, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { appointmentUpdateSchema } from '@/lib/schemas';
+import { parseDateOnly, parseTime } from '@/lib/time';
+
+const service = new AppointmentService();
+
+type Params = { params: { id: string } };
+
+// GET /api/appointments/:id
+// The booker or a manager of the laboratory (403 otherwise)
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const data = await service.getByIdFor(id, actor);
+    if (!data) return notFound('Cita no encontrada');
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener la cita' });
+  }
+}
+
+// PATCH /api/appointments/:id
+// Body: any of { "appointment_date", "start_time", "end_time", "purpose", "user_name", "user_email",
+//                "machine_ids" (replace), "add_machine_ids", "remove_machine_ids" }
+// Rescheduling or changing machines is re-validated against availability (409 like POST).
+// Managers of the laboratory only; bookers reschedule through /api/appointments/manage/:token.
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = appointmentUpdateSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { appointment_date, start_time, end_time, machine_ids, add_machine_ids, remove_machine_ids, ...rest } =
+      parsed.data;
+    const data = await service.update(id, {
+      data: {
+        ...rest,
+        ...(appointment_date !== undefined ? { appointment_date: parseDateOnly(appointment_date) } : {}),
+        ...(start_time !== undefined ? { start_time: parseTime(start_time) } : {}),
+        ...(end_time !== undefined ? { end_time: parseTime(end_time) } : {}),
+      },
+      setMachineIds: machine_ids,
+      addMachineIds: add_machine_ids,
+      removeMachineIds: remove_machine_ids,
+    }, actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al actualizar la cita');
+  }
+}
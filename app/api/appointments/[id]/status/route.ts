@@ -0,0 +1,36 @@
+// app/api/appointments/[id]/status/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { appointmentErrorResponse, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { ALLOWED_TRANSITIONS } from '@/lib/appointment-status';
+import { appointmentStatusSchema } from '@/lib/schemas';
+
+const service = new AppointmentService();
+
+type Params = { params: { id: string } };
+
+// POST /api/appointments/:id/status
+// Body: { "status": "IN_PROGRESS" }
+// 409 { reason: "invalid_transition" } when the lifecycle doesn't allow it; see lib/appointment-status.ts
+// Managers of the laboratory only (403 otherwise).
+export async function POST(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = appointmentStatusSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const data = await service.transition(id, parsed.data.status, actor);
+    return NextResponse.json(
+      { data, meta: { allowed_transitions: ALLOWED_TRANSITIONS[data.status] } },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al cambiar el estado de la cita');
+  }
+}
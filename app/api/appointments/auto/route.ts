@@ -0,0 +1,75 @@
+// app/api/appointments/auto/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { SlotHoldService } from '@/app/services/SlotHoldService';
+import { UserService } from '@/app/services/UserService';
+import { appointmentErrorResponse, readJson, validationError } from '@/lib/api';
+import { currentUser } from '@/lib/auth';
+import { autoScheduleSchema } from '@/lib/schemas';
+import { addDays, parseDateOnly, today } from '@/lib/time';
+
+const service = new AppointmentService();
+const holdService = new SlotHoldService();
+const userService = new UserService();
+
+// POST /api/appointments/auto
+// Body: { "laboratory_id": 1, "machine_ids": [1, 2], "duration_minutes": 120, "purpose": "Calibración",
+//         "from": "2025-09-15", "days": 7,                   (default: the next 7 days)
+//         "earliest_time": "09:00", "latest_time": "17:00", (optional window of hours)
+//         "days_of_week": [1, 2, 3, 4, 5],                   (optional weekdays, 0=Sun)
+//         "hold": true, "hold_minutes": 5 }                  (optional, see below)
+// Picks the lowest-load available slot of the window and books it: 201 { data: appointment,
+// meta: { slot } }. With "hold": true the slot is only held for hold_minutes (default 5, max 15):
+// 201 { data: hold, meta: { slot } }, then POST /api/holds/:id/confirm books it and
+// DELETE /api/holds/:id gives it back. 409 { reason: "no_slot" } when nothing fits.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await currentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Debes iniciar sesión para reservar' }, { status: 401 });
+    }
+
+    const parsed = autoScheduleSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+    const { laboratory_id, machine_ids, duration_minutes, days, purpose, hold, hold_minutes } = parsed.data;
+
+    const from = parsed.data.from ? parseDateOnly(parsed.data.from) : today();
+    const to = addDays(from, days - 1);
+
+    const search = {
+      from,
+      to,
+      duration: duration_minutes / 60,
+      earliestStart: parsed.data.earliest_time,
+      latestEnd: parsed.data.latest_time,
+      daysOfWeek: parsed.data.days_of_week,
+    };
+
+    if (hold) {
+      const result = await holdService.holdBest(
+        { laboratory_id, machineIds: machine_ids, purpose, search },
+        user.id,
+        hold_minutes
+      );
+      return NextResponse.json({ data: result.hold, meta: { slot: result.slot } }, { status: 201 });
+    }
+
+    const booker = await userService.withName(user, parsed.data.user_name);
+    const { appointment, slot } = await service.autoSchedule({
+      data: {
+        laboratory_id,
+        user_id: booker.id,
+        user_name: String(booker.name),
+        user_email: booker.email,
+        purpose,
+      },
+      machineIds: machine_ids,
+      search,
+    });
+    return NextResponse.json({ data: appointment, meta: { slot } }, { status: 201 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al programar la cita automáticamente');
+  }
+}
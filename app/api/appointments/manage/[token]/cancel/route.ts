@@ -0,0 +1,25 @@
+// app/api/appointments/manage/[token]/cancel/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { appointmentErrorResponse, notFound } from '@/lib/api';
+import { verifyAppointmentToken } from '@/lib/appointment-token';
+
+const service = new AppointmentService();
+
+type Params = { params: { token: string } };
+
+// POST /api/appointments/manage/:token/cancel
+// 409 when the appointment starts in less than 24 hours or is already cancelled.
+export async function POST(_req: NextRequest, { params }: Params) {
+  const id = verifyAppointmentToken(params.token);
+  if (id === null) return notFound('Enlace inválido');
+
+  try {
+    const data = await service.cancelAsBooker(id);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al cancelar la cita');
+  }
+}
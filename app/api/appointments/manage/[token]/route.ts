@@ -0,0 +1,53 @@
+// app/api/appointments/manage/[token]/route.ts
+// Self-service access for the booker through the signed link sent by email (no account needed)
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { appointmentErrorResponse, errorResponse, notFound, readJson, validationError } from '@/lib/api';
+import { verifyAppointmentToken } from '@/lib/appointment-token';
+import { appointmentRescheduleSchema } from '@/lib/schemas';
+import { parseDateOnly, parseTime } from '@/lib/time';
+
+const service = new AppointmentService();
+
+type Params = { params: { token: string } };
+
+// GET /api/appointments/manage/:token
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = verifyAppointmentToken(params.token);
+  if (id === null) return notFound('Enlace inválido');
+
+  try {
+    const data = await service.getById(id);
+    if (!data) return notFound('Cita no encontrada');
+    return NextResponse.json(
+      { data, meta: { min_notice_hours: AppointmentService.MIN_NOTICE_HOURS } },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener la cita' });
+  }
+}
+
+// PATCH /api/appointments/manage/:token
+// Body: { "appointment_date": "2025-09-20", "start_time": "09:00", "end_time": "11:00" }
+// 409 when the appointment starts in less than 24 hours or the new slot is not available.
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const id = verifyAppointmentToken(params.token);
+  if (id === null) return notFound('Enlace inválido');
+
+  try {
+    const parsed = appointmentRescheduleSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const data = await service.rescheduleAsBooker(id, {
+      appointment_date: parseDateOnly(parsed.data.appointment_date),
+      start_time: parseTime(parsed.data.start_time),
+      end_time: parseTime(parsed.data.end_time),
+    });
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al reprogramar la cita');
+  }
+}
@@ -2,49 +2,47 @@
 export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentStatus } from '@prisma/client';
 import { AppointmentService } from '@/app/services/AppointmentService'; // ← update if needed
-import { start } from 'repl';
+import { UserService } from '@/app/services/UserService';
+import { appointmentErrorResponse, errorResponse, validationError } from '@/lib/api';
+import { currentUser, requireActor } from '@/lib/auth';
+import type { RecurrenceRule } from '@/lib/recurrence';
+import { recurrenceSchema } from '@/lib/schemas';
+import { parseDateOnly, parseTime } from '@/lib/time';
 
 const service = new AppointmentService();
-
-// Helpers
-function parseDateOnly(input: string): Date {
-  // Accepts "YYYY-MM-DD" or ISO; normalizes to local midnight
-  if (!input) throw new Error('Invalid date');
-  if (/^\d{4}-\d{2}-\d{2}$/.test(input)) return new Date(`${input}T00:00:00`);
-  const d = new Date(input);
-  if (isNaN(d.getTime())) throw new Error('Invalid date');
-  return d;
-}
-
-function parseTime(input: string): Date {
-  // Accepts "HH:mm" or "HH:mm:ss" → store as Date for @db.Time()
-  if (!input) throw new Error('Invalid time');
-  const m = input.match(/^(\d{2}):(\d{2})(?::(\d{2}))?$/);
-  if (!m) {
-    const d = new Date(input);
-    if (!isNaN(d.getTime())) return d;
-    throw new Error('Invalid time format');
-  }
-  const [, hh, mm, ss] = m;
-  return new Date(`1970-01-01T${hh}:${mm}:${ss ?? '00'}Z`);
-}
+const userService = new UserService();
 
 // GET /api/appointments?date=YYYY-MM-DD&laboratory_id=1
+// GET /api/appointments?from=YYYY-MM-DD&to=YYYY-MM-DD&machine_id=3&status=PENDING,CONFIRMED
+// Signed-in users only (401 otherwise). Bookings of others come without the booker's name, email
+// and review note, unless the user manages their laboratory.
 export async function GET(request: NextRequest) {
   try {
+    const actor = await requireActor();
     const { searchParams } = new URL(request.url);
     const date = searchParams.get('date') || undefined;
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
     const laboratoryId = searchParams.get('laboratory_id');
     const laboratory_id = laboratoryId ? Number(laboratoryId) : undefined;
+    const machineId = searchParams.get('machine_id');
+    const machine_id = machineId ? Number(machineId) : undefined;
+
+    const statuses = searchParams.get('status')?.split(',').filter(Boolean);
+    const invalidStatus = statuses?.find((s) => !Object.values<string>(AppointmentStatus).includes(s));
+    if (invalidStatus) {
+      return NextResponse.json({ error: `Estado inválido: ${invalidStatus}` }, { status: 400 });
+    }
 
-    const data = await service.getAllBy({ date, laboratory_id });
+    const data = await service.getAllBy(
+      { date, from, to, laboratory_id, machine_id, statuses: statuses as AppointmentStatus[] | undefined },
+      actor,
+    );
     return NextResponse.json({ data }, { status: 200 });
   } catch (error: any) {
-    return NextResponse.json(
-      { error: error?.message ?? 'Error al obtener citas' },
-      { status: 500 }
-    );
+    return errorResponse(error, { fallback: 'Error al obtener citas' });
   }
 }
 
@@ -53,31 +51,44 @@ export async function GET(request: NextRequest) {
 // {
 //   "laboratory_id": 1,
 //   "user_name": "Gastón",
-//   "user_email": "gaston@example.com",
 //   "appointment_date": "2025-09-20",
 //   "start_time": "09:00",
 //   "end_time": "11:00",
 //   "purpose": "Calibration",
-//   "status": "PENDING",
-//   "power_consumption": 12.5,
-//   "machineIds": [1,2,3]
+//   "machine_ids": [1,2,3]
 // }
+// Requires a session (401 otherwise): the booking is linked to the signed-in user and user_email
+// comes from the account; user_name is only used (and saved) when the account has no name yet.
+// power_consumption (kWh) and peak_power (kW) are computed from the machines and the status starts
+// as CONFIRMED, or PENDING when the slot requires approval (see POST /api/appointments/:id/status
+// and /api/admin/approvals); any value sent for them is ignored.
+// Responds 409 { error, reason, details } when the machines are already booked or the
+// slot load / day total would exceed the configured limits, and 400 when the slot already started.
+//
+// Recurring bookings add "recurrence": { "frequency": "WEEKLY" | "BIWEEKLY" | "CUSTOM",
+// "days_of_week": [2, 4], "until": "2025-12-15" | "count": 12 } starting at appointment_date, and
+// optionally "skip_conflicts": true. Responds 201 { data: series with its appointments,
+// meta: { occurrences } }, or 409 { reason: "series_conflict", details: { occurrences } } listing
+// the dates that can't be booked (see POST /api/appointments/series/preview).
+//
+// "hold_id" books over the user's own slot hold (POST /api/appointments/auto with "hold": true)
+// and releases it; 409 { reason: "hold_expired" } when it ran out.
 export async function POST(request: NextRequest) {
   try {
+    const user = await currentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Debes iniciar sesión para reservar' }, { status: 401 });
+    }
+
     const body = await request.json();
-    body.status = body.status || 'RESERVADO';
     // Basic validation (keep it lightweight; swap to Zod later if you want)
     const required = [
       'laboratory_id',
-      'user_name',
-      'user_email',
       'appointment_date',
       'start_time',
       'end_time',
       'purpose',
-      'status',
     ];
-    console.log(body);
     for (const field of required) {
       if (body[field] === undefined || body[field] === null || body[field] === '') {
         return NextResponse.json(
@@ -91,27 +102,37 @@ export async function POST(request: NextRequest) {
     const machineIds: number[] | undefined = Array.isArray(body.machine_ids)
       ? body.machine_ids.map((n: any) => Number(n)).filter((n: number) => Number.isFinite(n))
       : undefined;
+    const holdId = body.hold_id ? Number(body.hold_id) : undefined;
+    const booker = await userService.withName(user, body.user_name ? String(body.user_name) : undefined);
     const data = {
       laboratory_id: Number(body.laboratory_id),
-      user_name: String(body.user_name),
-      user_email: String(body.user_email),
+      user_id: booker.id,
+      user_name: String(booker.name),
+      user_email: booker.email,
       appointment_date: parseDateOnly(String(body.appointment_date)),
       start_time: parseTime(String(body.start_time)),
       end_time: parseTime(String(body.end_time)),
       purpose: String(body.purpose),
-      status: String(body.status),
-      power_consumption:
-        body.power_consumption !== undefined && body.power_consumption !== null
-          ? Number(body.power_consumption)
-          : undefined,
       // created_at is DB default
     };
 
-    const created = await service.create({ data, machineIds });
+    if (body.recurrence !== undefined && body.recurrence !== null) {
+      const recurrence = recurrenceSchema.safeParse(body.recurrence);
+      if (!recurrence.success) return validationError(recurrence.error);
+
+      const { series, occurrences } = await service.createSeries({
+        data,
+        machineIds: machineIds ?? [],
+        recurrence: recurrence.data as RecurrenceRule,
+        skipConflicts: body.skip_conflicts === true,
+        holdId,
+      });
+      return NextResponse.json({ data: series, meta: { occurrences } }, { status: 201 });
+    }
+
+    const created = await service.create({ data, machineIds, holdId });
     return NextResponse.json({ data: created }, { status: 201 });
   } catch (error: any) {
-    const msg = typeof error?.message === 'string' ? error.message : 'Error al crear la cita';
-    const status = /invalid|missing/i.test(msg) ? 400 : 500;
-    return NextResponse.json({ error: msg }, { status });
+    return appointmentErrorResponse(error, 'Error al crear la cita');
   }
 }
@@ -0,0 +1,28 @@
+// app/api/appointments/series/[id]/cancel/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { appointmentErrorResponse, parseId } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+
+const service = new AppointmentService();
+
+type Params = { params: { id: string } };
+
+// POST /api/appointments/series/:id/cancel
+// Cancels every upcoming occurrence (single ones through POST /api/appointments/:id/cancel).
+// The booker can't cancel occurrences starting within MIN_NOTICE_HOURS; those come back in
+// meta.skipped_ids. Managers of the laboratory cancel all of them.
+export async function POST(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const { series, cancelled_ids, skipped_ids } = await service.cancelSeries(id, actor);
+    return NextResponse.json({ data: series, meta: { cancelled_ids, skipped_ids } }, { status: 200 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al cancelar la serie');
+  }
+}
@@ -0,0 +1,63 @@
+// app/api/appointments/series/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { appointmentErrorResponse, errorResponse, notFound, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { seriesUpdateSchema } from '@/lib/schemas';
+import { parseTime } from '@/lib/time';
+
+const service = new AppointmentService();
+
+type Params = { params: { id: string } };
+
+// GET /api/appointments/series/:id → the rule and every occurrence (booker or lab managers)
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const data = await service.getSeries(id, actor);
+    if (!data) return notFound('Serie no encontrada');
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener la serie' });
+  }
+}
+
+// PATCH /api/appointments/series/:id
+// Body: any of { "start_time", "end_time", "purpose", "machine_ids" (replace) }
+// Applies to every upcoming occurrence; single occurrences are edited with PATCH /api/appointments/:id.
+// Managers of the laboratory, or the booker for the time and purpose (not the machines) of the
+// occurrences outside the notice window → { data, meta: { occurrences, skipped_ids } }.
+// 409 { reason: "series_conflict", details: { occurrences } } when some occurrence would conflict;
+// nothing is changed in that case.
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = seriesUpdateSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { start_time, end_time, machine_ids, purpose } = parsed.data;
+    const { series, occurrences, skipped_ids } = await service.updateSeries(
+      id,
+      {
+        data: {
+          ...(purpose !== undefined ? { purpose } : {}),
+          ...(start_time !== undefined ? { start_time: parseTime(start_time) } : {}),
+          ...(end_time !== undefined ? { end_time: parseTime(end_time) } : {}),
+        },
+        setMachineIds: machine_ids,
+      },
+      actor
+    );
+    return NextResponse.json({ data: series, meta: { occurrences, skipped_ids } }, { status: 200 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al actualizar la serie');
+  }
+}
@@ -0,0 +1,42 @@
+// app/api/appointments/series/preview/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppointmentService } from '@/app/services/AppointmentService';
+import { appointmentErrorResponse, readJson, validationError } from '@/lib/api';
+import type { RecurrenceRule } from '@/lib/recurrence';
+import { seriesPreviewSchema } from '@/lib/schemas';
+import { parseDateOnly, parseTime } from '@/lib/time';
+
+const service = new AppointmentService();
+
+// POST /api/appointments/series/preview
+// Body: { "laboratory_id": 1, "machine_ids": [1, 2], "appointment_date": "2025-09-16",
+//         "start_time": "10:00", "end_time": "12:00",
+//         "recurrence": { "frequency": "WEEKLY", "count": 12 } }
+// → { data: [{ date, start_time, end_time, available, reason?, reason_code?, requires_approval }],
+//     meta: { count, conflicts } }. Nothing is booked.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = seriesPreviewSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { laboratory_id, machine_ids, appointment_date, start_time, end_time, recurrence } = parsed.data;
+    const data = await service.previewSeries({
+      data: {
+        laboratory_id,
+        appointment_date: parseDateOnly(appointment_date),
+        start_time: parseTime(start_time),
+        end_time: parseTime(end_time),
+      },
+      machineIds: machine_ids,
+      recurrence: recurrence as RecurrenceRule,
+    });
+    return NextResponse.json(
+      { data, meta: { count: data.length, conflicts: data.filter((o) => !o.available).length } },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al comprobar las fechas de la serie');
+  }
+}
@@ -0,0 +1,41 @@
+// app/api/auth/callback/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/app/services/UserService';
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  createSessionToken,
+  safeNextPath,
+  verifyLoginToken,
+} from '@/lib/auth';
+
+const service = new UserService();
+
+// GET /api/auth/callback?token=...&next=/path
+// Target of the magic link: creates the account on first login, sets the session cookie and
+// redirects to `next`. Invalid or expired links go back to /login.
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const email = verifyLoginToken(url.searchParams.get('token') ?? '');
+  if (email === null) {
+    return NextResponse.redirect(new URL('/login?error=invalid_link', url.origin));
+  }
+
+  try {
+    const user = await service.findOrCreate(email);
+    const response = NextResponse.redirect(new URL(safeNextPath(url.searchParams.get('next')), url.origin));
+    response.cookies.set(SESSION_COOKIE, createSessionToken(user.id), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+    return response;
+  } catch (error: any) {
+    console.error('Error al iniciar sesión:', error);
+    return NextResponse.redirect(new URL('/login?error=server', url.origin));
+  }
+}
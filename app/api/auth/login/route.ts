@@ -0,0 +1,34 @@
+// app/api/auth/login/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MailService } from '@/app/services/MailService';
+import { readJson, validationError } from '@/lib/api';
+import { isLocalLoginEnabled, normalizeEmail, safeNextPath } from '@/lib/auth';
+import { loginSchema } from '@/lib/schemas';
+
+const mailService = new MailService();
+
+// POST /api/auth/login
+// Body: { "email": "ana@unlp.edu.ar", "next": "/my-reservations" }
+// Emails a magic link to /api/auth/callback. With the local stand-in (see isLocalLoginEnabled)
+// the link is returned as meta.login_link instead, so the flow works without SMTP.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = loginSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const email = normalizeEmail(parsed.data.email);
+    const link = mailService.loginLink(email, new URL(request.url).origin, safeNextPath(parsed.data.next));
+
+    if (isLocalLoginEnabled()) {
+      return NextResponse.json({ message: 'Enlace generado (modo local).', meta: { login_link: link } });
+    }
+
+    await mailService.sendLoginLink(email, link);
+    return NextResponse.json({ message: 'Te enviamos un enlace para ingresar.' });
+  } catch (error: any) {
+    console.error('Error al enviar el enlace de ingreso:', error);
+    return NextResponse.json({ error: 'Error al enviar el enlace de ingreso' }, { status: 500 });
+  }
+}
@@ -0,0 +1,12 @@
+// app/api/auth/logout/route.ts
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth';
+
+// POST /api/auth/logout
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,26 @@
+// app/api/auth/me/appointments/route.ts
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { UserService } from '@/app/services/UserService';
+import { errorResponse } from '@/lib/api';
+import { currentUser } from '@/lib/auth';
+import { createAppointmentToken } from '@/lib/appointment-token';
+
+const service = new UserService();
+
+// GET /api/auth/me/appointments
+// The signed-in user's appointments; each one carries its manage_token so the UI can link
+// to the cancel / reschedule pages.
+export async function GET() {
+  try {
+    const user = await currentUser();
+    if (!user) return NextResponse.json({ error: 'Debes iniciar sesión' }, { status: 401 });
+
+    const appointments = await service.getAppointments(user.id);
+    const data = appointments.map((a) => ({ ...a, manage_token: createAppointmentToken(a.id) }));
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener tus reservas' });
+  }
+}
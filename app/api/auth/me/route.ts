@@ -0,0 +1,37 @@
+// app/api/auth/me/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/app/services/UserService';
+import { errorResponse, readJson, validationError } from '@/lib/api';
+import { currentUser } from '@/lib/auth';
+import { profileSchema } from '@/lib/schemas';
+
+const service = new UserService();
+
+// GET /api/auth/me → { data: user | null }
+export async function GET() {
+  try {
+    const data = await currentUser();
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener la sesión' });
+  }
+}
+
+// PATCH /api/auth/me
+// Body: { "name": "Ana Pérez" }
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await currentUser();
+    if (!user) return NextResponse.json({ error: 'Debes iniciar sesión' }, { status: 401 });
+
+    const parsed = profileSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const data = await service.update(user.id, parsed.data);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al actualizar el perfil' });
+  }
+}
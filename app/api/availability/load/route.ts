@@ -0,0 +1,69 @@
+// app/api/availability/load/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AvailabilityService } from '@/app/services/AvailabilityService';
+import { parseMachineIds } from '@/lib/api';
+import { addDays, parseDateOnly } from '@/lib/time';
+
+const MAX_RANGE_DAYS = 7;
+
+// GET /api/availability/load?laboratory_id=1&machine_ids=1,2&from=YYYY-MM-DD&days=7
+// Projected campus load (baseline + booked kW) every 30 minutes of the working day; the
+// machines only add `machine_power` so the client can overlay its candidate slot.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const fromStr = searchParams.get('from') ?? searchParams.get('date');
+    const labStr = searchParams.get('laboratory_id');
+    const days = Number.parseInt(searchParams.get('days') ?? '1', 10);
+    const machineIds = parseMachineIds(searchParams);
+    const excludeStr = searchParams.get('exclude_appointment_id');
+    const excludeAppointmentId = excludeStr ? Number(excludeStr) : undefined;
+
+    if (!fromStr || !labStr) {
+      return NextResponse.json(
+        { error: 'Faltan parámetros requeridos: from (o date), laboratory_id' },
+        { status: 400 }
+      );
+    }
+
+    const laboratoryId = Number(labStr);
+    if (!Number.isInteger(laboratoryId) || laboratoryId <= 0) {
+      return NextResponse.json({ error: 'laboratory_id inválido' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(days) || days <= 0 || days > MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `days inválido (entre 1 y ${MAX_RANGE_DAYS})` },
+        { status: 400 }
+      );
+    }
+
+    const from = parseDateOnly(fromStr);
+    const to = addDays(from, days - 1);
+
+    const data = await AvailabilityService.loadProfile({
+      from,
+      to,
+      laboratoryId,
+      machineIds,
+      excludeAppointmentId: Number.isInteger(excludeAppointmentId) ? excludeAppointmentId : undefined,
+    });
+
+    return NextResponse.json(
+      { data, meta: { from: fromStr, days, laboratory_id: laboratoryId, machine_ids: machineIds } },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error?.message === 'Invalid date') {
+      return NextResponse.json({ error: 'Fecha inválida' }, { status: 400 });
+    }
+    console.error('Error computing load profile:', error);
+    return NextResponse.json(
+      { error: 'Error al calcular el perfil de consumo' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,50 +2,67 @@
 export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { AvailabilityService } from '@/app/services/AvailabilityService';
-
-function parseDateOnly(input: string): Date {
-  // Accepts "YYYY-MM-DD" or ISO; normalizes to midnight local time
-  if (!input) throw new Error('Fecha inválida');
-  if (/^\d{4}-\d{2}-\d{2}$/.test(input)) return new Date(`${input}T00:00:00`);
-  const d = new Date(input);
-  if (isNaN(d.getTime())) throw new Error('Fecha inválida');
-  return d;
-}
-
-function parseMachineIds(params: URLSearchParams): number[] {
-  // Support both: machine_ids=1,2,3 AND repeated machine_id=1&machine_id=2
-  const values: string[] = [
-    ...params.getAll('machine_id'),
-    ...params.getAll('machine_ids'),
-  ];
-
-  const pieces =
-    values.length === 1 && values[0]?.includes(',')
-      ? values[0].split(',')
-      : values;
-
-  const ids = pieces
-    .map((v) => Number(v?.trim()))
-    .filter((n) => Number.isFinite(n) && n > 0);
-
-  // dedupe
-  return Array.from(new Set(ids));
-}
-
+import { AvailabilityService, type SlotRanking } from '@/app/services/AvailabilityService';
+import { parseId, parseMachineIds } from '@/lib/api';
+import { currentUser } from '@/lib/auth';
+import { addDays, formatDate, parseDateOnly, today } from '@/lib/time';
+
+const MAX_RANGE_DAYS = 31;
+
+// GET /api/availability?laboratory_id=1&machine_ids=1,2&duration=120
+//   &date=YYYY-MM-DD                  (single day)
+//   &from=YYYY-MM-DD&to=YYYY-MM-DD    (range, inclusive)
+//   &from=YYYY-MM-DD&days=14          (range of N days starting at `from`, or today)
+//   &exclude_appointment_id=12        (optional: treat that appointment as free, for rescheduling)
+//   &rank_by=cost                     (optional: rank slots and efficiencyGroups by tariff cost, default load)
+// `date`, `from`/`to` and `from`/`days` are alternatives: mixing them (date with from/to/days, or
+// to with days) is a 400 rather than one of them being silently ignored.
+// Only slots inside the laboratory's opening hours are returned; `days` tells, for every day of
+// the range, its hours and why it has no bookable slot (closed, duration too long, all taken).
+// Slots held by other users while they book show as unavailable (reason_code "held");
+// the signed-in user's own hold doesn't block them. Machines out of service or under maintenance
+// make the slot unavailable with reason_code "out_of_service" / "maintenance". Every slot carries
+// its `cost` with the time-of-use tariff (null while no tariff bands are set up).
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
 
     const dateStr = searchParams.get('date');
+    const fromStr = searchParams.get('from') ?? dateStr;
+    const toStr = searchParams.get('to');
+    const daysStr = searchParams.get('days');
     const labStr = searchParams.get('laboratory_id');
     const machineIds = parseMachineIds(searchParams);
     const durationStr = searchParams.get('duration');
     const detailed = searchParams.get('detailed') === 'true';
+    const excludeStr = searchParams.get('exclude_appointment_id');
+    const excludeAppointmentId = excludeStr ? parseId(excludeStr) : undefined;
+    const rankBy = (searchParams.get('rank_by') ?? 'load') as SlotRanking;
+
+    if ((!fromStr && !daysStr) || !labStr) {
+      return NextResponse.json(
+        { error: 'Faltan parámetros requeridos: date (o from/to, days), laboratory_id' },
+        { status: 400 }
+      );
+    }
 
-    if (!dateStr || !labStr) {
+    if (dateStr && (searchParams.has('from') || toStr || daysStr)) {
       return NextResponse.json(
-        { error: 'Faltan parámetros requeridos: date, laboratory_id' },
+        { error: 'date no se puede combinar con from, to ni days' },
+        { status: 400 }
+      );
+    }
+
+    if (toStr && daysStr) {
+      return NextResponse.json(
+        { error: 'Indica to o days, no ambos' },
+        { status: 400 }
+      );
+    }
+
+    if (excludeAppointmentId === null) {
+      return NextResponse.json(
+        { error: 'exclude_appointment_id inválido' },
         { status: 400 }
       );
     }
@@ -57,6 +74,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (rankBy !== 'load' && rankBy !== 'cost') {
+      return NextResponse.json(
+        { error: 'rank_by inválido (load o cost)' },
+        { status: 400 }
+      );
+    }
+
     const laboratoryId = Number(labStr);
     if (!Number.isInteger(laboratoryId) || laboratoryId <= 0) {
       return NextResponse.json(
@@ -74,40 +98,74 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const targetDate = parseDateOnly(dateStr);
+    const from = fromStr ? parseDateOnly(fromStr) : today();
+
+    let to = from;
+    if (toStr) {
+      to = parseDateOnly(toStr);
+    } else if (daysStr) {
+      const days = Number.parseInt(daysStr, 10);
+      if (!Number.isInteger(days) || days <= 0) {
+        return NextResponse.json(
+          { error: 'days inválido (entero > 0)' },
+          { status: 400 }
+        );
+      }
+      to = addDays(from, days - 1);
+    }
+
+    const rangeDays = Math.round((to.getTime() - from.getTime()) / 86_400_000) + 1;
+    if (rangeDays <= 0 || rangeDays > MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Rango de fechas inválido (entre 1 y ${MAX_RANGE_DAYS} días)` },
+        { status: 400 }
+      );
+    }
+
     const durationHours = durationMinutes / 60;
+    const user = await currentUser();
 
     const availabilityResult = await AvailabilityService.checkAvailability({
-      date: targetDate,
+      from,
+      to,
       laboratoryId,
       machineIds,
       duration: durationHours,
+      excludeAppointmentId,
+      holdOwnerId: user?.id,
+      rankBy,
       // if your service accepts it, you can also pass `detailed`
     });
 
     // If you want to slim the response when detailed=false, tweak here.
-    const { efficiencyGroups, timeSlots, recommendations, totalDayConsumption, peakHours } = availabilityResult;
+    const { efficiencyGroups, timeSlots, bestSlot, days } = availabilityResult;
 
     return NextResponse.json(
       {
         data: {
           efficiencyGroups,
           timeSlots,
-          recommendations,
-          totalDayConsumption,
-          peakHours,
+          bestSlot,
+          days,
         },
         meta: {
           date: dateStr,
+          from: formatDate(from),
+          to: formatDate(to),
+          days: rangeDays,
           laboratory_id: laboratoryId,
           machine_ids: machineIds,
           duration_minutes: durationMinutes,
+          rank_by: rankBy,
           detailed,
         },
       },
       { status: 200 }
     );
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.message === 'Invalid date') {
+      return NextResponse.json({ error: 'Fecha inválida' }, { status: 400 });
+    }
     console.error('Error checking availability:', error);
     return NextResponse.json(
       { error: 'Error al verificar disponibilidad' },
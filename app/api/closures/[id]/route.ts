@@ -0,0 +1,65 @@
+// app/api/closures/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ClosureService, toClosureData } from '@/app/services/ClosureService';
+import { errorResponse, notFound, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { closureSchema } from '@/lib/schemas';
+
+const service = new ClosureService();
+
+type Params = { params: { id: string } };
+
+// GET /api/closures/:id
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const data = await service.getById(id);
+    if (!data) return notFound('Cierre no encontrado');
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener el cierre' });
+  }
+}
+
+// PATCH /api/closures/:id
+// Body: the whole closure, as in POST /api/closures
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = closureSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const data = await service.update(id, toClosureData(parsed.data), actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al actualizar el cierre',
+      notFound: 'Cierre no encontrado',
+      conflict: 'El laboratorio no existe',
+    });
+  }
+}
+
+// DELETE /api/closures/:id
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    await service.delete(id, actor);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al eliminar el cierre',
+      notFound: 'Cierre no encontrado',
+    });
+  }
+}
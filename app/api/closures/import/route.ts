@@ -0,0 +1,31 @@
+// app/api/closures/import/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ClosureService } from '@/app/services/ClosureService';
+import { errorResponse, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { closureImportSchema } from '@/lib/schemas';
+
+const service = new ClosureService();
+
+// POST /api/closures/import
+// Body: { "ics": "BEGIN:VCALENDAR...", "laboratory_id": 1, "machine_id": null }  (no ids = global)
+// → { data: { created, updated, skipped: [{ uid, title, reason }] } }. Events imported before into
+// the same scope (same UID) are updated; recurring events are skipped.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor();
+    const parsed = closureImportSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { ics, laboratory_id, machine_id } = parsed.data;
+    const data = await service.importIcs(ics, { laboratory_id, machine_id }, actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al importar el calendario',
+      notFound: 'La máquina no existe',
+    });
+  }
+}
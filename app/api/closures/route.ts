@@ -0,0 +1,60 @@
+// app/api/closures/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ClosureService, toClosureData } from '@/app/services/ClosureService';
+import { errorResponse, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { closureSchema } from '@/lib/schemas';
+import { parseDateOnly } from '@/lib/time';
+
+const service = new ClosureService();
+
+// GET /api/closures?laboratory_id=1&from=YYYY-MM-DD&to=YYYY-MM-DD (all optional)
+// With laboratory_id: the laboratory's and its machines' closures plus the global ones
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const labParam = searchParams.get('laboratory_id');
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+
+    const laboratory_id = labParam !== null ? Number(labParam) : undefined;
+    if (laboratory_id !== undefined && (!Number.isInteger(laboratory_id) || laboratory_id <= 0)) {
+      return NextResponse.json({ error: 'laboratory_id inválido' }, { status: 400 });
+    }
+
+    const data = await service.getAll({
+      laboratory_id,
+      from: fromParam ? parseDateOnly(fromParam) : undefined,
+      to: toParam ? parseDateOnly(toParam) : undefined,
+    });
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    if (error?.message === 'Invalid date') {
+      return NextResponse.json({ error: 'Fecha inválida' }, { status: 400 });
+    }
+    return errorResponse(error, { fallback: 'Error al obtener los cierres' });
+  }
+}
+
+// POST /api/closures
+// Body: { "title": "Corte de luz", "laboratory_id": 1, "machine_id": null,
+//         "start_date": "2025-09-16", "end_date": "2025-09-16", "start_time": "14:00", "end_time": "18:00" }
+// Global closures are for energy admins, laboratory / machine ones for the lab's managers
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor();
+    const parsed = closureSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const data = await service.create(toClosureData(parsed.data), actor);
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al crear el cierre',
+      notFound: 'La máquina no existe',
+      conflict: 'El laboratorio no existe',
+    });
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/holds/[id]/confirm/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SlotHoldService } from '@/app/services/SlotHoldService';
+import { UserService } from '@/app/services/UserService';
+import { appointmentErrorResponse, parseId, readJson, validationError } from '@/lib/api';
+import { currentUser } from '@/lib/auth';
+import { holdConfirmSchema } from '@/lib/schemas';
+
+const service = new SlotHoldService();
+const userService = new UserService();
+
+type Params = { params: { id: string } };
+
+// POST /api/holds/:id/confirm
+// Body (optional): { "purpose": "...", "user_name": "..." }
+// Books the held slot (201 like POST /api/appointments); 409 { reason: "hold_expired" } when
+// the hold ran out, and the slot conflicts of a regular booking in the unlikely case it was lost.
+export async function POST(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const user = await currentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Debes iniciar sesión para reservar' }, { status: 401 });
+    }
+
+    const parsed = holdConfirmSchema.safeParse((await readJson(request)) ?? {});
+    if (!parsed.success) return validationError(parsed.error);
+
+    const booker = await userService.withName(user, parsed.data.user_name);
+    const data = await service.confirm(id, {
+      user_id: booker.id,
+      user_name: String(booker.name),
+      user_email: booker.email,
+      purpose: parsed.data.purpose,
+    });
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al confirmar la reserva');
+  }
+}
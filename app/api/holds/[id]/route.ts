@@ -0,0 +1,40 @@
+// app/api/holds/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SlotHoldService } from '@/app/services/SlotHoldService';
+import { errorResponse, notFound, parseId } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+
+const service = new SlotHoldService();
+
+type Params = { params: { id: string } };
+
+// GET /api/holds/:id → the signed-in user's hold (404 once it expired and was purged)
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const data = await service.getById(id, actor.id);
+    if (!data || data.expires_at <= new Date()) return notFound('Reserva temporal no encontrada');
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener la reserva temporal' });
+  }
+}
+
+// DELETE /api/holds/:id → give the slot back before it expires
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    await service.release(id, actor.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al liberar la reserva temporal' });
+  }
+}
@@ -0,0 +1,46 @@
+// app/api/holds/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SlotHoldService } from '@/app/services/SlotHoldService';
+import { appointmentErrorResponse, readJson, validationError } from '@/lib/api';
+import { currentUser } from '@/lib/auth';
+import { holdSchema } from '@/lib/schemas';
+import { parseDateOnly, parseTime } from '@/lib/time';
+
+const service = new SlotHoldService();
+
+// POST /api/holds
+// Body: { "laboratory_id": 1, "machine_ids": [1, 2], "appointment_date": "2025-09-16",
+//         "start_time": "10:00", "end_time": "12:00", "minutes": 5 }   (minutes: default 5, max 15)
+// Holds the slot picked in the booking form so other users see it as taken while the form is
+// completed: 201 { data: hold }. Any previous hold of the user is released. 409 when the slot is
+// no longer available; POST /api/appointments with hold_id books it, DELETE /api/holds/:id gives it back.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await currentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Debes iniciar sesión para reservar' }, { status: 401 });
+    }
+
+    const parsed = holdSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { laboratory_id, machine_ids, appointment_date, start_time, end_time, purpose, minutes } = parsed.data;
+    const data = await service.create(
+      {
+        laboratory_id,
+        machineIds: machine_ids,
+        appointment_date: parseDateOnly(appointment_date),
+        start_time: parseTime(start_time),
+        end_time: parseTime(end_time),
+        purpose: purpose || undefined,
+      },
+      user.id,
+      minutes
+    );
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error: any) {
+    return appointmentErrorResponse(error, 'Error al reservar temporalmente el horario');
+  }
+}
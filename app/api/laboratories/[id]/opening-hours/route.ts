@@ -0,0 +1,48 @@
+// app/api/laboratories/[id]/opening-hours/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OpeningHourService, type DayHours } from '@/app/services/OpeningHourService';
+import { errorResponse, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { openingHoursSchema } from '@/lib/schemas';
+
+const service = new OpeningHourService();
+
+type Params = { params: { id: string } };
+
+// GET /api/laboratories/:id/opening-hours
+// → { data: { days: [{ day_of_week, open_time, close_time }], is_default } }; missing weekdays are closed
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const data = await service.getForLaboratory(id);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener el horario del laboratorio' });
+  }
+}
+
+// PUT /api/laboratories/:id/opening-hours
+// Body: { "days": [{ "day_of_week": 1, "open_time": "07:00", "close_time": "22:00" }, ...] }
+// Replaces the whole week; managers of the laboratory only
+export async function PUT(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = openingHoursSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const data = await service.replace(id, parsed.data.days as DayHours[], actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al guardar el horario del laboratorio',
+      conflict: 'El laboratorio no existe',
+    });
+  }
+}
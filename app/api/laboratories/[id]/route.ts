@@ -0,0 +1,66 @@
+// app/api/laboratories/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { LaboratoryService } from '@/app/services/LaboratoryService';
+import { errorResponse, notFound, parseId, readJson, validationError } from '@/lib/api';
+import { currentActor, requireActor } from '@/lib/auth';
+import { laboratoryUpdateSchema } from '@/lib/schemas';
+
+const service = new LaboratoryService();
+
+type Params = { params: { id: string } };
+
+// GET /api/laboratories/:id (includes machines, and appointments for the lab's managers)
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const data = await service.getById(id, await currentActor());
+    if (!data) return notFound('Laboratorio no encontrado');
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener el laboratorio' });
+  }
+}
+
+// PATCH /api/laboratories/:id
+// Body: any of { "name", "location" }
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = laboratoryUpdateSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const data = await service.update(id, parsed.data, actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al actualizar el laboratorio',
+      notFound: 'Laboratorio no encontrado',
+    });
+  }
+}
+
+// DELETE /api/laboratories/:id
+// 409 while the laboratory still has machines or appointments
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    await service.delete(id, actor);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al eliminar el laboratorio',
+      notFound: 'Laboratorio no encontrado',
+      conflict: 'El laboratorio tiene máquinas o citas asociadas',
+    });
+  }
+}
@@ -3,6 +3,9 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { LaboratoryService } from '@/app/services/LaboratoryService'; // adjust path if needed
+import { errorResponse, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { laboratorySchema } from '@/lib/schemas';
 
 const service = new LaboratoryService();
 
@@ -18,3 +21,18 @@ export async function GET(_req: NextRequest) {
     );
   }
 }
+
+// POST /api/laboratories
+// Body: { "name": "Laboratorio de Física", "location": "Edificio A - Planta 2" }
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor();
+    const parsed = laboratorySchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const data = await service.create(parsed.data.name, parsed.data.location, actor);
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al crear el laboratorio' });
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/machines/[id]/maintenance/[windowId]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MaintenanceService } from '@/app/services/MaintenanceService';
+import { errorResponse, parseId } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+
+const service = new MaintenanceService();
+
+type Params = { params: { id: string; windowId: string } };
+
+// DELETE /api/machines/:id/maintenance/:windowId
+// Bookings flagged because of it stay flagged until they're rescheduled
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  const windowId = parseId(params.windowId);
+  if (id === null || windowId === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    await service.delete(id, windowId, actor);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al eliminar el mantenimiento',
+      notFound: 'Mantenimiento no encontrado',
+    });
+  }
+}
@@ -0,0 +1,55 @@
+// app/api/machines/[id]/maintenance/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MaintenanceService, toMaintenanceWindowData } from '@/app/services/MaintenanceService';
+import { MailService } from '@/app/services/MailService';
+import { errorResponse, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { maintenanceWindowSchema } from '@/lib/schemas';
+
+const service = new MaintenanceService();
+const mailService = new MailService();
+
+type Params = { params: { id: string } };
+
+// GET /api/machines/:id/maintenance (windows that haven't ended yet)
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const data = await service.getUpcoming(id);
+    return NextResponse.json({ data, meta: { machine_id: id } }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener los mantenimientos' });
+  }
+}
+
+// POST /api/machines/:id/maintenance
+// Body: { "reason": "Calibración", "start_date": "2025-09-16", "end_date": "2025-09-16",
+//         "start_time": "14:00", "end_time": "18:00" }  (times optional = whole days)
+// Upcoming bookings of the machine in that period are flagged and their bookers emailed
+// → 201 { data, meta: { flagged_appointment_ids } }
+export async function POST(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = maintenanceWindowSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { window, affected } = await service.create(id, toMaintenanceWindowData(parsed.data), actor);
+    await mailService.sendMachineIssues(affected, new URL(request.url).origin);
+    return NextResponse.json(
+      { data: window, meta: { flagged_appointment_ids: affected.map((a) => a.id) } },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al programar el mantenimiento',
+      notFound: 'Máquina no encontrada',
+    });
+  }
+}
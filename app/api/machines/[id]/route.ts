@@ -0,0 +1,88 @@
+// app/api/machines/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MachineInUseError, MachineService } from '@/app/services/MachineService';
+import { MailService } from '@/app/services/MailService';
+import { errorResponse, notFound, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import type { PowerProfile } from '@/lib/power-profile';
+import { machineUpdateSchema } from '@/lib/schemas';
+
+const service = new MachineService();
+const mailService = new MailService();
+
+type Params = { params: { id: string } };
+
+// GET /api/machines/:id (includes its laboratory)
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const data = await service.getById(id);
+    if (!data) return notFound('Máquina no encontrada');
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener la máquina' });
+  }
+}
+
+// PATCH /api/machines/:id
+// Body: any of { "name", "power_consumption", "laboratory_id", "power_profile", "out_of_service", "out_of_service_reason" }
+//   power_profile: { "kind": "phases", "warm_up": { "minutes": 30, "kw": 6 }, "steady_kw": 2, "cool_down": null }
+//               or { "kind": "curve", "interval_minutes": 15, "samples_kw": [6, 5, 3, 2] }, null to remove it
+// Taking the machine out of service flags its upcoming bookings and emails their bookers
+// → { data, meta: { flagged_appointment_ids } }
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = machineUpdateSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { power_profile, ...fields } = parsed.data;
+    const { machine, affected } = await service.update(
+      id,
+      { ...fields, power_profile: power_profile as PowerProfile | null | undefined },
+      actor
+    );
+    await mailService.sendMachineIssues(affected, new URL(request.url).origin);
+    return NextResponse.json(
+      { data: machine, meta: { flagged_appointment_ids: affected.map((a) => a.id) } },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al actualizar la máquina',
+      notFound: 'Máquina no encontrada',
+      conflict: 'El laboratorio no existe',
+    });
+  }
+}
+
+// DELETE /api/machines/:id
+// 409 while PENDING, CONFIRMED or IN_PROGRESS appointments still reserve the machine
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    await service.delete(id, actor);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    if (error instanceof MachineInUseError) {
+      return NextResponse.json(
+        { error: error.message, appointment_ids: error.appointmentIds },
+        { status: 409 }
+      );
+    }
+    return errorResponse(error, {
+      fallback: 'Error al eliminar la máquina',
+      notFound: 'Máquina no encontrada',
+    });
+  }
+}
@@ -3,6 +3,9 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { MachineService } from '@/app/services/MachineService'; // adjust path if needed
+import { errorResponse, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { machineSchema } from '@/lib/schemas';
 const service = new MachineService();
 
 export async function GET(request: NextRequest) {
@@ -31,3 +34,22 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+// POST /api/machines
+// Body: { "name": "Espectrómetro", "power_consumption": 1.8, "laboratory_id": 1 }
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor();
+    const parsed = machineSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { name, power_consumption, laboratory_id } = parsed.data;
+    const data = await service.create(name, power_consumption, laboratory_id, actor);
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al crear la máquina',
+      conflict: 'El laboratorio no existe',
+    });
+  }
+}
@@ -0,0 +1,78 @@
+// app/api/preferred-hours/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { PreferredHourOverlapError, PreferredHourService } from '@/app/services/PreferredHourService';
+import { errorResponse, notFound, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { preferredHourUpdateSchema } from '@/lib/schemas';
+import { parseTime } from '@/lib/time';
+
+const service = new PreferredHourService();
+
+type Params = { params: { id: string } };
+
+// GET /api/preferred-hours/:id
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const data = await service.getById(id);
+    if (!data) return notFound('Horario de consumo no encontrado');
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener el horario de consumo' });
+  }
+}
+
+// PATCH /api/preferred-hours/:id
+// Body: any of { "day_of_week", "start_time", "end_time", "power_consumption" }
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = preferredHourUpdateSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { day_of_week, start_time, end_time, power_consumption } = parsed.data;
+    const data = await service.update(id, {
+      ...(day_of_week !== undefined ? { day_of_week } : {}),
+      ...(start_time !== undefined ? { start_time: parseTime(start_time) } : {}),
+      ...(end_time !== undefined ? { end_time: parseTime(end_time) } : {}),
+      ...(power_consumption !== undefined ? { power_consumption: new Prisma.Decimal(power_consumption) } : {}),
+    }, actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof PreferredHourOverlapError) {
+      return NextResponse.json(
+        { error: error.message, overlapping_id: error.overlapping.id },
+        { status: 409 }
+      );
+    }
+    return errorResponse(error, {
+      fallback: 'Error al actualizar el horario de consumo',
+      notFound: 'Horario de consumo no encontrado',
+    });
+  }
+}
+
+// DELETE /api/preferred-hours/:id
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    await service.delete(id, actor);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al eliminar el horario de consumo',
+      notFound: 'Horario de consumo no encontrado',
+    });
+  }
+}
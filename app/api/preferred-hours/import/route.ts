@@ -0,0 +1,29 @@
+// app/api/preferred-hours/import/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PreferredHourService } from '@/app/services/PreferredHourService';
+import { errorResponse, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { preferredHourImportSchema } from '@/lib/schemas';
+
+const service = new PreferredHourService();
+
+// POST /api/preferred-hours/import
+// Body: { "csv": "timestamp,kW\n2025-09-16T10:15:00-03:00,182.4\n...", "band_minutes": 60 }
+// → { data: { readings, days, weekdays, created, replaced, skipped: [{ line, reason }] } }. The
+// baseline of every weekday with readings is replaced by the average kW of each band, and the
+// hourly load of every day is kept as history for the forecast.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor();
+    const parsed = preferredHourImportSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { csv, band_minutes } = parsed.data;
+    const data = await service.importMeterCsv(csv, band_minutes, actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al importar las lecturas del medidor' });
+  }
+}
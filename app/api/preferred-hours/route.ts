@@ -0,0 +1,50 @@
+// app/api/preferred-hours/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { PreferredHourOverlapError, PreferredHourService } from '@/app/services/PreferredHourService';
+import { errorResponse, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { preferredHourSchema } from '@/lib/schemas';
+import { parseTime } from '@/lib/time';
+
+const service = new PreferredHourService();
+
+// GET /api/preferred-hours
+export async function GET(_req: NextRequest) {
+  try {
+    const data = await service.getAll();
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener los horarios de consumo' });
+  }
+}
+
+// POST /api/preferred-hours
+// Body: { "day_of_week": 1, "start_time": "08:00", "end_time": "10:00", "power_consumption": 55.5 }
+// day_of_week: 0=Sun .. 6=Sat; 409 when the range overlaps another row of the same day
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor();
+    const parsed = preferredHourSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { day_of_week, start_time, end_time, power_consumption } = parsed.data;
+    const data = await service.create({
+      day_of_week,
+      start_time: parseTime(start_time),
+      end_time: parseTime(end_time),
+      power_consumption: new Prisma.Decimal(power_consumption),
+    }, actor);
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof PreferredHourOverlapError) {
+      return NextResponse.json(
+        { error: error.message, overlapping_id: error.overlapping.id },
+        { status: 409 }
+      );
+    }
+    return errorResponse(error, { fallback: 'Error al crear el horario de consumo' });
+  }
+}
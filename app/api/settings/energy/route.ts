@@ -0,0 +1,39 @@
+// app/api/settings/energy/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { EnergySettingsService } from '@/app/services/EnergySettingsService';
+import { errorResponse, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { energySettingsSchema, energySettingsUpdateSchema } from '@/lib/schemas';
+
+const service = new EnergySettingsService();
+
+// GET /api/settings/energy → global consumption limits used by availability and approvals
+export async function GET() {
+  try {
+    const data = await service.get();
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener los límites de consumo' });
+  }
+}
+
+// PATCH /api/settings/energy (energy admins only)
+// Body: any of { "max_daily_consumption", "peak_consumption_threshold",
+//                "approval_energy_threshold", "approval_peak_window" }
+// 400 when the peak window would end up above the slot threshold, counting the values not sent
+export async function PATCH(request: NextRequest) {
+  try {
+    const actor = await requireActor();
+    const parsed = energySettingsUpdateSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+    const merged = energySettingsSchema.safeParse({ ...(await service.get()), ...parsed.data });
+    if (!merged.success) return validationError(merged.error);
+
+    const data = await service.update(parsed.data, actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al actualizar los límites de consumo' });
+  }
+}
@@ -0,0 +1,79 @@
+// app/api/tariff-bands/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { TariffBandOverlapError, TariffService } from '@/app/services/TariffService';
+import { errorResponse, notFound, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { tariffBandUpdateSchema } from '@/lib/schemas';
+import { parseTime } from '@/lib/time';
+
+const service = new TariffService();
+
+type Params = { params: { id: string } };
+
+// GET /api/tariff-bands/:id
+export async function GET(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const data = await service.getById(id);
+    if (!data) return notFound('Banda tarifaria no encontrada');
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener la banda tarifaria' });
+  }
+}
+
+// PATCH /api/tariff-bands/:id
+// Body: any of { "name", "start_time", "end_time", "energy_price", "demand_price" }
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = tariffBandUpdateSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { name, start_time, end_time, energy_price, demand_price } = parsed.data;
+    const data = await service.update(id, {
+      ...(name !== undefined ? { name } : {}),
+      ...(start_time !== undefined ? { start_time: parseTime(start_time) } : {}),
+      ...(end_time !== undefined ? { end_time: parseTime(end_time) } : {}),
+      ...(energy_price !== undefined ? { energy_price: new Prisma.Decimal(energy_price) } : {}),
+      ...(demand_price !== undefined ? { demand_price: new Prisma.Decimal(demand_price) } : {}),
+    }, actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof TariffBandOverlapError) {
+      return NextResponse.json(
+        { error: error.message, overlapping_id: error.overlapping.id },
+        { status: 409 }
+      );
+    }
+    return errorResponse(error, {
+      fallback: 'Error al actualizar la banda tarifaria',
+      notFound: 'Banda tarifaria no encontrada',
+    });
+  }
+}
+
+// DELETE /api/tariff-bands/:id
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    await service.delete(id, actor);
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al eliminar la banda tarifaria',
+      notFound: 'Banda tarifaria no encontrada',
+    });
+  }
+}
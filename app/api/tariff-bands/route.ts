@@ -0,0 +1,52 @@
+// app/api/tariff-bands/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { TariffBandOverlapError, TariffService } from '@/app/services/TariffService';
+import { errorResponse, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { tariffBandSchema } from '@/lib/schemas';
+import { parseTime } from '@/lib/time';
+
+const service = new TariffService();
+
+// GET /api/tariff-bands
+export async function GET(_req: NextRequest) {
+  try {
+    const data = await service.getAll();
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener las bandas tarifarias' });
+  }
+}
+
+// POST /api/tariff-bands
+// Body: { "name": "Pico", "start_time": "18:00", "end_time": "23:00", "energy_price": 95.5, "demand_price": 1200 }
+// energy_price in $/kWh, demand_price in $/kW; an end_time before start_time runs past midnight.
+// 409 when the band overlaps another one
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor();
+    const parsed = tariffBandSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { name, start_time, end_time, energy_price, demand_price } = parsed.data;
+    const data = await service.create({
+      name,
+      start_time: parseTime(start_time),
+      end_time: parseTime(end_time),
+      energy_price: new Prisma.Decimal(energy_price),
+      demand_price: new Prisma.Decimal(demand_price ?? 0),
+    }, actor);
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof TariffBandOverlapError) {
+      return NextResponse.json(
+        { error: error.message, overlapping_id: error.overlapping.id },
+        { status: 409 }
+      );
+    }
+    return errorResponse(error, { fallback: 'Error al crear la banda tarifaria' });
+  }
+}
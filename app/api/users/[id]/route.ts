@@ -0,0 +1,35 @@
+// app/api/users/[id]/route.ts
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/app/services/UserService';
+import { errorResponse, parseId, readJson, validationError } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+import { userAccessSchema } from '@/lib/schemas';
+
+const service = new UserService();
+
+type Params = { params: { id: string } };
+
+// PATCH /api/users/:id (energy admins only)
+// Body: { "role": "LAB_MANAGER", "laboratory_ids": [1, 2] }
+// laboratory_ids replaces the managed laboratories; it is ignored (and cleared) for other roles.
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const id = parseId(params.id);
+  if (id === null) return NextResponse.json({ error: 'id inválido' }, { status: 400 });
+
+  try {
+    const actor = await requireActor();
+    const parsed = userAccessSchema.safeParse(await readJson(request));
+    if (!parsed.success) return validationError(parsed.error);
+
+    const { role, laboratory_ids } = parsed.data;
+    const data = await service.updateAccess(id, { role, laboratory_ids }, actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, {
+      fallback: 'Error al actualizar el usuario',
+      notFound: 'Usuario o laboratorio no encontrado',
+    });
+  }
+}
@@ -0,0 +1,20 @@
+// app/api/users/route.ts
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { UserService } from '@/app/services/UserService';
+import { errorResponse } from '@/lib/api';
+import { requireActor } from '@/lib/auth';
+
+const service = new UserService();
+
+// GET /api/users (energy admins only), with the laboratories each lab manager administers
+export async function GET() {
+  try {
+    const actor = await requireActor();
+    const data = await service.getAll(actor);
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error: any) {
+    return errorResponse(error, { fallback: 'Error al obtener los usuarios' });
+  }
+}
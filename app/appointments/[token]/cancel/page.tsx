@@ -0,0 +1,17 @@
+import AppointmentCancel from "@/components/appointment-cancel"
+
+export default function CancelAppointmentPage({ params }: { params: { token: string } }) {
+  return (
+    <main className="min-h-screen bg-background py-8 px-4">
+      <div className="container mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-2">Cancelar Reserva</h1>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Libera los equipos reservados para que otros grupos puedan usarlos
+          </p>
+        </div>
+        <AppointmentCancel token={params.token} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,17 @@
+import AppointmentReschedule from "@/components/appointment-reschedule"
+
+export default function RescheduleAppointmentPage({ params }: { params: { token: string } }) {
+  return (
+    <main className="min-h-screen bg-background py-8 px-4">
+      <div className="container mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-2">Reprogramar Reserva</h1>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Elige un nuevo horario para los mismos equipos
+          </p>
+        </div>
+        <AppointmentReschedule token={params.token} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,17 @@
+import ReservationCalendar from "@/components/reservation-calendar"
+
+export default function CalendarPage() {
+  return (
+    <main className="min-h-screen bg-background py-8 px-4">
+      <div className="container mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-2">Calendario de Reservas</h1>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Consulta lo que ya está reservado y planifica tus experimentos según el consumo de cada franja
+          </p>
+        </div>
+        <ReservationCalendar />
+      </div>
+    </main>
+  )
+}
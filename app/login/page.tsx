@@ -0,0 +1,20 @@
+import { Suspense } from "react"
+import LoginForm from "@/components/login-form"
+
+export default function LoginPage() {
+  return (
+    <main className="min-h-screen bg-background py-8 px-4">
+      <div className="container mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-2">Sistema de Reservas de Laboratorio</h1>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Ingresa con tu correo universitario para reservar y ver tus reservas
+          </p>
+        </div>
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,17 @@
+import MyReservations from "@/components/my-reservations"
+
+export default function MyReservationsPage() {
+  return (
+    <main className="min-h-screen bg-background py-8 px-4">
+      <div className="container mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-2">Mis Reservas</h1>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Consulta, reprograma o cancela las reservas hechas con tu cuenta
+          </p>
+        </div>
+        <MyReservations />
+      </div>
+    </main>
+  )
+}
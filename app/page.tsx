@@ -1,3 +1,4 @@
+import Link from "next/link"
 import AppointmentForm from "@/components/appointment-form"
 
 export default function Home() {
@@ -9,6 +10,14 @@ export default function Home() {
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
             Reserva equipos de laboratorio de manera eficiente con optimización automática del consumo energético
           </p>
+          <div className="flex justify-center gap-4 text-sm">
+            <Link href="/calendar" className="text-primary underline-offset-4 hover:underline">
+              Ver el calendario de reservas
+            </Link>
+            <Link href="/my-reservations" className="text-primary underline-offset-4 hover:underline">
+              Mis reservas
+            </Link>
+          </div>
         </div>
         <AppointmentForm />
       </div>
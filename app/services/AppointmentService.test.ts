@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppointmentConflictError, AppointmentService } from '@/app/services/AppointmentService';
+import { ForbiddenError } from '@/lib/permissions';
+import { addDays, formatDate, formatTime, parseDateOnly, parseTime, today, weekday } from '@/lib/time';
+
+// In-memory stand-in for the Prisma client: one laboratory with one machine, no other bookings,
+// settings or baseline; appointments are kept the way Postgres keeps @db.Date / @db.Time() values
+const db = vi.hoisted(() => {
+  const machine = {
+    id: 1,
+    name: 'Máquina de prueba',
+    power_consumption: 0.5,
+    power_profile: null,
+    out_of_service: false,
+    out_of_service_reason: null,
+  };
+  const laboratory = { id: 1, name: 'Laboratorio de prueba', location: 'Test' };
+  const rows = new Map<number, any>();
+  const written: any[] = [];
+
+  // what the columns keep of the Dates Prisma sends: the UTC day and the UTC time of day
+  const dateColumn = (d: Date) => new Date(`${d.toISOString().slice(0, 10)}T00:00:00.000Z`);
+  const timeColumn = (d: Date) => new Date(`1970-01-01T${d.toISOString().slice(11)}`);
+
+  const appointment = {
+    findMany: async () => [],
+    create: async ({ data }: { data: any }) => {
+      written.push(data);
+      const { machines, ...fields } = data;
+      const row = {
+        ...fields,
+        id: rows.size + 1,
+        appointment_date: dateColumn(data.appointment_date),
+        start_time: timeColumn(data.start_time),
+        end_time: timeColumn(data.end_time),
+        laboratory,
+        machines: [machine],
+      };
+      rows.set(row.id, row);
+      return row;
+    },
+    findUnique: async ({ where }: { where: { id: number } }) => rows.get(where.id) ?? null,
+  };
+  const empty = { findMany: async () => [], findUnique: async () => null };
+  const series = { id: 1, laboratory_id: laboratory.id, user_id: 7 };
+  const models: Record<string, unknown> = {
+    appointment,
+    appointmentSeries: { findUniqueOrThrow: async () => series },
+    machine: { findMany: async () => [machine] },
+  };
+
+  const prisma: any = new Proxy(
+    { $transaction: async (fn: (tx: unknown) => unknown) => fn(prisma) },
+    { get: (target, key: string) => target[key] ?? models[key] ?? empty }
+  );
+  return { prisma, rows, written };
+});
+
+vi.mock('@/lib/prisma', () => ({ prisma: db.prisma }));
+
+describe(`AppointmentService (TZ=${process.env.TZ ?? 'unset'})`, () => {
+  const service = new AppointmentService();
+
+  beforeEach(() => {
+    db.rows.clear();
+    db.written.length = 0;
+  });
+
+  it('stores the booked day and times as they were entered, and reads them back unchanged', async () => {
+    // a week ahead, moved off Sunday (closed by the default opening hours)
+    let day = addDays(today(), 7);
+    if (weekday(day) === 0) day = addDays(day, 1);
+    const date = formatDate(day);
+
+    const created = await service.create({
+      data: {
+        laboratory_id: 1,
+        user_name: 'Prueba',
+        user_email: 'prueba@example.com',
+        appointment_date: parseDateOnly(date),
+        start_time: parseTime('08:30'),
+        end_time: parseTime('17:45'),
+        purpose: 'Round-trip de fechas',
+      },
+      machineIds: [1],
+    });
+
+    const [data] = db.written;
+    expect(data.appointment_date.toISOString()).toBe(`${date}T00:00:00.000Z`);
+    expect(data.start_time.toISOString()).toBe('1970-01-01T08:30:00.000Z');
+    expect(data.end_time.toISOString()).toBe('1970-01-01T17:45:00.000Z');
+
+    const read = await service.getById(created.id);
+    expect(formatDate(read.appointment_date)).toBe(date);
+    expect(formatTime(read.start_time)).toBe('08:30');
+    expect(formatTime(read.end_time)).toBe('17:45');
+  });
+
+  it('rejects a start that already passed in APP_TIME_ZONE', async () => {
+    await expect(
+      service.create({
+        data: {
+          laboratory_id: 1,
+          user_name: 'Prueba',
+          user_email: 'prueba@example.com',
+          appointment_date: addDays(today(), -1),
+          start_time: parseTime('10:00'),
+          end_time: parseTime('11:00'),
+          purpose: 'Ayer',
+        },
+        machineIds: [1],
+      })
+    ).rejects.toThrow('Invalid schedule');
+    expect(db.written).toHaveLength(0);
+  });
+
+  it('reports the occurrences of a series that already started as past', async () => {
+    const error = await service
+      .createSeries({
+        data: {
+          laboratory_id: 1,
+          user_name: 'Prueba',
+          user_email: 'prueba@example.com',
+          appointment_date: addDays(today(), -7),
+          start_time: parseTime('10:00'),
+          end_time: parseTime('11:00'),
+          purpose: 'Serie',
+        },
+        machineIds: [1],
+        recurrence: { frequency: 'WEEKLY', count: 3 },
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AppointmentConflictError);
+    expect(error.reason).toBe('series_conflict');
+    expect(error.details.occurrences[0]).toMatchObject({ available: false, reason_code: 'past' });
+    expect(db.written).toHaveLength(0);
+  });
+
+  it('lets the booker of a series move it, but not change its machines', async () => {
+    const booker = { id: 7, role: 'STUDENT' as const, managed_laboratory_ids: [] };
+    const stranger = { ...booker, id: 8 };
+
+    await expect(service.updateSeries(1, { data: {}, setMachineIds: [2] }, booker)).rejects.toThrow(ForbiddenError);
+    await expect(service.updateSeries(1, { data: { purpose: 'Otro' } }, stranger)).rejects.toThrow(ForbiddenError);
+    await expect(service.updateSeries(1, { data: { purpose: 'Otro' } }, booker)).resolves.toMatchObject({
+      occurrences: [],
+      skipped_ids: [],
+    });
+  });
+});
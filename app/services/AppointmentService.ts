@@ -1,29 +1,166 @@
-import { Prisma, PrismaClient } from '@prisma/client';
+import { AppointmentStatus, Prisma, PrismaClient } from '@prisma/client';
 import { prisma } from '@/lib/prisma'; // the singleton above
+import { canTransition, EDITABLE_STATUSES, STATUS_LABELS, transitionData } from '@/lib/appointment-status';
+import {
+  AvailabilityOptions,
+  AvailabilityService,
+  BaselineForecast,
+  SlotEvaluation,
+  SlotUnavailableReason,
+  SlotWindow,
+  TimeSlot,
+} from '@/app/services/AvailabilityService';
+import { combinedSegments, energyKwh, peakKw, readPowerProfile } from '@/lib/power-profile';
+import { expandRecurrence, recurrenceDays, RecurrenceRule } from '@/lib/recurrence';
+import { formatDate, formatTime, parseDateOnly, parseTime, zonedDateTime } from '@/lib/time';
+import {
+  Actor,
+  assertCanAccessAppointment,
+  assertManagesLaboratory,
+  ForbiddenError,
+  managedLaboratoryIds,
+  managesLaboratory,
+} from '@/lib/permissions';
+
+export type AppointmentConflictReason =
+  | SlotUnavailableReason
+  | 'invalid_machines'
+  | 'not_active'           // the appointment is no longer editable (cancelled, completed, ...)
+  | 'invalid_transition'   // status change not allowed by the lifecycle
+  | 'cancellation_window'  // self-service changes closer than MIN_NOTICE_HOURS to the start
+  | 'series_conflict'      // some occurrences of a recurring booking can't be booked (see details.occurrences)
+  | 'no_slot'              // auto-scheduling found no available slot in the requested window
+  | 'past'                 // an occurrence of a recurring booking that already started
+  | 'hold_expired';        // the slot hold being booked no longer exists or belongs to someone else
+
+// Availability of one date of a recurring booking, and the appointment once booked
+export interface OccurrenceReport {
+  date: string;       // "YYYY-MM-DD"
+  start_time: string; // "HH:MM"
+  end_time: string;   // "HH:MM"
+  available: boolean;
+  reason?: string;
+  reason_code?: AppointmentConflictReason;
+  requires_approval: boolean;
+  approval_reason?: string;
+  appointment_id?: number;
+}
+
+// Thrown when a booking can't be made as requested; routes map it to a 409
+export class AppointmentConflictError extends Error {
+  constructor(
+    public readonly reason: AppointmentConflictReason,
+    message: string,
+    public readonly details?: Partial<SlotEvaluation> & { occurrences?: OccurrenceReport[] },
+  ) {
+    super(message);
+    this.name = 'AppointmentConflictError';
+  }
+}
+
+// Energy/power columns are always derived from the machines, never taken from the client;
+// status and its timestamps only change through transition()
+type DerivedFields =
+  | 'power_consumption'
+  | 'peak_power'
+  | 'status'
+  | 'confirmed_at'
+  | 'started_at'
+  | 'completed_at'
+  | 'cancelled_at'
+  | 'no_show_at'
+  | 'rejected_at'
+  | 'requires_approval'
+  | 'approval_reason'
+  | 'review_note'
+  | 'series_id'
+  | 'machine_issue'
+  | 'machine_issue_at';
+
+type AppointmentCreateData = Omit<Prisma.AppointmentUncheckedCreateInput, 'id' | 'created_at' | DerivedFields> & {
+  appointment_date: Date;
+  start_time: Date;
+  end_time: Date;
+};
+
+// Laboratory and time window repeated by a series; appointment_date is its first day
+type OccurrenceWindow = Pick<AppointmentCreateData, 'laboratory_id' | 'appointment_date' | 'start_time' | 'end_time'>;
+
+// Booker data only the booker and the laboratory's managers see; for everyone else a booking is
+// just the occupancy of the lab and its machines
+type BookerFields = 'user_id' | 'user_name' | 'user_email' | 'review_note';
+
+function withoutBooker<T extends Record<BookerFields, unknown>>(appointment: T): Omit<T, BookerFields> {
+  const { user_id, user_name, user_email, review_note, ...rest } = appointment;
+  return rest;
+}
+
+const SERIES_INCLUDE = {
+  appointments: {
+    include: { laboratory: true, machines: true },
+    orderBy: [{ appointment_date: 'asc' }, { start_time: 'asc' }],
+  },
+} satisfies Prisma.AppointmentSeriesInclude;
+
+type AppointmentUpdateInput = {
+  data: Partial<Omit<Prisma.AppointmentUncheckedUpdateInput, 'id' | 'created_at' | DerivedFields>>;
+  setMachineIds?: number[]; // if provided, we replace the join rows
+  addMachineIds?: number[]; // optionally, add more
+  removeMachineIds?: number[]; // optionally, remove some
+};
 
 export class AppointmentService {
-  async getAllBy(options: { date?: string; laboratory_id?: number }) {
-    const { date, laboratory_id } = options;
+  // Bookers can cancel or reschedule on their own only this long before the start
+  static readonly MIN_NOTICE_HOURS = 24;
+  // Candidates tried by autoSchedule before giving up
+  static readonly AUTO_SCHEDULE_ATTEMPTS = 3;
+
+  // `date` is a single day; `from` / `to` an inclusive range of days (both YYYY-MM-DD).
+  // Full rows for the actor's own bookings and the laboratories they manage; the rest without the booker.
+  async getAllBy(
+    options: {
+      date?: string;
+      from?: string;
+      to?: string;
+      laboratory_id?: number;
+      machine_id?: number;
+      statuses?: AppointmentStatus[];
+    },
+    actor: Actor,
+  ) {
+    const { date, laboratory_id, machine_id, statuses } = options;
+    const from = date ?? options.from;
+    const to = date ?? options.to;
 
     const where: Prisma.AppointmentWhereInput = {};
 
-    if (date) {
-      // interpret `date` as local YYYY-MM-DD
-      const start = new Date(`${date}T00:00:00`);
-      const end = new Date(`${date}T23:59:59.999`);
-      // Better: use UTC-safe math if your server TZ differs from desired TZ.
-      where.appointment_date = { gte: start, lte: end };
+    if (from || to) {
+      where.appointment_date = {
+        ...(from && { gte: parseDateOnly(from) }),
+        ...(to && { lte: parseDateOnly(to) }),
+      };
     }
 
     if (laboratory_id !== undefined) {
       where.laboratory_id = laboratory_id;
     }
 
-    return prisma.appointment.findMany({
+    if (machine_id !== undefined) {
+      where.machines = { some: { id: machine_id } };
+    }
+
+    if (statuses?.length) {
+      where.status = { in: statuses };
+    }
+
+    const appointments = await prisma.appointment.findMany({
       where,
       include: { laboratory: true, machines: true },
       orderBy: [{ appointment_date: 'asc' }, { start_time: 'asc' }],
     });
+    return appointments.map((a) =>
+      a.user_id === actor.id || managesLaboratory(actor, a.laboratory_id) ? a : withoutBooker(a),
+    );
   }
 
   async getAll() {
@@ -40,38 +177,296 @@ export class AppointmentService {
     });
   }
 
-  // Create with optional machineIds to connect
-  async create(input: {
-    data: Omit<Prisma.AppointmentUncheckedCreateInput, 'id' | 'created_at'>;
-    machineIds?: number[];
+  // Same as getById, for the booker or a manager of the laboratory only
+  async getByIdFor(id: number, actor: Actor) {
+    const appointment = await this.getById(id);
+    if (appointment) assertCanAccessAppointment(actor, appointment);
+    return appointment;
+  }
+
+  // Create with optional machineIds to connect; new bookings start CONFIRMED, or PENDING when
+  // the slot requires approval (high consumption / peak window). Availability is re-checked
+  // inside a serializable transaction so two concurrent bookings can't both pass the check; throws AppointmentConflictError otherwise.
+  // With holdId, books over the booker's own slot hold (see SlotHoldService) and releases it.
+  // Windows that already started (in APP_TIME_ZONE) are rejected as invalid.
+  async create(input: { data: AppointmentCreateData; machineIds?: number[]; holdId?: number; forecast?: BaselineForecast }) {
+    const { data, machineIds, holdId } = input;
+    this.assertNotStarted(data);
+    const forecast = input.forecast ?? (await AvailabilityService.forecastBaseline([data.appointment_date]));
+    return prisma.$transaction(
+      async (tx) => {
+        if (holdId !== undefined) await this.claimHold(tx, holdId, data.user_id);
+
+        const { slot } = await this.assertBookable(tx, {
+          date: data.appointment_date,
+          laboratoryId: data.laboratory_id,
+          machineIds: machineIds ?? [],
+          start_time: formatTime(data.start_time),
+          end_time: formatTime(data.end_time),
+          holdOwnerId: data.user_id ?? undefined,
+          forecast,
+        });
+        return this.insertAppointment(tx, data, machineIds, slot);
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+    );
+  }
+
+  // "Book the best slot for me": the lowest-load available slot of the range inside the window.
+  // When a candidate is taken between the search and the booking the next one is tried.
+  async autoSchedule(input: {
+    data: Omit<AppointmentCreateData, 'appointment_date' | 'start_time' | 'end_time'>;
+    machineIds: number[];
+    search: Pick<AvailabilityOptions, 'from' | 'to' | 'duration'> & SlotWindow;
   }) {
-    const { data, machineIds } = input;
-    return prisma.appointment.create({
-      data: {
-        ...data,
-        // If you prefer relation-safe input, switch to AppointmentCreateInput and use:
-        // laboratory: { connect: { id: data.laboratory_id } },
-        ...(machineIds?.length
-          ? {
-              machines: {
-                connect: machineIds.map((id) => ({ id })),
-              },
-            }
-          : {}),
+    const { data, machineIds, search } = input;
+    const candidates = await AvailabilityService.candidateSlots({
+      ...search,
+      laboratoryId: data.laboratory_id,
+      machineIds,
+    });
+
+    const attempts = candidates.slice(0, AppointmentService.AUTO_SCHEDULE_ATTEMPTS);
+    const forecast = await AvailabilityService.forecastBaseline(attempts.map((slot) => parseDateOnly(slot.date)));
+
+    for (const slot of attempts) {
+      try {
+        const appointment = await this.create({
+          data: {
+            ...data,
+            appointment_date: parseDateOnly(slot.date),
+            start_time: parseTime(slot.start_time),
+            end_time: parseTime(slot.end_time),
+          },
+          machineIds,
+          forecast,
+        });
+        return { appointment, slot };
+      } catch (error) {
+        if (!AppointmentService.isLostRace(error)) throw error;
+      }
+    }
+    throw new AppointmentConflictError('no_slot', 'No hay horarios disponibles en la ventana elegida');
+  }
+
+  /** The slot was taken (or the load changed) between choosing and booking it */
+  static isLostRace(error: unknown): boolean {
+    if (error instanceof AppointmentConflictError) {
+      return ['machine_conflict', 'held', 'peak_threshold', 'daily_limit'].includes(error.reason);
+    }
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+  }
+
+  // What-if for a recurring booking: availability of every date the rule produces
+  async previewSeries(input: { data: OccurrenceWindow; machineIds: number[]; recurrence: RecurrenceRule }) {
+    const dates = this.occurrenceDates(input);
+    const forecast = await AvailabilityService.forecastBaseline(dates.map(parseDateOnly));
+    return this.evaluateOccurrences(prisma, input.data, input.machineIds, dates, forecast);
+  }
+
+  // Recurring booking: one appointment per date of the rule, linked to an AppointmentSeries.
+  // Every date is checked like a single booking; when some of them aren't available the whole
+  // series is rejected with the report (409 series_conflict), unless skipConflicts books the rest.
+  async createSeries(input: {
+    data: AppointmentCreateData;
+    machineIds: number[];
+    recurrence: RecurrenceRule;
+    skipConflicts?: boolean;
+    holdId?: number; // hold of the first occurrence
+  }) {
+    const { data, machineIds, recurrence, skipConflicts = false, holdId } = input;
+    const dates = this.occurrenceDates(input);
+    const forecast = await AvailabilityService.forecastBaseline(dates.map(parseDateOnly));
+
+    return prisma.$transaction(
+      async (tx) => {
+        if (holdId !== undefined) await this.claimHold(tx, holdId, data.user_id);
+        const occurrences = await this.evaluateOccurrences(tx, data, machineIds, dates, forecast);
+        const bookable = occurrences.filter((o) => o.available);
+        if (bookable.length === 0 || (!skipConflicts && bookable.length < occurrences.length)) {
+          throw new AppointmentConflictError(
+            'series_conflict',
+            `${occurrences.length - bookable.length} de ${occurrences.length} fechas no están disponibles`,
+            { occurrences },
+          );
+        }
+
+        const series = await tx.appointmentSeries.create({
+          data: {
+            laboratory_id: data.laboratory_id,
+            user_id: data.user_id,
+            frequency: recurrence.frequency,
+            days_of_week: recurrenceDays(recurrence, dates[0]),
+            until: recurrence.until ? parseDateOnly(recurrence.until) : null,
+            count: recurrence.count ?? null,
+          },
+        });
+
+        for (const occurrence of bookable) {
+          const appointment = await this.insertAppointment(
+            tx,
+            { ...data, appointment_date: parseDateOnly(occurrence.date), series_id: series.id },
+            machineIds,
+            occurrence,
+          );
+          occurrence.appointment_id = appointment.id;
+        }
+        return {
+          series: await tx.appointmentSeries.findUniqueOrThrow({ where: { id: series.id }, include: SERIES_INCLUDE }),
+          occurrences,
+        };
       },
-      include: { laboratory: true, machines: true },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+    );
+  }
+
+  // Series with all its occurrences, for the booker or a manager of the laboratory
+  async getSeries(id: number, actor: Actor) {
+    const series = await prisma.appointmentSeries.findUnique({ where: { id }, include: SERIES_INCLUDE });
+    if (series) assertCanAccessAppointment(actor, series);
+    return series;
+  }
+
+  // Edit every upcoming occurrence of a series (time, purpose, machines). Managers edit all of them;
+  // the booker moves the time or changes the purpose of those outside the notice window, like
+  // rescheduleAsBooker (the rest are returned as skipped), and can't change the machines.
+  // All edited occurrences are re-validated and nothing changes if any of them conflicts.
+  async updateSeries(id: number, input: AppointmentUpdateInput, actor: Actor) {
+    const series = await prisma.appointmentSeries.findUniqueOrThrow({ where: { id } });
+    const asManager = managesLaboratory(actor, series.laboratory_id);
+    if (!asManager) {
+      if (series.user_id !== actor.id) throw new ForbiddenError('No tienes acceso a esta serie');
+      if (input.setMachineIds || input.addMachineIds || input.removeMachineIds) {
+        throw new ForbiddenError('Solo un responsable del laboratorio puede cambiar las máquinas de la serie');
+      }
+    }
+    if (input.data.appointment_date !== undefined || input.data.laboratory_id !== undefined) {
+      throw new Error('Invalid series update: move single occurrences instead');
+    }
+    // occurrences keep their dates, so their forecast can be fitted before the transaction
+    const forecast = this.changesSlot(input)
+      ? await AvailabilityService.forecastBaseline(
+          (await this.upcomingOccurrences(prisma, id)).map((a) => a.appointment_date),
+        )
+      : undefined;
+
+    return prisma.$transaction(
+      async (tx) => {
+        const upcoming = await this.upcomingOccurrences(tx, id);
+        const editable = upcoming.filter((a) => asManager || this.outsideNoticeWindow(a));
+        const occurrences: OccurrenceReport[] = [];
+        for (const appointment of editable) {
+          const date = formatDate(appointment.appointment_date);
+          try {
+            const updated = await this.updateIn(tx, appointment.id, input, forecast);
+            occurrences.push({
+              date,
+              start_time: formatTime(updated.start_time),
+              end_time: formatTime(updated.end_time),
+              available: true,
+              requires_approval: updated.requires_approval,
+              approval_reason: updated.approval_reason ?? undefined,
+              appointment_id: updated.id,
+            });
+          } catch (error) {
+            if (!(error instanceof AppointmentConflictError)) throw error;
+            occurrences.push({
+              date,
+              start_time: formatTime(appointment.start_time),
+              end_time: formatTime(appointment.end_time),
+              available: false,
+              reason: error.message,
+              reason_code: error.reason,
+              requires_approval: appointment.requires_approval,
+              appointment_id: appointment.id,
+            });
+          }
+        }
+
+        const conflicts = occurrences.filter((o) => !o.available).length;
+        if (conflicts > 0) {
+          // rolls back the occurrences already updated
+          throw new AppointmentConflictError(
+            'series_conflict',
+            `${conflicts} de ${occurrences.length} fechas no están disponibles`,
+            { occurrences },
+          );
+        }
+        return { series, occurrences, skipped_ids: upcoming.filter((a) => !editable.includes(a)).map((a) => a.id) };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+    );
+  }
+
+  // Cancel every upcoming occurrence of a series. Managers cancel all of them; the booker only
+  // those outside the notice window (the rest are returned as skipped).
+  async cancelSeries(id: number, actor: Actor) {
+    const series = await prisma.appointmentSeries.findUniqueOrThrow({ where: { id } });
+    const asManager = managesLaboratory(actor, series.laboratory_id);
+    if (!asManager && series.user_id !== actor.id) {
+      throw new ForbiddenError('No tienes acceso a esta serie');
+    }
+
+    const upcoming = await this.upcomingOccurrences(prisma, id);
+    const cancellable = upcoming.filter((a) => asManager || this.outsideNoticeWindow(a));
+
+    await prisma.appointment.updateMany({
+      where: { id: { in: cancellable.map((a) => a.id) }, status: { in: EDITABLE_STATUSES } },
+      data: transitionData(AppointmentStatus.CANCELLED),
     });
+    return {
+      series,
+      cancelled_ids: cancellable.map((a) => a.id),
+      skipped_ids: upcoming.filter((a) => !cancellable.includes(a)).map((a) => a.id),
+    };
   }
 
-  // Update scalars and optionally replace machine connections
-  async update(
+  // Update scalars and optionally replace machine connections; consumption is recomputed afterwards.
+  // When the schedule or the machines change, the new slot is re-validated like a new booking
+  // (ignoring the appointment itself) and the whole update rolls back on AppointmentConflictError.
+  // Managers of the laboratory only (both the current one and, when moving it, the new one).
+  async update(id: number, input: AppointmentUpdateInput, actor: Actor) {
+    const current = await prisma.appointment.findUniqueOrThrow({ where: { id }, select: { laboratory_id: true } });
+    assertManagesLaboratory(actor, current.laboratory_id);
+    if (typeof input.data.laboratory_id === 'number') {
+      assertManagesLaboratory(actor, input.data.laboratory_id);
+    }
+    return this.applyUpdate(id, input);
+  }
+
+  private async applyUpdate(id: number, input: AppointmentUpdateInput) {
+    const forecast = await this.updateForecast(id, input);
+    return prisma.$transaction((tx) => this.updateIn(tx, id, input, forecast), {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+    });
+  }
+
+  /** Forecast baseline of the date an update books, fitted before its transaction; none when the slot stays */
+  private async updateForecast(id: number, input: AppointmentUpdateInput): Promise<BaselineForecast | undefined> {
+    if (!this.changesSlot(input)) return undefined;
+    const { appointment_date } = input.data;
+    const date =
+      appointment_date instanceof Date
+        ? appointment_date
+        : (await prisma.appointment.findUniqueOrThrow({ where: { id }, select: { appointment_date: true } }))
+            .appointment_date;
+    return AvailabilityService.forecastBaseline([date]);
+  }
+
+  /** Whether an update moves the booking or changes its machines, so the slot must be re-validated */
+  private changesSlot(input: AppointmentUpdateInput): boolean {
+    const { data, setMachineIds, addMachineIds, removeMachineIds } = input;
+    return (
+      Boolean(setMachineIds || addMachineIds?.length || removeMachineIds?.length) ||
+      ['appointment_date', 'start_time', 'end_time', 'laboratory_id'].some((k) => data[k] !== undefined)
+    );
+  }
+
+  private async updateIn(
+    tx: Prisma.TransactionClient,
     id: number,
-    input: {
-      data: Partial<Omit<Prisma.AppointmentUncheckedUpdateInput, 'id' | 'created_at'>>;
-      setMachineIds?: number[]; // if provided, we replace the join rows
-      addMachineIds?: number[]; // optionally, add more
-      removeMachineIds?: number[]; // optionally, remove some
-    },
+    input: AppointmentUpdateInput,
+    forecast?: BaselineForecast,
   ) {
     const { data, setMachineIds, addMachineIds, removeMachineIds } = input;
 
@@ -81,17 +476,341 @@ export class AppointmentService {
     if (addMachineIds?.length) machineOps.connect = addMachineIds.map((id) => ({ id }));
     if (removeMachineIds?.length) machineOps.disconnect = removeMachineIds.map((id) => ({ id }));
 
-    return prisma.appointment.update({
+    const reschedules = this.changesSlot(input);
+
+    const current = await tx.appointment.findUniqueOrThrow({ where: { id }, select: { status: true } });
+    if (reschedules && !EDITABLE_STATUSES.includes(current.status)) {
+      throw new AppointmentConflictError(
+        'not_active',
+        `No se puede modificar una cita en estado "${STATUS_LABELS[current.status]}"`,
+      );
+    }
+
+    const updated = await tx.appointment.update({
       where: { id },
       data: {
         ...data,
         ...(Object.keys(machineOps).length ? { machines: machineOps } : {}),
       },
+      include: { machines: true },
+    });
+
+    if (updated.end_time <= updated.start_time) {
+      throw new Error('Invalid time range: end_time must be after start_time');
+    }
+    if (['appointment_date', 'start_time'].some((k) => data[k] !== undefined)) {
+      this.assertNotStarted(updated);
+    }
+    let approval: Prisma.AppointmentUpdateInput = {};
+    let issue: Prisma.AppointmentUpdateInput = {};
+    if (reschedules) {
+      const { slot } = await this.assertBookable(tx, {
+        date: updated.appointment_date,
+        laboratoryId: updated.laboratory_id,
+        machineIds: updated.machines.map((m) => m.id),
+        start_time: formatTime(updated.start_time),
+        end_time: formatTime(updated.end_time),
+        excludeAppointmentId: id,
+        forecast,
+      });
+      // moving a confirmed booking into a slot that needs approval sends it back to review
+      if (slot.requires_approval && updated.status === AppointmentStatus.CONFIRMED) {
+        approval = {
+          status: AppointmentStatus.PENDING,
+          confirmed_at: null,
+          requires_approval: true,
+          approval_reason: slot.approval_reason,
+        };
+      }
+      // the new slot passed the machine checks, so an earlier machine issue no longer applies
+      issue = { machine_issue: null, machine_issue_at: null };
+    }
+
+    return tx.appointment.update({
+      where: { id },
+      data: {
+        ...this.consumptionFor(updated.machines, updated.start_time, updated.end_time),
+        ...approval,
+        ...issue,
+      },
+      include: { laboratory: true, machines: true },
+    });
+  }
+
+  // Move to another status if the lifecycle allows it, stamping the matching *_at column.
+  // Managers of the laboratory only.
+  async transition(id: number, to: AppointmentStatus, actor: Actor) {
+    const current = await prisma.appointment.findUniqueOrThrow({ where: { id }, select: { laboratory_id: true } });
+    assertManagesLaboratory(actor, current.laboratory_id);
+    return this.applyTransition(id, to);
+  }
+
+  private async applyTransition(id: number, to: AppointmentStatus, extra: { review_note?: string } = {}) {
+    return prisma.$transaction(async (tx) => {
+      const current = await tx.appointment.findUniqueOrThrow({ where: { id }, select: { status: true } });
+      if (!canTransition(current.status, to)) {
+        throw new AppointmentConflictError(
+          'invalid_transition',
+          `No se puede pasar de "${STATUS_LABELS[current.status]}" a "${STATUS_LABELS[to]}"`,
+        );
+      }
+
+      return tx.appointment.update({
+        // guard against a concurrent transition between the read and the write
+        where: { id, status: current.status },
+        data: { ...transitionData(to), ...extra },
+        include: { laboratory: true, machines: true },
+      });
+    });
+  }
+
+  // Approval queue: bookings waiting for a manager of one of the actor's laboratories
+  async getPendingApproval(actor: Actor) {
+    const laboratoryIds = managedLaboratoryIds(actor);
+    return prisma.appointment.findMany({
+      where: {
+        status: AppointmentStatus.PENDING,
+        requires_approval: true,
+        ...(laboratoryIds && { laboratory_id: { in: laboratoryIds } }),
+      },
       include: { laboratory: true, machines: true },
+      orderBy: [{ appointment_date: 'asc' }, { start_time: 'asc' }],
     });
   }
 
-  async delete(id: number) {
+  // Approve (→ CONFIRMED) or reject (→ REJECTED, machines released) a booking of the queue
+  async review(id: number, decision: 'approve' | 'reject', note: string | undefined, actor: Actor) {
+    const appointment = await prisma.appointment.findUniqueOrThrow({ where: { id } });
+    assertManagesLaboratory(actor, appointment.laboratory_id);
+    if (!appointment.requires_approval) {
+      throw new AppointmentConflictError('invalid_transition', 'La cita no requiere aprobación');
+    }
+    const to = decision === 'approve' ? AppointmentStatus.CONFIRMED : AppointmentStatus.REJECTED;
+    return this.applyTransition(id, to, { review_note: note });
+  }
+
+  // Soft cancel: the row is kept and AvailabilityService stops counting it. Managers cancel at
+  // any time; the booker goes through the same notice window as the signed link.
+  async cancel(id: number, actor: Actor) {
+    const appointment = await prisma.appointment.findUniqueOrThrow({ where: { id } });
+    if (managesLaboratory(actor, appointment.laboratory_id)) {
+      return this.applyTransition(id, AppointmentStatus.CANCELLED);
+    }
+    if (appointment.user_id !== actor.id) {
+      throw new ForbiddenError('No tienes acceso a esta cita');
+    }
+    return this.cancelAsBooker(id);
+  }
+
+  // Self-service cancellation (signed link): enforces the notice window
+  async cancelAsBooker(id: number) {
+    const appointment = await prisma.appointment.findUniqueOrThrow({ where: { id } });
+    this.assertSelfServiceAllowed(appointment);
+    return this.applyTransition(id, AppointmentStatus.CANCELLED);
+  }
+
+  // Self-service reschedule (signed link): only date and time change, machines stay the same
+  async rescheduleAsBooker(id: number, schedule: { appointment_date: Date; start_time: Date; end_time: Date }) {
+    const appointment = await prisma.appointment.findUniqueOrThrow({ where: { id } });
+    this.assertSelfServiceAllowed(appointment);
+
+    this.assertNotStarted(schedule);
+    return this.applyUpdate(id, { data: schedule });
+  }
+
+  async delete(id: number, actor: Actor) {
+    const appointment = await prisma.appointment.findUniqueOrThrow({ where: { id } });
+    assertManagesLaboratory(actor, appointment.laboratory_id);
     return prisma.appointment.delete({ where: { id } });
   }
+
+  /** Insert a booking already validated by assertBookable / evaluateOccurrences */
+  private async insertAppointment(
+    tx: Prisma.TransactionClient,
+    data: AppointmentCreateData & { series_id?: number },
+    machineIds: number[] | undefined,
+    slot: Pick<TimeSlot, 'requires_approval' | 'approval_reason'>,
+  ) {
+    const machines = machineIds?.length
+      ? await tx.machine.findMany({
+          where: { id: { in: machineIds } },
+          select: { power_consumption: true, power_profile: true },
+        })
+      : [];
+
+    return tx.appointment.create({
+      data: {
+        ...data,
+        ...(slot.requires_approval
+          ? { status: AppointmentStatus.PENDING, requires_approval: true, approval_reason: slot.approval_reason }
+          : transitionData(AppointmentStatus.CONFIRMED)),
+        ...this.consumptionFor(machines, data.start_time, data.end_time),
+        // If you prefer relation-safe input, switch to AppointmentCreateInput and use:
+        // laboratory: { connect: { id: data.laboratory_id } },
+        ...(machineIds?.length
+          ? {
+              machines: {
+                connect: machineIds.map((id) => ({ id })),
+              },
+            }
+          : {}),
+      },
+      include: { laboratory: true, machines: true },
+    });
+  }
+
+  /** Release the booker's own slot hold so the booking can take its place; expired or foreign holds fail */
+  private async claimHold(tx: Prisma.TransactionClient, holdId: number, userId: number | null | undefined) {
+    const hold = await tx.slotHold.findUnique({ where: { id: holdId } });
+    if (!hold || hold.user_id !== userId || hold.expires_at <= new Date()) {
+      throw new AppointmentConflictError('hold_expired', 'La reserva temporal del horario expiró');
+    }
+    await tx.slotHold.delete({ where: { id: holdId } });
+  }
+
+  /** Dates of a recurring booking, starting at its appointment_date */
+  private occurrenceDates(input: { data: OccurrenceWindow; recurrence: RecurrenceRule }): string[] {
+    const firstDate = formatDate(input.data.appointment_date);
+    const dates = expandRecurrence(input.recurrence, firstDate);
+    if (dates.length === 0) {
+      throw new Error('Invalid recurrence: the rule produces no dates');
+    }
+    return dates;
+  }
+
+  /** Availability of the same window on each date; machines outside the laboratory are rejected outright */
+  private async evaluateOccurrences(
+    db: Prisma.TransactionClient,
+    data: OccurrenceWindow,
+    machineIds: number[],
+    dates: string[],
+    forecast: BaselineForecast,
+  ): Promise<OccurrenceReport[]> {
+    const start_time = formatTime(data.start_time);
+    const end_time = formatTime(data.end_time);
+    const occurrences: OccurrenceReport[] = [];
+
+    for (const date of dates) {
+      if (this.startsAt({ appointment_date: parseDateOnly(date), start_time: data.start_time }).getTime() <= Date.now()) {
+        occurrences.push({
+          date,
+          start_time,
+          end_time,
+          available: false,
+          reason: 'El horario ya pasó',
+          reason_code: 'past',
+          requires_approval: false,
+        });
+        continue;
+      }
+      const evaluation = await AvailabilityService.evaluateSlot(
+        { date: parseDateOnly(date), laboratoryId: data.laboratory_id, machineIds, start_time, end_time, forecast },
+        db,
+      );
+      if (evaluation.missing_machine_ids.length > 0) {
+        throw new AppointmentConflictError(
+          'invalid_machines',
+          `Las máquinas [${evaluation.missing_machine_ids.join(', ')}] no pertenecen al laboratorio`,
+          { missing_machine_ids: evaluation.missing_machine_ids },
+        );
+      }
+      const { slot } = evaluation;
+      occurrences.push({
+        date,
+        start_time,
+        end_time,
+        available: slot.available,
+        reason: slot.reason,
+        reason_code: slot.reason_code,
+        requires_approval: slot.requires_approval,
+        approval_reason: slot.approval_reason,
+      });
+    }
+    return occurrences;
+  }
+
+  /** Occurrences of a series that haven't started yet and can still change */
+  private async upcomingOccurrences(db: Prisma.TransactionClient, seriesId: number) {
+    const appointments = await db.appointment.findMany({
+      where: { series_id: seriesId, status: { in: EDITABLE_STATUSES } },
+      orderBy: [{ appointment_date: 'asc' }, { start_time: 'asc' }],
+    });
+    return appointments.filter((a) => this.startsAt(a).getTime() > Date.now());
+  }
+
+  /** Re-run the availability computation for the exact window and reject conflicts / limit overruns */
+  private async assertBookable(
+    tx: Prisma.TransactionClient,
+    options: Parameters<typeof AvailabilityService.evaluateSlot>[0],
+  ): Promise<SlotEvaluation> {
+    const evaluation = await AvailabilityService.evaluateSlot(options, tx);
+
+    if (evaluation.missing_machine_ids.length > 0) {
+      throw new AppointmentConflictError(
+        'invalid_machines',
+        `Las máquinas [${evaluation.missing_machine_ids.join(', ')}] no pertenecen al laboratorio`,
+        { missing_machine_ids: evaluation.missing_machine_ids },
+      );
+    }
+
+    const { slot } = evaluation;
+    if (!slot.available && slot.reason_code) {
+      throw new AppointmentConflictError(slot.reason_code, slot.reason ?? 'Horario no disponible', {
+        slot_load: evaluation.slot_load,
+        day_total_consumption: evaluation.day_total_consumption,
+        limits: evaluation.limits,
+      });
+    }
+    return evaluation;
+  }
+
+  /** Energy (kWh) and peak power (kW) of running all machines between start and end, following their power profiles */
+  private consumptionFor(
+    machines: { power_consumption: Prisma.Decimal; power_profile: Prisma.JsonValue }[],
+    start_time: Date,
+    end_time: Date,
+  ): { power_consumption: Prisma.Decimal; peak_power: Prisma.Decimal } {
+    const minutes = Math.max(0, end_time.getTime() - start_time.getTime()) / 60_000;
+    const run = combinedSegments(
+      machines.map((m) => ({ power_consumption: Number(m.power_consumption), power_profile: readPowerProfile(m.power_profile) })),
+      minutes,
+    );
+    return {
+      power_consumption: new Prisma.Decimal(energyKwh(run).toFixed(2)),
+      peak_power: new Prisma.Decimal(peakKw(run).toFixed(2)),
+    };
+  }
+
+  private assertSelfServiceAllowed(appointment: { status: AppointmentStatus; appointment_date: Date; start_time: Date }) {
+    if (!EDITABLE_STATUSES.includes(appointment.status)) {
+      throw new AppointmentConflictError(
+        'not_active',
+        `No se puede modificar una cita en estado "${STATUS_LABELS[appointment.status]}"`,
+      );
+    }
+    const hoursLeft = (this.startsAt(appointment).getTime() - Date.now()) / 3_600_000;
+    if (hoursLeft < AppointmentService.MIN_NOTICE_HOURS) {
+      throw new AppointmentConflictError(
+        'cancellation_window',
+        `Las cancelaciones y cambios deben hacerse con al menos ${AppointmentService.MIN_NOTICE_HOURS} horas de anticipación`,
+      );
+    }
+  }
+
+  /** Start instant of an appointment (calendar day + wall-clock start time in APP_TIME_ZONE) */
+  private startsAt(appointment: { appointment_date: Date; start_time: Date }): Date {
+    return zonedDateTime(appointment.appointment_date, appointment.start_time);
+  }
+
+  /** Whether the booker can still change or cancel it on their own (see MIN_NOTICE_HOURS) */
+  private outsideNoticeWindow(appointment: { appointment_date: Date; start_time: Date }): boolean {
+    return this.startsAt(appointment).getTime() >= Date.now() + AppointmentService.MIN_NOTICE_HOURS * 3_600_000;
+  }
+
+  /** Bookings can't be made or moved into a window that already started; routes answer 400 */
+  private assertNotStarted(schedule: { appointment_date: Date; start_time: Date }) {
+    if (this.startsAt(schedule).getTime() <= Date.now()) {
+      throw new Error('Invalid schedule: the start time is in the past');
+    }
+  }
 }
@@ -1,16 +1,83 @@
 // src/lib/availability-service.ts
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { RESERVING_STATUSES } from '@/lib/appointment-status';
+import { EnergyLimits, EnergySettingsService } from '@/app/services/EnergySettingsService';
+import { DayHours, OpeningHourService } from '@/app/services/OpeningHourService';
+import { toTariffBandLight } from '@/app/services/TariffService';
+import {
+  combinedSegments,
+  energyKwh,
+  maxKw,
+  peakKw,
+  readPowerProfile,
+  type PowerProfile,
+  type PowerSegment,
+  type ProfiledMachine,
+} from '@/lib/power-profile';
+import { bandAt, type TariffBandLight } from '@/lib/tariff';
+import { ExponentialSmoothingForecaster, type BaselineForecaster, type DailyLoad } from '@/lib/forecast';
+import { addDays, formatDate, formatTime, parseDateOnly, weekday, zonedDateTime } from '@/lib/time';
+
+// Either the prisma singleton or the client of an interactive transaction
+type Db = Prisma.TransactionClient;
 
 // If you already have these in a shared types file, import them instead.
 // I'm declaring minimal shapes here to keep it self-contained.
 export interface TimeSlot {
+  date: string;       // "YYYY-MM-DD"
   start_time: string; // "HH:MM"
   end_time: string;   // "HH:MM"
   available: boolean;
-  power_consumption: number; // kW
+  power_consumption: number; // kW: average campus load over the slot (baseline + bookings), used for ranking
+  peak_power_consumption: number; // kW: highest TIMELINE_MINUTES campus load during the slot
   power_spike_percentage: number;
   machine_ids: string[]; // keep as string[] to match previous UI/types
   reason?: string;
+  reason_code?: SlotUnavailableReason;
+  requires_approval: boolean; // booking it creates a PENDING appointment for a lab manager to review
+  approval_reason?: string;
+  cost: SlotCost | null; // estimate with the time-of-use tariff, null while no tariff bands are set up
+}
+
+// $ of booking the slot with the time-of-use tariff (see lib/tariff)
+export interface SlotCost {
+  energy: number; // kWh drawn by the requested machines, priced by band
+  demand: number; // kW they add to the day's peak of each band, priced by the band's demand charge
+  total: number;
+}
+
+// What slots (and efficiency groups) are ranked by: campus load or booking cost
+export type SlotRanking = 'load' | 'cost';
+
+export type SlotUnavailableReason =
+  | 'closed'
+  | 'closure'
+  | 'out_of_service' // a requested machine is out of service
+  | 'maintenance'    // a requested machine has maintenance scheduled during the slot
+  | 'machine_conflict'
+  | 'held'
+  | 'peak_threshold'
+  | 'daily_limit';
+
+// Why a day of the range offers no bookable slot
+export type DayUnavailableReason =
+  | 'closed'
+  | 'closure'
+  | 'out_of_service'
+  | 'maintenance'
+  | 'too_short'
+  | 'no_available_slots';
+
+export interface DayAvailability {
+  date: string;               // "YYYY-MM-DD"
+  open_time: string | null;   // "HH:MM", null when the laboratory is closed that day
+  close_time: string | null;
+  slots: number;
+  available_slots: number;
+  reason?: string;
+  reason_code?: DayUnavailableReason; // set when available_slots is 0
+  baseline: 'forecast' | 'weekly'; // campus load from the date's forecast or the weekly PreferredHour rows
 }
 
 export interface EfficiencyGroup {
@@ -20,59 +87,172 @@ export interface EfficiencyGroup {
   time_range: string; // "HH:MM - HH:MM"
   slots: TimeSlot[];
   average_power_consumption: number;
+  average_cost: number | null; // $, null without tariff bands
+  best_slot: TimeSlot; // lowest-load (or cheapest, see SlotRanking) slot of the group (earliest day/hour on ties)
 }
 
 export interface AvailabilityOptions {
-  date: Date;
+  date?: Date;            // single day (shorthand for from = to = date)
+  from?: Date;            // first day of the range (inclusive)
+  to?: Date;              // last day of the range (inclusive)
   laboratoryId: number;
   machineId?: number;     // single machine (optional)
   machineIds?: number[];  // multiple machines
   duration?: number;      // in hours, default 2
   maxPowerConsumption?: number;
+  excludeAppointmentId?: number; // ignore this appointment (e.g. when rescheduling it)
+  excludeHoldId?: number;        // ignore this slot hold (e.g. when its owner books it)
+  holdOwnerId?: number;          // ignore every hold of this user (they don't block their own wizard)
+  rankBy?: SlotRanking;          // default 'load'; 'cost' falls back to load without tariff bands
+}
+
+// Acceptable days / hours for automatic scheduling
+export interface SlotWindow {
+  earliestStart?: string; // "HH:MM", slots may not start before
+  latestEnd?: string;     // "HH:MM", slots must end by
+  daysOfWeek?: number[];  // 0=Sun .. 6=Sat
+}
+
+export interface SlotCheckOptions {
+  date: Date;
+  laboratoryId: number;
+  machineIds: number[];
+  start_time: string; // "HH:MM"
+  end_time: string;   // "HH:MM"
+  excludeAppointmentId?: number;
+  excludeHoldId?: number;
+  holdOwnerId?: number;
+  forecast?: BaselineForecast; // from forecastBaseline, computed before the booking transaction
+}
+
+export interface SlotEvaluation {
+  slot: TimeSlot;
+  machine_power: number;         // kW: highest draw of the requested machines over the window (power profiles)
+  slot_load: number;             // kW: peak of campus baseline + concurrent appointments + requested machines
+  day_total_consumption: number; // kWh: booked appointments of the day in every laboratory + this booking
+  missing_machine_ids: number[]; // requested machines that don't belong to the lab
+  limits: {
+    peak_consumption_threshold: number;
+    max_daily_consumption: number;
+  };
+}
+
+// Projected load of one SLOT_INCREMENT_MINUTES bucket of the working day
+export interface LoadPoint {
+  date: string;       // "YYYY-MM-DD"
+  start_time: string; // "HH:MM"
+  end_time: string;   // "HH:MM"
+  baseline: number;   // kW from the PreferredHour baseline
+  booked: number;     // kW drawn on average by the reservations running in the bucket
+  total: number;      // kW: baseline + booked
+  peak: number;       // kW: highest TIMELINE_MINUTES total inside the bucket
+}
+
+export interface LoadProfile {
+  points: LoadPoint[];
+  machine_power: number; // kW the requested machines would add on top at most (candidate slot)
+  limits: {
+    peak_consumption_threshold: number;
+  };
 }
 
 export interface AvailabilityResult {
   timeSlots: TimeSlot[];
   efficiencyGroups: EfficiencyGroup[];
+  bestSlot: TimeSlot | null; // lowest-load available slot across the whole range
+  days: DayAvailability[];    // one entry per day of the range, in order
 }
 
 type ExistingAppointmentLight = {
+  date: string; // "YYYY-MM-DD"
   start_time: string; // "HH:MM"
   end_time: string;   // "HH:MM"
-  power_consumption: number; // kW
+  power_consumption: number; // kWh stored on the booking
   status: string;
+  machines?: ProfiledMachine[]; // only loaded for the load timeline
 };
 
 type PreferredHourLight = {
+  date?: string;       // "YYYY-MM-DD" for forecast hours (see lib/forecast), unset for the weekly rows
   day_of_week: number;
   start_time: string; // "HH:MM"
   end_time: string;   // "HH:MM"
   power_consumption: number; // kW
 };
 
+// Forecast baseline hours of some dates (see AvailabilityService.forecastBaseline)
+export type BaselineForecast = PreferredHourLight[];
+
+// Part of a closure or maintenance window falling on one day
+type PeriodLight = {
+  date: string;       // "YYYY-MM-DD"
+  start_time: string; // "HH:MM"
+  end_time: string;   // "HH:MM", "24:00" when it lasts until the end of the day
+};
+
+type ClosureLight = PeriodLight & { title: string };
+
+type MaintenanceLight = PeriodLight & { machine: string; reason: string };
+
 type MachineLight = {
   id: string; // keep string to match your previous UI
-  power_consumption: number; // kW
+  name: string;
+  power_consumption: number; // kW, nominal
+  power_profile: PowerProfile | null;
+  out_of_service: boolean;
+  out_of_service_reason: string | null;
+};
+
+// Everything needed to evaluate slots (for a single day once narrowed by `dayData`)
+type AvailabilityData = {
+  conflictingAppointments: ExistingAppointmentLight[];
+  preferredHours: PreferredHourLight[];
+  machines: MachineLight[];
+  allAppointmentsForLoad: ExistingAppointmentLight[];
+  openingHours: DayHours[]; // laboratory schedule (see OpeningHourService)
+  closures: ClosureLight[];  // global, laboratory and requested machines' closures
+  maintenance: MaintenanceLight[]; // maintenance windows of the requested machines
+  limits: EnergyLimits;
+  tariff: TariffBandLight[]; // time-of-use bands, empty when no tariff is set up
+};
+
+// Campus load of one day in TIMELINE_MINUTES buckets (index = minute of the day / TIMELINE_MINUTES), in kW
+type LoadTimeline = {
+  baseline: number[]; // PreferredHour baseline
+  booked: number[];   // reservations, following their machines' power profiles
 };
 
+type DayData = AvailabilityData & { timeline: LoadTimeline };
+
 export class AvailabilityService {
-  private static readonly WORKING_HOURS_START = 8; // starts at 8 am
-  private static readonly WORKING_HOURS_END = 18; // ends at 6 pm
   private static readonly DEFAULT_SLOT_DURATION = 2; // hours
-  private static readonly MAX_DAILY_CONSUMPTION = 50; // kW total per day (not enforced; used for recs/future)
-  private static readonly PEAK_CONSUMPTION_THRESHOLD = 100; // kW per slot
+  // Consumption limits are global settings edited by energy admins (see EnergySettingsService)
   private static readonly SLOT_INCREMENT_MINUTES = 30; // Generate slots every 30 minutes
+  // Resolution of the load timeline: fine enough that back-to-back bookings don't average into one
+  private static readonly TIMELINE_MINUTES = 5;
+  // Meter history loaded for the forecast: a year back plus the weeks the forecaster smooths over
+  private static readonly FORECAST_HISTORY_DAYS = 364 + 14 * 7;
+
+  // Model of the campus baseline for a specific date; replace it to plug in another forecaster
+  static forecaster: BaselineForecaster = new ExponentialSmoothingForecaster();
 
   /**
-   * Check availability for a specific date and laboratory/machine combination
+   * Check availability for a date (or a range of dates) and laboratory/machine combination.
+   * Slots of every day in the range are ranked together, so the best day and hour come first.
    */
-  static async checkAvailability(options: AvailabilityOptions): Promise<AvailabilityResult> {
+  static async checkAvailability(options: AvailabilityOptions, db: Db = prisma): Promise<AvailabilityResult> {
     const {
       date,
+      from = date,
+      to = from,
       laboratoryId,
       machineId,
       machineIds,
       duration = this.DEFAULT_SLOT_DURATION,
+      excludeAppointmentId,
+      excludeHoldId,
+      holdOwnerId,
+      rankBy = 'load',
     } = options;
 
     // Normalize target machine IDs (numbers -> strings for UI payload)
@@ -82,32 +262,200 @@ export class AvailabilityService {
         : typeof machineId === 'number'
           ? [machineId]
           : [];
-    if (targetMachineIdsNum.length === 0) {
+    if (targetMachineIdsNum.length === 0 || !from) {
       // caller should validate, but keep a defensive guard
       return {
         timeSlots: [],
         efficiencyGroups: [],
+        bestSlot: null,
+        days: [],
       };
     }
     const targetMachineIdsStr = targetMachineIdsNum.map(String);
-    console.log(`Checking availability for lab ${laboratoryId} on ${date.toDateString()} for machines [${targetMachineIdsStr.join(', ')}] for duration ${duration}h`);
-    // --- Fetch data from DB (Prisma) ---
 
-    // Day range [startOfDay, nextDay)
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const nextDay = new Date(startOfDay);
-    nextDay.setDate(startOfDay.getDate() + 1);
+    // Days in range [firstDay, lastDay]
+    const days = this.daysInRange(from, to);
+
+    const data = await this.loadAvailabilityData(days, laboratoryId, targetMachineIdsNum, db, {
+      appointmentId: excludeAppointmentId,
+      holdId: excludeHoldId,
+      holdOwnerId,
+    });
+
+    // --- Generate time slots / analytics ---
+
+    const slotsByDay = days.map((day) =>
+      this.generateTimeSlots(day, targetMachineIdsStr, duration, this.dayData(data, day))
+    );
+    const timeSlots = this.rankSlots(slotsByDay.flat(), rankBy);
+
+    const efficiencyGroups = this.groupSlotsByEfficiency(timeSlots, rankBy);
+    return {
+      timeSlots,
+      //totalDayConsumption,
+      //peakHours,
+      efficiencyGroups,
+      bestSlot: timeSlots.find((slot) => slot.available) ?? null,
+      days: days.map((day, i) => this.describeDay(day, slotsByDay[i], this.dayData(data, day))),
+    };
+  }
+
+  /**
+   * Available slots of the range that fit the window, lowest load first (same ranking as
+   * checkAvailability); slots that already started are left out. Used for auto-scheduling.
+   */
+  static async candidateSlots(
+    options: AvailabilityOptions & SlotWindow,
+    db: Db = prisma,
+  ): Promise<TimeSlot[]> {
+    const { earliestStart, latestEnd, daysOfWeek } = options;
+    const { timeSlots } = await this.checkAvailability(options, db);
+    const now = Date.now();
+
+    return timeSlots.filter(
+      (slot) =>
+        slot.available &&
+        (!earliestStart || slot.start_time >= earliestStart) &&
+        (!latestEnd || slot.end_time <= latestEnd) &&
+        (!daysOfWeek?.length || daysOfWeek.includes(weekday(parseDateOnly(slot.date)))) &&
+        zonedDateTime(parseDateOnly(slot.date), slot.start_time).getTime() > now
+    );
+  }
+
+  /**
+   * Evaluate one exact window (not necessarily on the slot grid) against conflicts and limits.
+   * Used when booking, so pass the transaction client to read a consistent snapshot.
+   */
+  static async evaluateSlot(options: SlotCheckOptions, db: Db = prisma): Promise<SlotEvaluation> {
+    const {
+      date,
+      laboratoryId,
+      machineIds,
+      start_time,
+      end_time,
+      excludeAppointmentId,
+      excludeHoldId,
+      holdOwnerId,
+      forecast,
+    } = options;
+    const [day] = this.daysInRange(date, date);
+
+    const data = await this.loadAvailabilityData(
+      [day],
+      laboratoryId,
+      machineIds,
+      db,
+      { appointmentId: excludeAppointmentId, holdId: excludeHoldId, holdOwnerId },
+      forecast,
+    );
+    const dayData = this.dayData(data, day);
+    const slot = this.buildSlot(day, start_time, end_time, machineIds.map(String), dayData);
+
+    const run = this.machineRun(dayData.machines, this.timeToMinutes(end_time) - this.timeToMinutes(start_time));
+    const load = this.slotLoad(dayData, start_time, end_time);
+    const foundIds = new Set(dayData.machines.map((m) => Number(m.id)));
+
+    return {
+      slot,
+      machine_power: run.peak,
+      slot_load: load.peakWithMachines,
+      day_total_consumption: this.dayTotalConsumption(dayData) + run.energy,
+      missing_machine_ids: machineIds.filter((id) => !foundIds.has(id)),
+      limits: {
+        peak_consumption_threshold: data.limits.peak_consumption_threshold,
+        max_daily_consumption: data.limits.max_daily_consumption,
+      },
+    };
+  }
+
+  /**
+   * Forecast baseline of the dates, to pass to evaluateSlot. Fitting it reads the whole meter
+   * history, so bookings compute it once before their transaction instead of once per slot.
+   */
+  static async forecastBaseline(dates: Date[], db: Db = prisma): Promise<BaselineForecast> {
+    const days = Array.from(new Set(dates.map(formatDate))).sort().map(parseDateOnly);
+    return days.length > 0 ? this.forecastHours(days, db) : [];
+  }
+
+  /**
+   * Projected campus load for every bucket of the working day in the range, split into the
+   * baseline and the booked reservations so charts can show why a slot ranks high or low.
+   */
+  static async loadProfile(
+    options: Pick<AvailabilityOptions, 'date' | 'from' | 'to' | 'laboratoryId' | 'machineIds' | 'excludeAppointmentId'>,
+    db: Db = prisma,
+  ): Promise<LoadProfile> {
+    const { date, from = date, to = from, laboratoryId, machineIds = [], excludeAppointmentId } = options;
+    if (!from) {
+      const { peak_consumption_threshold } = await new EnergySettingsService().get(db);
+      return { points: [], machine_power: 0, limits: { peak_consumption_threshold } };
+    }
+
+    const days = this.daysInRange(from, to ?? from);
+    const data = await this.loadAvailabilityData(days, laboratoryId, machineIds, db, { appointmentId: excludeAppointmentId });
+    const limits = { peak_consumption_threshold: data.limits.peak_consumption_threshold };
+
+    const points = days.flatMap((day) => {
+      const { openingHours, timeline } = this.dayData(data, day);
+      const dayPoints: LoadPoint[] = [];
+      const [hours] = openingHours; // closed days have no points
+      for (
+        let minute = hours ? this.timeToMinutes(hours.open_time) : 0;
+        hours && minute < this.timeToMinutes(hours.close_time);
+        minute += this.SLOT_INCREMENT_MINUTES
+      ) {
+        const startTime = this.formatHour(minute / 60);
+        const endTime = this.formatHour((minute + this.SLOT_INCREMENT_MINUTES) / 60);
+
+        const buckets = this.bucketsBetween(minute, minute + this.SLOT_INCREMENT_MINUTES);
+        const baseline = this.average(buckets.map((b) => timeline.baseline[b]));
+        const booked = this.average(buckets.map((b) => timeline.booked[b]));
+
+        dayPoints.push({
+          date: formatDate(day),
+          start_time: startTime,
+          end_time: endTime,
+          baseline,
+          booked,
+          total: baseline + booked,
+          peak: Math.max(...buckets.map((b) => timeline.baseline[b] + timeline.booked[b])),
+        });
+      }
+      return dayPoints;
+    });
+
+    const machinePower = data.machines.reduce((sum, m) => sum + maxKw(m), 0);
+    return { points, machine_power: machinePower, limits };
+  }
+
+  /**
+   * Fetch appointments, preferred hours and machines for every day in `days`; the forecast
+   * baseline is fitted here unless a precomputed one is given
+   */
+  private static async loadAvailabilityData(
+    days: Date[],
+    laboratoryId: number,
+    targetMachineIdsNum: number[],
+    db: Db,
+    exclude: { appointmentId?: number; holdId?: number; holdOwnerId?: number } = {},
+    forecast?: BaselineForecast,
+  ): Promise<AvailabilityData> {
+    const firstDay = days[0];
+    const afterLastDay = addDays(days[days.length - 1], 1);
+    const excluded = exclude.appointmentId !== undefined ? { id: { not: exclude.appointmentId } } : {};
+    // --- Fetch data from DB (Prisma) ---
 
     // Appointments that involve ANY of the requested machines (for conflicts)
-    const dbAppointmentsConflicting = await prisma.appointment.findMany({
+    const dbAppointmentsConflicting = await db.appointment.findMany({
       where: {
+        ...excluded,
         laboratory_id: laboratoryId,
-        appointment_date: { gte: startOfDay, lt: nextDay },
-        status: { notIn: ['cancelled', 'CANCELLED'] },
+        appointment_date: { gte: firstDay, lt: afterLastDay },
+        status: { in: RESERVING_STATUSES },
         machines: { some: { id: { in: targetMachineIdsNum } } },
       },
       select: {
+        appointment_date: true,
         start_time: true,
         end_time: true,
         power_consumption: true,
@@ -115,198 +463,598 @@ export class AvailabilityService {
       },
     });
 
-    // All appointments in the lab (for power load)
-    const dbAppointmentsAll = await prisma.appointment.findMany({
+    // Appointments of every laboratory (campus load and day total), with their machines to follow their power profiles
+    const dbAppointmentsAll = await db.appointment.findMany({
       where: {
-        appointment_date: { gte: startOfDay, lt: nextDay },
-        status: { notIn: ['cancelled', 'CANCELLED'] },
+        ...excluded,
+        appointment_date: { gte: firstDay, lt: afterLastDay },
+        status: { in: RESERVING_STATUSES },
       },
       select: {
+        appointment_date: true,
         start_time: true,
         end_time: true,
         power_consumption: true,
         status: true,
+        machines: { select: { power_consumption: true, power_profile: true } },
+      },
+    });
+    // Unexpired holds of other users on the requested machines block them like a booking (no load until booked)
+    const dbHolds = await db.slotHold.findMany({
+      where: {
+        ...(exclude.holdId !== undefined ? { id: { not: exclude.holdId } } : {}),
+        ...(exclude.holdOwnerId !== undefined ? { user_id: { not: exclude.holdOwnerId } } : {}),
+        laboratory_id: laboratoryId,
+        appointment_date: { gte: firstDay, lt: afterLastDay },
+        expires_at: { gt: new Date() },
+        machines: { some: { id: { in: targetMachineIdsNum } } },
       },
+      select: { appointment_date: true, start_time: true, end_time: true },
     });
+
     // Convert to light shapes
-    const conflictingAppointments: ExistingAppointmentLight[] = dbAppointmentsConflicting.map((a) => ({
-      start_time: this.timeFromDate(a.start_time),
-      end_time: this.timeFromDate(a.end_time),
-      power_consumption: Number(a.power_consumption ?? 0),
-      status: a.status,
-    }));
+    const conflictingAppointments: ExistingAppointmentLight[] = [
+      ...dbAppointmentsConflicting.map((a) => ({
+        date: formatDate(a.appointment_date),
+        start_time: formatTime(a.start_time),
+        end_time: formatTime(a.end_time),
+        power_consumption: Number(a.power_consumption ?? 0),
+        status: a.status,
+      })),
+      ...dbHolds.map((h) => ({
+        date: formatDate(h.appointment_date),
+        start_time: formatTime(h.start_time),
+        end_time: formatTime(h.end_time),
+        power_consumption: 0,
+        status: 'HELD',
+      })),
+    ];
 
     const allAppointmentsForLoad: ExistingAppointmentLight[] = dbAppointmentsAll.map((a) => ({
-      start_time: this.timeFromDate(a.start_time),
-      end_time: this.timeFromDate(a.end_time),
+      date: formatDate(a.appointment_date),
+      start_time: formatTime(a.start_time),
+      end_time: formatTime(a.end_time),
       power_consumption: Number(a.power_consumption ?? 0),
       status: a.status,
+      machines: a.machines.map((m) => ({
+        power_consumption: Number(m.power_consumption),
+        power_profile: readPowerProfile(m.power_profile),
+      })),
     }));
 
-    // Preferred hours for that day-of-week (0=Sun .. 6=Sat)
-    const dayOfWeek = startOfDay.getDay();
-    const dbPreferred = await prisma.preferredHour.findMany({
-      where: { day_of_week: dayOfWeek },
+    // Preferred hours for every day-of-week in the range (0=Sun .. 6=Sat)
+    const daysOfWeek = Array.from(new Set(days.map(weekday)));
+    const dbPreferred = await db.preferredHour.findMany({
+      where: { day_of_week: { in: daysOfWeek } },
       select: { day_of_week: true, start_time: true, end_time: true, power_consumption: true },
       orderBy: [{ start_time: 'asc' }],
     });
     const preferredHours: PreferredHourLight[] = dbPreferred.map((p) => ({
       day_of_week: p.day_of_week,
-      start_time: this.timeFromDate(p.start_time),
-      end_time: this.timeFromDate(p.end_time),
+      start_time: formatTime(p.start_time),
+      end_time: formatTime(p.end_time),
       power_consumption: Number(p.power_consumption),
     }));
-    console.log(`Found ${preferredHours.length} preferred hours for dayOfWeek ${dayOfWeek}.`);
-    for (const ph of preferredHours) {
-      console.log(` Preferred: ${ph.start_time} - ${ph.end_time}, power: ${ph.power_consumption} kW`);
-    }
+    preferredHours.push(...(forecast ?? (await this.forecastHours(days, db))));
     // Machines details (validate they belong to the lab)
-    const dbMachines = await prisma.machine.findMany({
+    const dbMachines = await db.machine.findMany({
       where: { id: { in: targetMachineIdsNum }, laboratory_id: laboratoryId },
-      select: { id: true, power_consumption: true },
+      select: {
+        id: true,
+        name: true,
+        power_consumption: true,
+        power_profile: true,
+        out_of_service: true,
+        out_of_service_reason: true,
+      },
     });
     const machines: MachineLight[] = dbMachines.map((m) => ({
       id: String(m.id),
+      name: m.name,
       power_consumption: Number(m.power_consumption),
+      power_profile: readPowerProfile(m.power_profile),
+      out_of_service: m.out_of_service,
+      out_of_service_reason: m.out_of_service_reason,
     }));
 
-    // --- Generate time slots / analytics ---
+    const { days: openingHours } = await new OpeningHourService().getForLaboratory(laboratoryId, db);
 
-    const timeSlots = this.generateTimeSlots(
-      date,
-      laboratoryId,
-      targetMachineIdsStr,
-      duration,
-      conflictingAppointments,     // for conflicts
+    // Closures of the whole campus, the laboratory or any requested machine, split per day
+    const dbClosures = await db.closure.findMany({
+      where: {
+        start_date: { lt: afterLastDay },
+        end_date: { gte: firstDay },
+        OR: [
+          { laboratory_id: null, machine_id: null },
+          { laboratory_id: laboratoryId, machine_id: null },
+          { machine_id: { in: targetMachineIdsNum } },
+        ],
+      },
+      select: { title: true, start_date: true, end_date: true, start_time: true, end_time: true },
+    });
+    const closures: ClosureLight[] = dbClosures.flatMap((c) =>
+      this.periodPerDay(days, c).map((period) => ({ ...period, title: c.title }))
+    );
+
+    // Scheduled maintenance of the requested machines, split per day as well
+    const dbMaintenance = await db.maintenanceWindow.findMany({
+      where: {
+        machine_id: { in: targetMachineIdsNum },
+        start_date: { lt: afterLastDay },
+        end_date: { gte: firstDay },
+      },
+      select: {
+        reason: true,
+        start_date: true,
+        end_date: true,
+        start_time: true,
+        end_time: true,
+        machine: { select: { name: true } },
+      },
+    });
+    const maintenance: MaintenanceLight[] = dbMaintenance.flatMap((w) =>
+      this.periodPerDay(days, w).map((period) => ({ ...period, machine: w.machine.name, reason: w.reason }))
+    );
+
+    const limits = await new EnergySettingsService().get(db);
+    const tariff = (await db.tariffBand.findMany({ orderBy: [{ start_time: 'asc' }] })).map(toTariffBandLight);
+
+    return {
+      conflictingAppointments,
       preferredHours,
       machines,
-      allAppointmentsForLoad       // for weighted lab load
+      allAppointmentsForLoad,
+      openingHours,
+      closures,
+      maintenance,
+      limits,
+      tariff,
+    };
+  }
+
+  /**
+   * Forecast baseline of every day in `days` as one hour rows (see lib/forecast). History days with
+   * a campus-wide closure are left out so holidays and recesses don't drag the forecast down.
+   */
+  private static async forecastHours(days: Date[], db: Db): Promise<PreferredHourLight[]> {
+    const historyFrom = addDays(days[0], -this.FORECAST_HISTORY_DAYS);
+    const loads = await db.meterLoad.findMany({
+      where: { date: { gte: historyFrom, lt: days[days.length - 1] } },
+      select: { date: true, hour: true, power_consumption: true },
+    });
+    if (loads.length === 0) return [];
+
+    const globalClosures = await db.closure.findMany({
+      where: { laboratory_id: null, machine_id: null, start_date: { lt: days[days.length - 1] }, end_date: { gte: historyFrom } },
+      select: { start_date: true, end_date: true, start_time: true, end_time: true },
+    });
+    const closedDays = new Set(
+      globalClosures.flatMap((c) =>
+        this.periodPerDay(this.daysInRange(c.start_date, c.end_date), c)
+          .filter((period) => period.start_time === '00:00' && period.end_time === '24:00')
+          .map((period) => period.date)
+      )
     );
 
-    const efficiencyGroups = this.groupSlotsByEfficiency(timeSlots);
+    const byDate = new Map<string, DailyLoad>();
+    for (const load of loads) {
+      const date = formatDate(load.date);
+      if (closedDays.has(date)) continue;
+      const day = byDate.get(date) ?? { date, kw: new Array(24).fill(null) };
+      day.kw[load.hour] = Number(load.power_consumption);
+      byDate.set(date, day);
+    }
+    const history = Array.from(byDate.values());
+
+    return days.flatMap((day) => {
+      const forecast = this.forecaster.forecast(history, formatDate(day)) ?? [];
+      return forecast.flatMap((kw, hour) =>
+        kw === null
+          ? []
+          : [{
+              date: formatDate(day),
+              day_of_week: weekday(day),
+              start_time: this.formatHour(hour),
+              end_time: this.formatHour(hour + 1),
+              power_consumption: kw,
+            }]
+      );
+    });
+  }
+
+  /** Part of a period with day / optional time bounds (closure, maintenance) falling on each of `days` */
+  private static periodPerDay(
+    days: Date[],
+    period: { start_date: Date; end_date: Date; start_time: Date | null; end_time: Date | null },
+  ): PeriodLight[] {
+    return days
+      .filter((day) => period.start_date <= day && period.end_date >= day)
+      .map((day) => ({
+        date: formatDate(day),
+        start_time:
+          period.start_time && period.start_date.getTime() === day.getTime() ? formatTime(period.start_time) : '00:00',
+        end_time: period.end_time && period.end_date.getTime() === day.getTime() ? formatTime(period.end_time) : '24:00',
+      }));
+  }
+
+  /** Narrow range data down to a single day and build its load timeline */
+  private static dayData(data: AvailabilityData, day: Date): DayData {
+    const key = formatDate(day);
+    const preferredHours = this.baselineOf(data, day);
+    const allAppointmentsForLoad = data.allAppointmentsForLoad.filter((a) => a.date === key); // for lab load
     return {
-      timeSlots,
-      //totalDayConsumption,
-      //peakHours,
-      efficiencyGroups,
+      conflictingAppointments: data.conflictingAppointments.filter((a) => a.date === key), // for conflicts
+      preferredHours,
+      machines: data.machines,
+      allAppointmentsForLoad,
+      openingHours: data.openingHours.filter((h) => h.day_of_week === weekday(day)),
+      closures: data.closures.filter((c) => c.date === key),
+      maintenance: data.maintenance.filter((m) => m.date === key),
+      limits: data.limits,
+      tariff: data.tariff,
+      timeline: this.buildTimeline(preferredHours, allAppointmentsForLoad),
     };
   }
 
-  /** Generate available time slots with power consumption calculations */
+  /** Forecast hours of the day when there are any, else the weekly PreferredHour rows of its weekday */
+  private static baselineOf(data: AvailabilityData, day: Date): PreferredHourLight[] {
+    const key = formatDate(day);
+    const forecast = data.preferredHours.filter((p) => p.date === key);
+    return forecast.length > 0 ? forecast : data.preferredHours.filter((p) => !p.date && p.day_of_week === weekday(day));
+  }
+
+  /**
+   * Load of the day every TIMELINE_MINUTES: the baseline of each preferred hour, and each reservation
+   * drawing what its machines draw at that point of the run. Reservations without machines (legacy
+   * rows) spread their stored kWh evenly over their duration.
+   */
+  private static buildTimeline(
+    preferredHours: PreferredHourLight[],
+    appointments: ExistingAppointmentLight[],
+  ): LoadTimeline {
+    const size = (24 * 60) / this.TIMELINE_MINUTES;
+    const timeline: LoadTimeline = { baseline: new Array(size).fill(0), booked: new Array(size).fill(0) };
+
+    for (const pref of preferredHours) {
+      const start = this.timeToMinutes(pref.start_time);
+      const minutes = this.timeToMinutes(pref.end_time) - start;
+      this.addToTimeline(timeline.baseline, start, [{ start: 0, end: minutes, kw: pref.power_consumption }]);
+    }
+    for (const appt of appointments) {
+      const start = this.timeToMinutes(appt.start_time);
+      const minutes = this.timeToMinutes(appt.end_time) - start;
+      if (minutes <= 0) continue;
+      const run = appt.machines?.length
+        ? combinedSegments(appt.machines, minutes)
+        : [{ start: 0, end: minutes, kw: (appt.power_consumption || 0) / (minutes / 60) }];
+      this.addToTimeline(timeline.booked, start, run);
+    }
+    return timeline;
+  }
+
+  /** Add a run starting at minute `offset` of the day, each bucket getting the average kW drawn inside it */
+  private static addToTimeline(buckets: number[], offset: number, run: PowerSegment[]): void {
+    for (const segment of run) {
+      const end = Math.min(offset + segment.end, buckets.length * this.TIMELINE_MINUTES);
+      for (let minute = offset + segment.start; minute < end; ) {
+        const bucket = Math.floor(minute / this.TIMELINE_MINUTES);
+        const until = Math.min((bucket + 1) * this.TIMELINE_MINUTES, end);
+        buckets[bucket] += (segment.kw * (until - minute)) / this.TIMELINE_MINUTES;
+        minute = until;
+      }
+    }
+  }
+
+  /** Timeline buckets touched by [startMinute, endMinute) */
+  private static bucketsBetween(startMinute: number, endMinute: number): number[] {
+    const first = Math.floor(startMinute / this.TIMELINE_MINUTES);
+    const last = Math.ceil(endMinute / this.TIMELINE_MINUTES);
+    return Array.from({ length: Math.max(0, last - first) }, (_, i) => first + i);
+  }
+
+  /**
+   * Campus load over a window from the timeline: average and peak of baseline + bookings, and the peak
+   * once the requested machines run on top (each at its draw in that bucket of the run, `requested`)
+   */
+  private static slotLoad(
+    dayData: DayData,
+    startTime: string,
+    endTime: string,
+  ): { average: number; peak: number; peakWithMachines: number; requested: number[] } {
+    const { timeline, machines } = dayData;
+    const start = this.timeToMinutes(startTime);
+    const end = this.timeToMinutes(endTime);
+    const requested = new Array(timeline.baseline.length).fill(0);
+    const buckets = this.bucketsBetween(start, end);
+    if (buckets.length === 0) return { average: 0, peak: 0, peakWithMachines: 0, requested };
+
+    this.addToTimeline(requested, start, combinedSegments(machines, end - start));
+
+    let weighted = 0;
+    let peak = 0;
+    let peakWithMachines = 0;
+    for (const b of buckets) {
+      const campus = timeline.baseline[b] + timeline.booked[b];
+      // windows off the bucket grid only count the minutes they cover
+      const covered =
+        Math.min(end, (b + 1) * this.TIMELINE_MINUTES) - Math.max(start, b * this.TIMELINE_MINUTES);
+      weighted += campus * covered;
+      peak = Math.max(peak, campus);
+      peakWithMachines = Math.max(peakWithMachines, campus + requested[b]);
+    }
+    return { average: weighted / (end - start), peak, peakWithMachines, requested };
+  }
+
+  /**
+   * Cost of the booking with the time-of-use tariff: what its machines draw (`requested`, see
+   * slotLoad) priced by band, plus the demand charge on how much it raises each band's peak of the day
+   */
+  private static slotCost(dayData: DayData, requested: number[]): SlotCost | null {
+    const { tariff, timeline } = dayData;
+    if (tariff.length === 0) return null;
+
+    const bucketHours = this.TIMELINE_MINUTES / 60;
+    let energy = 0;
+    const peaks = new Map<TariffBandLight, { before: number; after: number }>();
+    timeline.baseline.forEach((baseline, b) => {
+      const band = bandAt(tariff, b * this.TIMELINE_MINUTES);
+      if (!band) return;
+      const campus = baseline + timeline.booked[b];
+      energy += requested[b] * bucketHours * band.energy_price;
+      const peak = peaks.get(band) ?? { before: 0, after: 0 };
+      peak.before = Math.max(peak.before, campus);
+      peak.after = Math.max(peak.after, campus + requested[b]);
+      peaks.set(band, peak);
+    });
+    const demand = Array.from(peaks).reduce((sum, [band, peak]) => sum + (peak.after - peak.before) * band.demand_price, 0);
+    return { energy, demand, total: energy + demand };
+  }
+
+  /** Generate the time slots inside the laboratory's opening hours, with power consumption calculations */
   private static generateTimeSlots(
     date: Date,
-    laboratoryId: number,
     machineIds: string[],
     duration: number,
-    conflictingAppointments: ExistingAppointmentLight[],
-    preferredHours: PreferredHourLight[],
-    machines: MachineLight[],
-    allAppointmentsForLoad: ExistingAppointmentLight[],
+    dayData: DayData,
   ): TimeSlot[] {
     const timeSlots: TimeSlot[] = [];
-    const totalMachinePower = machines.reduce((sum, m) => sum + m.power_consumption, 0);
+    const [hours] = dayData.openingHours;
+    if (!hours) return timeSlots;
     const slotIncrementHours = this.SLOT_INCREMENT_MINUTES / 60;
-    const maxEndHour = this.WORKING_HOURS_END;
+    const maxEndHour = this.timeToMinutes(hours.close_time) / 60;
 
     for (
-      let startHour = this.WORKING_HOURS_START;
+      let startHour = this.timeToMinutes(hours.open_time) / 60;
       startHour + duration <= maxEndHour;
       startHour += slotIncrementHours
     ) {
       const endHour = startHour + duration;
-      const startTime = this.formatTime(startHour);
-      const endTime = this.formatTime(endHour);
-      const slotMinutes = this.timeToMinutes(endTime) - this.timeToMinutes(startTime);
-      console.log(`Evaluating slot ${startTime} - ${endTime}`);
-
-      // 1) Conflicts: any appointment with the requested machines that overlaps this slot blocks it
-      const hasConflict = conflictingAppointments.some((a) =>
-        this.timeSlotsOverlap(startTime, endTime, a.start_time, a.end_time)
-      );
+      const startTime = this.formatHour(startHour);
+      const endTime = this.formatHour(endHour);
+      timeSlots.push(this.buildSlot(date, startTime, endTime, machineIds, dayData));
+    }
 
-      // 2) Preferred-hours weighted power
-      const preferredWeighted = preferredHours.reduce((sum, pref) => {
-        const mins = this.overlapMinutes(startTime, endTime, pref.start_time, pref.end_time);
-        if (mins === 0) return sum;
-        const fraction = mins / slotMinutes;
-        return sum + fraction * pref.power_consumption; // kW contribution
-      }, 0);
-
-      // 3) Concurrent appointments (ALL lab appointments) weighted power
-      const concurrentWeighted = allAppointmentsForLoad.reduce((sum, appt) => {
-        const mins = this.overlapMinutes(startTime, endTime, appt.start_time, appt.end_time);
-        console.log(`Checking overlap with appointment ${appt.start_time}-${appt.end_time} (${appt.power_consumption} kW): overlap ${mins} mins`);
-        if (mins === 0) return sum;
-        const appSlotMinutes = this.timeToMinutes(appt.end_time) - this.timeToMinutes(appt.start_time);
-        const fraction = mins / appSlotMinutes;
-        return sum + fraction * (appt.power_consumption || 0);
-      }, 0);
-      console.log(` Slot ${startTime}-${endTime}: preferred contribution = ${preferredWeighted.toFixed(2)} kW, concurrent contribution = ${concurrentWeighted.toFixed(2)} kW`);
-      // 4) Extra power = preferred contribution + concurrent appointments contribution
-      const extraPowerConsumption = preferredWeighted + concurrentWeighted;
-
-      let reason: string | undefined;
-      if (hasConflict) {
-        reason = 'Horario ya reservado';
-      } else if (extraPowerConsumption > this.PEAK_CONSUMPTION_THRESHOLD) {
-        reason = `Alto consumo energético (${extraPowerConsumption.toFixed(1)} kW)`;
-      }
+    return timeSlots;
+  }
 
-      timeSlots.push({
-        start_time: startTime,
-        end_time: endTime,
-        available: !hasConflict,
-        power_consumption: extraPowerConsumption,
-        power_spike_percentage: 0, // filled after sorting
-        machine_ids: machineIds,
-        reason,
-      });
+  /** Compute load, conflicts and limits for a single window of a day */
+  private static buildSlot(
+    date: Date,
+    startTime: string,
+    endTime: string,
+    machineIds: string[],
+    dayData: DayData,
+  ): TimeSlot {
+    const { conflictingAppointments, preferredHours, machines, limits } = dayData;
+    const slotMinutes = this.timeToMinutes(endTime) - this.timeToMinutes(startTime);
+
+    // 1) Conflicts: any appointment (or another user's hold) with the requested machines that overlaps this slot blocks it
+    const overlapping = conflictingAppointments.filter((a) =>
+      this.timeSlotsOverlap(startTime, endTime, a.start_time, a.end_time)
+    );
+    const hasConflict = overlapping.some((a) => a.status !== 'HELD');
+    const isHeld = overlapping.length > 0 && !hasConflict;
+
+    // 2) Campus load (preferred-hours baseline + appointments of every lab) from the day's timeline
+    const load = this.slotLoad(dayData, startTime, endTime);
+
+    // 3) Limits: peak load with the requested machines running on top, and the campus-wide day total
+    //    (every laboratory) with this booking (both following the machines' power profiles)
+    const run = this.machineRun(machines, slotMinutes);
+    const slotLoad = load.peakWithMachines;
+    const dayTotal = this.dayTotalConsumption(dayData) + run.energy;
+
+    // 0) Opening hours of the laboratory, closures (holidays, outages...) and unavailable machines
+    const [hours] = dayData.openingHours;
+    const closed = !hours || startTime < hours.open_time || endTime > hours.close_time;
+    const closure = dayData.closures.find((c) => this.timeSlotsOverlap(startTime, endTime, c.start_time, c.end_time));
+    const outOfService = machines.find((m) => m.out_of_service);
+    const maintenance = dayData.maintenance.find((m) => this.timeSlotsOverlap(startTime, endTime, m.start_time, m.end_time));
+
+    // Peak windows of the baseline: their load is high by definition, so a manager decides on
+    // bookings there (approval below) instead of the slot threshold rejecting them
+    const peakWindow = preferredHours.find(
+      (pref) =>
+        pref.power_consumption >= limits.approval_peak_window &&
+        this.timeSlotsOverlap(startTime, endTime, pref.start_time, pref.end_time)
+    );
+
+    let reason: string | undefined;
+    let reasonCode: SlotUnavailableReason | undefined;
+    if (closed) {
+      reason = hours
+        ? `Fuera del horario del laboratorio (${hours.open_time} - ${hours.close_time})`
+        : 'El laboratorio está cerrado ese día';
+      reasonCode = 'closed';
+    } else if (closure) {
+      reason = `Cerrado: ${closure.title}`;
+      reasonCode = 'closure';
+    } else if (outOfService) {
+      reason = this.outOfServiceReason(outOfService);
+      reasonCode = 'out_of_service';
+    } else if (maintenance) {
+      reason = this.maintenanceReason(maintenance);
+      reasonCode = 'maintenance';
+    } else if (hasConflict) {
+      reason = 'Horario ya reservado';
+      reasonCode = 'machine_conflict';
+    } else if (isHeld) {
+      reason = 'Horario en proceso de reserva por otro usuario';
+      reasonCode = 'held';
+    } else if (slotLoad > limits.peak_consumption_threshold && !peakWindow) {
+      reason = `Alto consumo energético (${slotLoad.toFixed(1)} kW)`;
+      reasonCode = 'peak_threshold';
+    } else if (dayTotal > limits.max_daily_consumption) {
+      reason = `Límite de consumo diario de la facultad superado (${dayTotal.toFixed(1)} kWh)`;
+      reasonCode = 'daily_limit';
     }
 
-    // Sort by power first, then by time
-    const sortedSlots = timeSlots.sort((a, b) => {
-      if (a.power_consumption !== b.power_consumption) {
-        return a.power_consumption - b.power_consumption;
-      }
-      return a.start_time.localeCompare(b.start_time);
-    });
+    // 4) Approval: bookings over the energy threshold or inside a peak window of the baseline
+    const bookingEnergy = run.energy;
+    let approvalReason: string | undefined;
+    if (bookingEnergy > limits.approval_energy_threshold) {
+      approvalReason = `Consumo de la reserva superior a ${limits.approval_energy_threshold} kWh (${bookingEnergy.toFixed(1)} kWh)`;
+    } else if (peakWindow) {
+      approvalReason = `Horario pico de la facultad (${peakWindow.start_time} - ${peakWindow.end_time})`;
+    }
+
+    return {
+      date: formatDate(date),
+      start_time: startTime,
+      end_time: endTime,
+      available: !reasonCode,
+      power_consumption: load.average,
+      peak_power_consumption: load.peak,
+      power_spike_percentage: 0, // filled after ranking
+      machine_ids: machineIds,
+      reason,
+      reason_code: reasonCode,
+      requires_approval: approvalReason !== undefined,
+      approval_reason: approvalReason,
+      cost: this.slotCost(dayData, load.requested),
+    };
+  }
+
+  /** Opening hours and slot count of a day, with the reason when nothing can be booked */
+  private static describeDay(day: Date, slots: TimeSlot[], dayData: DayData): DayAvailability {
+    const [hours] = dayData.openingHours;
+    const availableSlots = slots.filter((slot) => slot.available).length;
+    const summary: DayAvailability = {
+      date: formatDate(day),
+      open_time: hours?.open_time ?? null,
+      close_time: hours?.close_time ?? null,
+      slots: slots.length,
+      available_slots: availableSlots,
+      baseline: dayData.preferredHours.some((p) => p.date) ? 'forecast' : 'weekly',
+    };
 
-    const lowestPower = sortedSlots.length > 0 ? sortedSlots[0].power_consumption : 0;
+    if (!hours) {
+      return { ...summary, reason: 'El laboratorio está cerrado ese día', reason_code: 'closed' };
+    }
+    const closure = dayData.closures.find((c) => c.start_time <= hours.open_time && c.end_time >= hours.close_time);
+    if (closure) {
+      return { ...summary, reason: `Cerrado: ${closure.title}`, reason_code: 'closure' };
+    }
+    const outOfService = dayData.machines.find((m) => m.out_of_service);
+    if (outOfService) {
+      return { ...summary, reason: this.outOfServiceReason(outOfService), reason_code: 'out_of_service' };
+    }
+    const maintenance = dayData.maintenance.find((m) => m.start_time <= hours.open_time && m.end_time >= hours.close_time);
+    if (maintenance) {
+      return { ...summary, reason: this.maintenanceReason(maintenance), reason_code: 'maintenance' };
+    }
+    if (slots.length === 0) {
+      return {
+        ...summary,
+        reason: `La duración supera el horario del laboratorio (${hours.open_time} - ${hours.close_time})`,
+        reason_code: 'too_short',
+      };
+    }
+    if (availableSlots === 0) {
+      return {
+        ...summary,
+        reason: 'Todos los horarios están reservados o superan los límites de consumo',
+        reason_code: 'no_available_slots',
+      };
+    }
+    return summary;
+  }
+
+  private static outOfServiceReason(machine: MachineLight): string {
+    const detail = machine.out_of_service_reason ? ` (${machine.out_of_service_reason})` : '';
+    return `Máquina fuera de servicio: ${machine.name}${detail}`;
+  }
+
+  private static maintenanceReason(maintenance: MaintenanceLight): string {
+    return `Mantenimiento de ${maintenance.machine}: ${maintenance.reason}`;
+  }
+
+  /** Peak kW and kWh of running the machines together for `minutes` (see lib/power-profile) */
+  private static machineRun(machines: MachineLight[], minutes: number): { peak: number; energy: number } {
+    const segments = combinedSegments(machines, minutes);
+    return { peak: peakKw(segments), energy: energyKwh(segments) };
+  }
+
+  /** Energy already booked for the day across the campus, all laboratories (appointments store kWh) */
+  private static dayTotalConsumption(dayData: DayData): number {
+    return dayData.allAppointmentsForLoad.reduce((sum, a) => sum + (a.power_consumption || 0), 0);
+  }
+
+  /**
+   * Sort slots (of one or many days) by power (or cost), then by day and time, and fill the spike
+   * percentage over the lowest one
+   */
+  private static rankSlots(timeSlots: TimeSlot[], rankBy: SlotRanking = 'load'): TimeSlot[] {
+    const sortedSlots = [...timeSlots].sort((a, b) => this.compareSlots(a, b, rankBy));
+
+    const lowest = sortedSlots.length > 0 ? this.rankValue(sortedSlots[0], rankBy) : 0;
 
     return sortedSlots.map((slot) => ({
       ...slot,
       power_spike_percentage:
-        lowestPower > 0 ? ((slot.power_consumption - lowestPower) / lowestPower) * 100 : slot.power_consumption,
+        lowest > 0 ? ((this.rankValue(slot, rankBy) - lowest) / lowest) * 100 : this.rankValue(slot, rankBy),
     }));
   }
 
 
   // --- Helpers ---
 
+  /** kW of the slot, or its $ when ranking by cost (load when there's no tariff to price it) */
+  private static rankValue(slot: TimeSlot, rankBy: SlotRanking): number {
+    return rankBy === 'cost' && slot.cost ? slot.cost.total : slot.power_consumption;
+  }
+
+  /** Order by power (or cost) first, then by day, then by time */
+  private static compareSlots(a: TimeSlot, b: TimeSlot, rankBy: SlotRanking = 'load'): number {
+    const difference = this.rankValue(a, rankBy) - this.rankValue(b, rankBy);
+    if (difference !== 0) {
+      return difference;
+    }
+    if (a.date !== b.date) {
+      return a.date.localeCompare(b.date);
+    }
+    return a.start_time.localeCompare(b.start_time);
+  }
+
+  /** Calendar days (see lib/time) for every day in [from, to] (to before from yields just `from`) */
+  private static daysInRange(from: Date, to: Date): Date[] {
+    const first = parseDateOnly(formatDate(from));
+    const last = parseDateOnly(formatDate(to));
+
+    const days: Date[] = [];
+    for (let d = first; d <= last; d = addDays(d, 1)) {
+      days.push(d);
+    }
+    return days.length > 0 ? days : [first];
+  }
+
   /** Convert fractional hour to "HH:MM" */
-  private static formatTime(hour: number): string {
+  private static formatHour(hour: number): string {
     const hours = Math.floor(hour);
     const minutes = Math.round((hour - hours) * 60);
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
   }
 
-  /** Convert Date(@db.Time()) to "HH:MM" */
-private static timeFromDate(d: Date): string {
-    // const offset = 3 // REMOVE THIS
-    
-    // Use getUTCHours() and getUTCMinutes() for deterministic, timezone-independent results.
-    // This assumes the time in your DB (e.g., 10:00) is being read by Prisma
-    // as a Date object like 1970-01-01T10:00:00Z.
-    const hh = d.getUTCHours().toString().padStart(2, '0');
-    const mm = d.getUTCMinutes().toString().padStart(2, '0');
-    
-    // Handle potential 24:00 (due to timezone wrapping, e.g., 21:00-03:00 becomes 00:00)
-    if (hh === '24') {
-      return `00:${mm}`;
-    }
-    return `${hh}:${mm}`;
-  }
-
   private static timeToMinutes(time: string): number {
     const [h, m] = time.split(':').map(Number);
     return h * 60 + m;
@@ -320,26 +1068,13 @@ private static timeFromDate(d: Date): string {
     return s1 < e2 && e1 > s2;
   }
 
-  private static timeWithinRange(slotStart: string, slotEnd: string, rangeStart: string, rangeEnd: string): boolean {
-    const s = this.timeToMinutes(slotStart);
-    const e = this.timeToMinutes(slotEnd);
-    const rs = this.timeToMinutes(rangeStart);
-    const re = this.timeToMinutes(rangeEnd);
-    return s >= rs && e <= re;
-  }
-
-  /** Group slots by relative power efficiency */
-  static groupSlotsByEfficiency(timeSlots: TimeSlot[]): EfficiencyGroup[] {
+  /** Group slots by relative power efficiency (or relative cost) */
+  static groupSlotsByEfficiency(timeSlots: TimeSlot[], rankBy: SlotRanking = 'load'): EfficiencyGroup[] {
     if (timeSlots.length === 0) return [];
 
-    const sorted = [...timeSlots].sort((a, b) => {
-      if (a.power_consumption !== b.power_consumption) {
-        return a.power_consumption - b.power_consumption;
-      }
-      return a.start_time.localeCompare(b.start_time);
-    });
+    const sorted = [...timeSlots].sort((a, b) => this.compareSlots(a, b, rankBy));
 
-    const lowestPower = sorted[0]?.power_consumption || 0;
+    const lowest = sorted[0] ? this.rankValue(sorted[0], rankBy) : 0;
     const ranges = [
       { max: 10, label: 'Óptimo', id: 'optimal' as const },
       { max: 30, label: 'Bueno', id: 'good' as const },
@@ -352,8 +1087,7 @@ private static timeFromDate(d: Date): string {
     ranges.forEach((range, idx) => {
       const prevMax = idx > 0 ? ranges[idx - 1].max : 0;
       const rangeSlots = sorted.filter((slot) => {
-        const pct =
-          lowestPower > 0 ? ((slot.power_consumption - lowestPower) / lowestPower) * 100 : 0;
+        const pct = lowest > 0 ? ((this.rankValue(slot, rankBy) - lowest) / lowest) * 100 : 0;
         return pct >= prevMax && pct < range.max;
       });
 
@@ -369,7 +1103,9 @@ private static timeFromDate(d: Date): string {
 
         const avgPower =
           rangeSlots.reduce((sum, slot) => sum + slot.power_consumption, 0) / rangeSlots.length;
-        const avgPct = lowestPower > 0 ? ((avgPower - lowestPower) / lowestPower) * 100 : 0;
+        const avgValue = rangeSlots.reduce((sum, slot) => sum + this.rankValue(slot, rankBy), 0) / rangeSlots.length;
+        const avgPct = lowest > 0 ? ((avgValue - lowest) / lowest) * 100 : 0;
+        const costs = rangeSlots.flatMap((slot) => (slot.cost ? [slot.cost.total] : []));
 
         groups.push({
           id: range.id,
@@ -378,6 +1114,8 @@ private static timeFromDate(d: Date): string {
           time_range: `${earliestStart} - ${latestEnd}`, // ✅ correct range
           slots: rangeSlots,
           average_power_consumption: avgPower,
+          average_cost: costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) / costs.length : null,
+          best_slot: rangeSlots.find((slot) => slot.available) ?? rangeSlots[0],
         });
       }
     });
@@ -385,12 +1123,7 @@ private static timeFromDate(d: Date): string {
     return groups;
   }
 
-  private static overlapMinutes(start1: string, end1: string, start2: string, end2: string): number {
-    const s1 = this.timeToMinutes(start1);
-    const e1 = this.timeToMinutes(end1);
-    const s2 = this.timeToMinutes(start2);
-    const e2 = this.timeToMinutes(end2);
-    const overlap = Math.min(e1, e2) - Math.max(s1, s2);
-    return Math.max(0, overlap);
+  private static average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
   }
 }
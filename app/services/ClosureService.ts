@@ -0,0 +1,134 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assertEnergyAdmin, assertManagesLaboratory, type Actor } from '@/lib/permissions';
+import { parseIcs, type IcsSkippedEvent } from '@/lib/ics';
+import type { ClosureInput } from '@/lib/schemas';
+import { parseDateOnly, parseTime } from '@/lib/time';
+
+// Where a closure applies: everywhere (no ids), a laboratory, or a single machine
+export type ClosureScope = { laboratory_id?: number | null; machine_id?: number | null };
+
+export type ClosureData = ClosureScope & {
+  title: string;
+  start_date: Date;
+  end_date: Date;
+  start_time?: Date | null;
+  end_time?: Date | null;
+};
+
+export type ClosureImportResult = {
+  created: number;
+  updated: number;
+  skipped: IcsSkippedEvent[];
+};
+
+/** Validated request body (see closureSchema) → column values */
+export function toClosureData(input: ClosureInput): ClosureData {
+  return {
+    title: input.title,
+    laboratory_id: input.laboratory_id ?? null,
+    machine_id: input.machine_id ?? null,
+    start_date: parseDateOnly(input.start_date),
+    end_date: parseDateOnly(input.end_date),
+    start_time: input.start_time ? parseTime(input.start_time) : null,
+    end_time: input.end_time ? parseTime(input.end_time) : null,
+  };
+}
+
+const CLOSURE_INCLUDE = {
+  laboratory: { select: { id: true, name: true } },
+  machine: { select: { id: true, name: true } },
+} satisfies Prisma.ClosureInclude;
+
+export class ClosureService {
+  // Closures overlapping [from, to] (any when omitted); a laboratory also gets the global ones and its machines'
+  async getAll(filters: { laboratory_id?: number; from?: Date; to?: Date } = {}) {
+    const { laboratory_id, from, to } = filters;
+    return prisma.closure.findMany({
+      where: {
+        ...(laboratory_id !== undefined && {
+          OR: [{ laboratory_id }, { laboratory_id: null, machine_id: null }],
+        }),
+        ...(from && { end_date: { gte: from } }),
+        ...(to && { start_date: { lte: to } }),
+      },
+      include: CLOSURE_INCLUDE,
+      orderBy: [{ start_date: 'asc' }, { start_time: 'asc' }],
+    });
+  }
+
+  async getById(id: number) {
+    return prisma.closure.findUnique({ where: { id }, include: CLOSURE_INCLUDE });
+  }
+
+  // Global closures are for energy admins; laboratory and machine ones for the lab's managers
+  async create(data: ClosureData, actor: Actor) {
+    const scope = await this.authorize(data, actor);
+    return prisma.closure.create({ data: { ...data, ...scope }, include: CLOSURE_INCLUDE });
+  }
+
+  async update(id: number, data: ClosureData, actor: Actor) {
+    const current = await prisma.closure.findUnique({ where: { id } });
+    // a missing row falls through to update(), which throws P2025
+    if (current) await this.authorize(current, actor);
+    const scope = await this.authorize(data, actor);
+    return prisma.closure.update({ where: { id }, data: { ...data, ...scope }, include: CLOSURE_INCLUDE });
+  }
+
+  async delete(id: number, actor: Actor) {
+    const current = await prisma.closure.findUnique({ where: { id } });
+    if (current) await this.authorize(current, actor);
+    return prisma.closure.delete({ where: { id } });
+  }
+
+  // Create a closure per event of the .ics file in the given scope; events imported before
+  // (same UID and scope) are updated instead, so the same calendar can be imported again
+  async importIcs(ics: string, scopeInput: ClosureScope, actor: Actor): Promise<ClosureImportResult> {
+    const scope = await this.authorize(scopeInput, actor);
+    const { events, skipped } = parseIcs(ics);
+    const result: ClosureImportResult = { created: 0, updated: 0, skipped };
+
+    await prisma.$transaction(async (tx) => {
+      for (const event of events) {
+        const data = {
+          ...scope,
+          title: event.title,
+          start_date: parseDateOnly(event.start_date),
+          end_date: parseDateOnly(event.end_date),
+          start_time: event.start_time ? parseTime(event.start_time) : null,
+          end_time: event.end_time ? parseTime(event.end_time) : null,
+          ics_uid: event.uid ?? null,
+        };
+        const existing = event.uid
+          ? await tx.closure.findFirst({ where: { ics_uid: event.uid, ...scope } })
+          : null;
+        if (existing) {
+          await tx.closure.update({ where: { id: existing.id }, data });
+          result.updated++;
+        } else {
+          await tx.closure.create({ data });
+          result.created++;
+        }
+      }
+    });
+    return result;
+  }
+
+  /** Check the actor may manage closures of that scope; machine closures get their laboratory */
+  private async authorize(scope: ClosureScope, actor: Actor): Promise<{ laboratory_id: number | null; machine_id: number | null }> {
+    if (scope.machine_id) {
+      const machine = await prisma.machine.findUniqueOrThrow({
+        where: { id: scope.machine_id },
+        select: { laboratory_id: true },
+      });
+      assertManagesLaboratory(actor, machine.laboratory_id);
+      return { laboratory_id: machine.laboratory_id, machine_id: scope.machine_id };
+    }
+    if (scope.laboratory_id) {
+      assertManagesLaboratory(actor, scope.laboratory_id);
+      return { laboratory_id: scope.laboratory_id, machine_id: null };
+    }
+    assertEnergyAdmin(actor);
+    return { laboratory_id: null, machine_id: null };
+  }
+}
@@ -0,0 +1,43 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assertEnergyAdmin, type Actor } from '@/lib/permissions';
+
+// Global limits applied by AvailabilityService to every laboratory
+export type EnergyLimits = {
+  max_daily_consumption: number;      // kWh booked per day across the campus (all laboratories)
+  peak_consumption_threshold: number; // kW per slot
+  approval_energy_threshold: number;  // kWh per booking above which a manager has to approve it
+  approval_peak_window: number;       // kW baseline marking a peak window (bookings there need approval); <= peak_consumption_threshold
+};
+
+// Single-row table (id = 1); until an energy admin saves it the env vars (or these values) apply
+const DEFAULT_LIMITS: EnergyLimits = {
+  max_daily_consumption: Number(process.env.MAX_DAILY_CONSUMPTION ?? 50),
+  peak_consumption_threshold: Number(process.env.PEAK_CONSUMPTION_THRESHOLD ?? 100),
+  approval_energy_threshold: Number(process.env.APPROVAL_ENERGY_THRESHOLD ?? 20),
+  approval_peak_window: Number(process.env.APPROVAL_PEAK_WINDOW ?? 80),
+};
+
+export class EnergySettingsService {
+  async get(db: Prisma.TransactionClient = prisma): Promise<EnergyLimits> {
+    const row = await db.energySettings.findUnique({ where: { id: 1 } });
+    if (!row) return { ...DEFAULT_LIMITS };
+    return {
+      max_daily_consumption: Number(row.max_daily_consumption),
+      peak_consumption_threshold: Number(row.peak_consumption_threshold),
+      approval_energy_threshold: Number(row.approval_energy_threshold),
+      approval_peak_window: Number(row.approval_peak_window),
+    };
+  }
+
+  async update(limits: Partial<EnergyLimits>, actor: Actor): Promise<EnergyLimits> {
+    assertEnergyAdmin(actor);
+    const current = await this.get();
+    await prisma.energySettings.upsert({
+      where: { id: 1 },
+      create: { id: 1, ...current, ...limits },
+      update: limits,
+    });
+    return this.get();
+  }
+}
@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/prisma';
+import { assertEnergyAdmin, assertManagesLaboratory, managesLaboratory, type Actor } from '@/lib/permissions';
 
 export class LaboratoryService {
   async getAll() {
@@ -7,28 +8,32 @@ export class LaboratoryService {
     });
   }
 
-  async getById(id: number) {
+  // Appointments (with the bookers' contact data) are only included for the lab's managers
+  async getById(id: number, actor: Actor | null = null) {
     return prisma.laboratory.findUnique({
       where: { id },
       // include related data when fetching a single lab (handy for detail views)
-      include: { machines: true, appointments: true },
+      include: { machines: true, appointments: actor !== null && managesLaboratory(actor, id) },
     });
   }
 
-  async create(name: string, location: string) {
+  async create(name: string, location: string, actor: Actor) {
+    assertEnergyAdmin(actor);
     return prisma.laboratory.create({
       data: { name, location },
     });
   }
 
-  async update(id: number, name: string, location: string) {
+  async update(id: number, data: { name?: string; location?: string }, actor: Actor) {
+    assertManagesLaboratory(actor, id);
     return prisma.laboratory.update({
       where: { id },
-      data: { name, location },
+      data,
     });
   }
 
-  async delete(id: number) {
+  async delete(id: number, actor: Actor) {
+    assertEnergyAdmin(actor);
     // Will throw if FK constraints prevent delete (e.g., machines/appointments exist)
     return prisma.laboratory.delete({ where: { id } });
   }
@@ -1,16 +1,42 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { RESERVING_STATUSES } from '@/lib/appointment-status';
+import { assertManagesLaboratory, type Actor } from '@/lib/permissions';
+import type { PowerProfile } from '@/lib/power-profile';
+import { today } from '@/lib/time';
+import { MaintenanceService } from '@/app/services/MaintenanceService';
+
+// Maintenance that hasn't ended yet, shown next to the machine when booking
+function upcomingMaintenance() {
+  return {
+    maintenance_windows: {
+      where: { end_date: { gte: today() } },
+      orderBy: [{ start_date: 'asc' }, { start_time: 'asc' }],
+    },
+  } satisfies Prisma.MachineInclude;
+}
+
+// Thrown when deleting a machine that active bookings still reserve (deleting it would silently
+// drop it from them); the bookings have to be cancelled or moved first
+export class MachineInUseError extends Error {
+  constructor(public readonly appointmentIds: number[]) {
+    super(`La máquina está reservada en ${appointmentIds.length} cita(s) activa(s)`);
+    this.name = 'MachineInUseError';
+  }
+}
 
 export class MachineService {
   async getAllByLaboratory(laboratoryId: number) {
     return prisma.machine.findMany({
       where: { laboratory_id: laboratoryId },
+      include: upcomingMaintenance(),
       orderBy: { created_at: 'asc' },
     });
   }
 
   async getAll() {
     return prisma.machine.findMany({
+      include: upcomingMaintenance(),
       orderBy: { created_at: 'asc' },
     });
   }
@@ -22,7 +48,8 @@ export class MachineService {
     });
   }
 
-  async create(name: string, power_consumption: number, laboratory_id: number) {
+  async create(name: string, power_consumption: number, laboratory_id: number, actor: Actor) {
+    assertManagesLaboratory(actor, laboratory_id);
     // Coerce to Decimal to avoid float rounding issues
     const pc = new Prisma.Decimal(power_consumption);
     return prisma.machine.create({
@@ -30,20 +57,64 @@ export class MachineService {
     });
   }
 
+  // Taking a machine out of service flags its upcoming bookings (returned as `affected` so the
+  // bookers can be emailed); putting it back clears the reason
   async update(
     id: number,
-    name: string,
-    power_consumption: number,
-    laboratory_id: number
+    data: {
+      name?: string;
+      power_consumption?: number;
+      laboratory_id?: number;
+      power_profile?: PowerProfile | null;
+      out_of_service?: boolean;
+      out_of_service_reason?: string | null;
+    },
+    actor: Actor
   ) {
-    const pc = new Prisma.Decimal(power_consumption);
-    return prisma.machine.update({
-      where: { id },
-      data: { name, power_consumption: pc, laboratory_id },
+    await this.assertManagesMachine(id, actor);
+    // moving a machine requires managing the target laboratory too
+    if (data.laboratory_id !== undefined) assertManagesLaboratory(actor, data.laboratory_id);
+    const { power_consumption, power_profile, ...rest } = data;
+
+    return prisma.$transaction(async (tx) => {
+      const before = await tx.machine.findUniqueOrThrow({ where: { id }, select: { out_of_service: true } });
+      const machine = await tx.machine.update({
+        where: { id },
+        data: {
+          ...rest,
+          ...(power_consumption !== undefined ? { power_consumption: new Prisma.Decimal(power_consumption) } : {}),
+          ...(power_profile !== undefined ? { power_profile: power_profile ?? Prisma.DbNull } : {}),
+          ...(data.out_of_service === false ? { out_of_service_reason: null } : {}),
+        },
+      });
+
+      const affected =
+        machine.out_of_service && !before.out_of_service
+          ? await new MaintenanceService().flagAffectedAppointments(
+              tx,
+              id,
+              `${machine.name} está fuera de servicio${machine.out_of_service_reason ? `: ${machine.out_of_service_reason}` : ''}`,
+            )
+          : [];
+      return { machine, affected };
+    });
+  }
+
+  async delete(id: number, actor: Actor) {
+    await this.assertManagesMachine(id, actor);
+    return prisma.$transaction(async (tx) => {
+      const reserving = await tx.appointment.findMany({
+        where: { status: { in: RESERVING_STATUSES }, machines: { some: { id } } },
+        select: { id: true },
+      });
+      if (reserving.length > 0) throw new MachineInUseError(reserving.map((a) => a.id));
+      return tx.machine.delete({ where: { id } });
     });
   }
 
-  async delete(id: number) {
-    return prisma.machine.delete({ where: { id } });
+  private async assertManagesMachine(id: number, actor: Actor) {
+    const machine = await prisma.machine.findUnique({ where: { id }, select: { laboratory_id: true } });
+    // a missing machine falls through to the query, which throws P2025
+    if (machine) assertManagesLaboratory(actor, machine.laboratory_id);
   }
 }
@@ -0,0 +1,330 @@
+import nodemailer from 'nodemailer';
+import { AppointmentStatus, Prisma } from '@prisma/client';
+import { STATUS_LABELS } from '@/lib/appointment-status';
+import { createAppointmentToken } from '@/lib/appointment-token';
+import { createLoginToken } from '@/lib/auth';
+import { formatTime } from '@/lib/time';
+
+export type AppointmentWithRelations = Prisma.AppointmentGetPayload<{
+  include: { laboratory: true; machines: true };
+}>;
+
+// Thrown for statuses without an email of their own (in progress, completed, cancelled, no-show)
+export class StatusEmailUnavailableError extends Error {
+  constructor(public readonly status: AppointmentStatus) {
+    super(`No hay un email para las citas en estado "${STATUS_LABELS[status]}"`);
+    this.name = 'StatusEmailUnavailableError';
+  }
+}
+
+export class MailService {
+  private transporter = nodemailer.createTransport({
+    host: process.env.EMAIL_HOST || 'smtp.gmail.com', // Usar variables de entorno
+    port: Number(process.env.EMAIL_PORT) || 465,
+    secure: true, // true para 465
+    auth: {
+      user: process.env.EMAIL_SERVER_USER,
+      pass: process.env.EMAIL_SERVER_PASSWORD,
+    },
+  });
+
+  /**
+   * Picks the email matching the current status: awaiting approval, confirmed/approved or rejected;
+   * throws StatusEmailUnavailableError for any other status
+   */
+  async sendAppointmentStatus(appointment: AppointmentWithRelations, baseUrl: string) {
+    switch (appointment.status) {
+      case AppointmentStatus.PENDING:
+        return this.sendApprovalPending(appointment);
+      case AppointmentStatus.CONFIRMED:
+        return this.sendAppointmentConfirmation(appointment, baseUrl);
+      case AppointmentStatus.REJECTED:
+        return this.sendApprovalRejected(appointment);
+      default:
+        throw new StatusEmailUnavailableError(appointment.status);
+    }
+  }
+
+  /** Confirmation email with self-service cancel / reschedule links */
+  async sendAppointmentConfirmation(appointment: AppointmentWithRelations, baseUrl: string) {
+    const links = this.manageLinks(appointment.id, baseUrl);
+    const approved = appointment.requires_approval;
+
+    const html = this.layout(
+      approved ? '¡Reserva Aprobada!' : '¡Reserva Confirmada!',
+      `
+          <p>Estimado/a <strong>${appointment.user_name}</strong>,</p>
+          <p>Tu reserva ha sido ${approved ? 'aprobada' : 'confirmada exitosamente'}. A continuación encontrarás los detalles:</p>
+          ${approved && appointment.review_note ? `<p><strong>Nota del revisor:</strong> ${appointment.review_note}</p>` : ''}
+          ${this.detailsHtml(appointment)}
+          <p><strong>Importante:</strong></p>
+          <ul>
+            <li>Por favor, llega 10 minutos antes de tu horario reservado</li>
+            <li>Trae tu identificación universitaria</li>
+            <li>Si necesitas cancelar, hazlo con al menos 24 horas de anticipación</li>
+          </ul>
+          <p>
+            <a href="${links.reschedule}">Reprogramar la reserva</a> ·
+            <a href="${links.cancel}">Cancelar la reserva</a>
+          </p>
+      `,
+    );
+
+    const text = `
+Confirmación de Reserva - ${appointment.laboratory.name}
+
+Estimado/a ${appointment.user_name},
+
+Tu reserva ha sido ${approved ? 'aprobada' : 'confirmada exitosamente'}.
+${approved && appointment.review_note ? `\nNota del revisor: ${appointment.review_note}\n` : ''}
+${this.detailsText(appointment)}
+
+Si necesitas cancelar, hazlo con al menos 24 horas de anticipación:
+- Reprogramar: ${links.reschedule}
+- Cancelar: ${links.cancel}
+${this.footerText()}`;
+
+    await this.send(appointment.user_email, `Confirmación de Reserva - ${appointment.laboratory.name}`, html, text);
+  }
+
+  /** Sent when the booking lands in the approval queue */
+  async sendApprovalPending(appointment: AppointmentWithRelations) {
+    const html = this.layout(
+      'Reserva Pendiente de Aprobación',
+      `
+          <p>Estimado/a <strong>${appointment.user_name}</strong>,</p>
+          <p>Recibimos tu reserva, pero por su consumo energético debe ser aprobada por un responsable del laboratorio.</p>
+          ${appointment.approval_reason ? `<p><strong>Motivo:</strong> ${appointment.approval_reason}</p>` : ''}
+          ${this.detailsHtml(appointment)}
+          <p>Te avisaremos por correo cuando sea revisada. Los equipos quedan reservados mientras tanto.</p>
+      `,
+    );
+
+    const text = `
+Reserva Pendiente de Aprobación - ${appointment.laboratory.name}
+
+Estimado/a ${appointment.user_name},
+
+Recibimos tu reserva, pero por su consumo energético debe ser aprobada por un responsable del laboratorio.
+${appointment.approval_reason ? `Motivo: ${appointment.approval_reason}\n` : ''}
+${this.detailsText(appointment)}
+
+Te avisaremos por correo cuando sea revisada.
+${this.footerText()}`;
+
+    await this.send(appointment.user_email, `Reserva pendiente de aprobación - ${appointment.laboratory.name}`, html, text);
+  }
+
+  /** Sent when a lab manager rejects the booking; the machines are already released */
+  async sendApprovalRejected(appointment: AppointmentWithRelations) {
+    const html = this.layout(
+      'Reserva Rechazada',
+      `
+          <p>Estimado/a <strong>${appointment.user_name}</strong>,</p>
+          <p>Lamentamos informarte que tu reserva no fue aprobada.</p>
+          ${appointment.review_note ? `<p><strong>Motivo:</strong> ${appointment.review_note}</p>` : ''}
+          ${this.detailsHtml(appointment)}
+          <p>Puedes realizar una nueva reserva en otro horario.</p>
+      `,
+    );
+
+    const text = `
+Reserva Rechazada - ${appointment.laboratory.name}
+
+Estimado/a ${appointment.user_name},
+
+Lamentamos informarte que tu reserva no fue aprobada.
+${appointment.review_note ? `Motivo: ${appointment.review_note}\n` : ''}
+${this.detailsText(appointment)}
+
+Puedes realizar una nueva reserva en otro horario.
+${this.footerText()}`;
+
+    await this.send(appointment.user_email, `Reserva rechazada - ${appointment.laboratory.name}`, html, text);
+  }
+
+  /** Sent when a machine of the booking goes out of service or into maintenance (see machine_issue) */
+  async sendMachineIssue(appointment: AppointmentWithRelations, baseUrl: string) {
+    const links = this.manageLinks(appointment.id, baseUrl);
+
+    const html = this.layout(
+      'Cambio en tu Reserva',
+      `
+          <p>Estimado/a <strong>${appointment.user_name}</strong>,</p>
+          <p>Uno de los equipos de tu reserva no estará disponible en el horario reservado.</p>
+          ${appointment.machine_issue ? `<p><strong>Motivo:</strong> ${appointment.machine_issue}</p>` : ''}
+          ${this.detailsHtml(appointment)}
+          <p>Te recomendamos elegir otro horario o cancelar la reserva:</p>
+          <p>
+            <a href="${links.reschedule}">Reprogramar la reserva</a> ·
+            <a href="${links.cancel}">Cancelar la reserva</a>
+          </p>
+      `,
+    );
+
+    const text = `
+Cambio en tu Reserva - ${appointment.laboratory.name}
+
+Estimado/a ${appointment.user_name},
+
+Uno de los equipos de tu reserva no estará disponible en el horario reservado.
+${appointment.machine_issue ? `Motivo: ${appointment.machine_issue}\n` : ''}
+${this.detailsText(appointment)}
+
+Te recomendamos elegir otro horario o cancelar la reserva:
+- Reprogramar: ${links.reschedule}
+- Cancelar: ${links.cancel}
+${this.footerText()}`;
+
+    await this.send(appointment.user_email, `Equipo no disponible para tu reserva - ${appointment.laboratory.name}`, html, text);
+  }
+
+  /** sendMachineIssue for each booking; failures are logged so one bad address doesn't stop the rest */
+  async sendMachineIssues(appointments: AppointmentWithRelations[], baseUrl: string) {
+    const results = await Promise.allSettled(appointments.map((a) => this.sendMachineIssue(a, baseUrl)));
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.error(`Error al enviar el aviso de la cita ${appointments[i].id}:`, result.reason);
+      }
+    });
+  }
+
+  /** Magic link that signs the user in (valid for a few minutes) */
+  async sendLoginLink(email: string, link: string) {
+    const html = this.layout(
+      'Iniciar sesión',
+      `
+          <p>Recibimos un pedido para ingresar al sistema de reservas con este correo.</p>
+          <p><a href="${link}">Ingresar al sistema de reservas</a></p>
+          <p>El enlace vence en 15 minutos. Si no lo pediste, puedes ignorar este correo.</p>
+      `,
+    );
+
+    const text = `
+Iniciar sesión - Sistema de Reservas
+
+Recibimos un pedido para ingresar al sistema de reservas con este correo.
+
+Ingresar: ${link}
+
+El enlace vence en 15 minutos. Si no lo pediste, puedes ignorar este correo.
+${this.footerText()}`;
+
+    await this.send(email, 'Tu enlace para ingresar al Sistema de Reservas', html, text);
+  }
+
+  loginLink(email: string, baseUrl: string, next = '/') {
+    const params = new URLSearchParams({ token: createLoginToken(email), next });
+    return `${this.base(baseUrl)}/api/auth/callback?${params}`;
+  }
+
+  /** Links to the self-service pages; the token stands in for an account */
+  manageLinks(appointmentId: number, baseUrl: string) {
+    const token = createAppointmentToken(appointmentId);
+    const base = this.base(baseUrl);
+    return {
+      cancel: `${base}/appointments/${token}/cancel`,
+      reschedule: `${base}/appointments/${token}/reschedule`,
+    };
+  }
+
+  private base(baseUrl: string): string {
+    return (process.env.APP_URL || baseUrl).replace(/\/$/, '');
+  }
+
+  private async send(to: string, subject: string, html: string, text: string) {
+    await this.transporter.sendMail({
+      from: `"Sistema de Reservas" <${process.env.EMAIL_FROM || process.env.EMAIL_SERVER_USER}>`,
+      to,
+      subject,
+      html,
+      text, // Añadir versión de texto
+    });
+  }
+
+  // --- Templates ---
+
+  private formatDate(d: Date): string {
+    // calendar days are UTC midnight (see lib/time)
+    return d.toLocaleDateString('es-ES', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  }
+
+  private detailsHtml(appointment: AppointmentWithRelations): string {
+    const machinesHtmlList = appointment.machines.map((m) => `<li>${m.name}</li>`).join('');
+    return `
+          <div class="details">
+            <h3>Detalles de la Reserva</h3>
+            <p><strong>Laboratorio:</strong> ${appointment.laboratory.name}</p>
+            <p><strong>Ubicación:</strong> ${appointment.laboratory.location}</p>
+            <p><strong>Fecha:</strong> ${this.formatDate(appointment.appointment_date)}</p>
+            <p><strong>Horario:</strong> ${formatTime(appointment.start_time)} - ${formatTime(appointment.end_time)}</p>
+            <p><strong>Propósito:</strong> ${appointment.purpose}</p>
+
+            <h4 style="margin-top: 15px; margin-bottom: 5px;">Máquinas/Equipos:</h4>
+            <ul>
+              ${machinesHtmlList}
+            </ul>
+          </div>`;
+  }
+
+  private detailsText(appointment: AppointmentWithRelations): string {
+    const machinesTextList = appointment.machines.map((m) => `- ${m.name}`).join('\n');
+    return `DETALLES DE LA RESERVA:
+- Laboratorio: ${appointment.laboratory.name}
+- Ubicación: ${appointment.laboratory.location}
+- Fecha: ${this.formatDate(appointment.appointment_date)}
+- Horario: ${formatTime(appointment.start_time)} - ${formatTime(appointment.end_time)}
+- Propósito: ${appointment.purpose}
+
+MÁQUINAS/EQUIPOS:
+${machinesTextList}`;
+  }
+
+  private footerText(): string {
+    return `
+
+Sistema de Reservas de Laboratorio - Universidad
+Este es un correo automático, por favor no responder
+  `;
+  }
+
+  private layout(heading: string, content: string): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${heading}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #059669; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background-color: #f9f9f9; }
+        .details { background-color: white; padding: 15px; margin: 15px 0; border-radius: 5px; }
+        .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${heading}</h1>
+        </div>
+        <div class="content">
+          ${content}
+        </div>
+        <div class="footer">
+          <p>Sistema de Reservas de Laboratorio - Universidad</p>
+          <p>Este es un correo automático, por favor no responder</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+  }
+}
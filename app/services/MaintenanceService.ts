@@ -0,0 +1,116 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { EDITABLE_STATUSES } from '@/lib/appointment-status';
+import { assertManagesLaboratory, type Actor } from '@/lib/permissions';
+import type { MaintenanceWindowInput } from '@/lib/schemas';
+import { formatDate, formatTime, parseDateOnly, parseTime, today, zonedDateTime } from '@/lib/time';
+import type { AppointmentWithRelations } from '@/app/services/MailService';
+
+export type MaintenanceWindowData = {
+  reason: string;
+  start_date: Date;
+  end_date: Date;
+  start_time: Date | null;
+  end_time: Date | null;
+};
+
+/** Validated request body (see maintenanceWindowSchema) → column values */
+export function toMaintenanceWindowData(input: MaintenanceWindowInput): MaintenanceWindowData {
+  return {
+    reason: input.reason,
+    start_date: parseDateOnly(input.start_date),
+    end_date: parseDateOnly(input.end_date),
+    start_time: input.start_time ? parseTime(input.start_time) : null,
+    end_time: input.end_time ? parseTime(input.end_time) : null,
+  };
+}
+
+export class MaintenanceService {
+  // Windows of a machine that haven't ended yet
+  async getUpcoming(machineId: number) {
+    return prisma.maintenanceWindow.findMany({
+      where: { machine_id: machineId, end_date: { gte: today() } },
+      orderBy: [{ start_date: 'asc' }, { start_time: 'asc' }],
+    });
+  }
+
+  // Schedule maintenance and flag the bookings of the machine it overlaps; managers of the laboratory only
+  async create(machineId: number, data: MaintenanceWindowData, actor: Actor) {
+    const machine = await this.assertManagesMachine(machineId, actor);
+    return prisma.$transaction(async (tx) => {
+      const window = await tx.maintenanceWindow.create({ data: { ...data, machine_id: machineId } });
+      const affected = await this.flagAffectedAppointments(
+        tx,
+        machineId,
+        `${machine.name} tiene un mantenimiento programado: ${data.reason}`,
+        data,
+      );
+      return { window, affected };
+    });
+  }
+
+  async delete(machineId: number, id: number, actor: Actor) {
+    await this.assertManagesMachine(machineId, actor);
+    // scoped to the machine so a window can't be deleted through another machine's URL (P2025 otherwise)
+    return prisma.maintenanceWindow.delete({ where: { id, machine_id: machineId } });
+  }
+
+  /**
+   * Mark the upcoming PENDING / CONFIRMED bookings of a machine that overlap `period` (every one
+   * when omitted, e.g. the machine went out of service) with `issue`, so the booker can be told to
+   * reschedule. Bookings flagged before are left alone; returns the newly flagged ones.
+   */
+  async flagAffectedAppointments(
+    db: Prisma.TransactionClient,
+    machineId: number,
+    issue: string,
+    period?: Pick<MaintenanceWindowData, 'start_date' | 'end_date' | 'start_time' | 'end_time'>,
+  ): Promise<AppointmentWithRelations[]> {
+    const candidates = await db.appointment.findMany({
+      where: {
+        status: { in: EDITABLE_STATUSES },
+        machine_issue: null,
+        machines: { some: { id: machineId } },
+        appointment_date: period ? { gte: period.start_date, lte: period.end_date } : { gte: today() },
+      },
+      select: { id: true, appointment_date: true, start_time: true, end_time: true },
+    });
+
+    const now = Date.now();
+    const ids = candidates
+      .filter((a) => zonedDateTime(a.appointment_date, a.start_time).getTime() > now)
+      .filter((a) => !period || this.overlapsPeriod(a, period))
+      .map((a) => a.id);
+    if (ids.length === 0) return [];
+
+    await db.appointment.updateMany({
+      where: { id: { in: ids } },
+      data: { machine_issue: issue, machine_issue_at: new Date() },
+    });
+    return db.appointment.findMany({
+      where: { id: { in: ids } },
+      include: { laboratory: true, machines: true },
+      orderBy: [{ appointment_date: 'asc' }, { start_time: 'asc' }],
+    });
+  }
+
+  /** Whether the appointment's time overlaps the part of the period falling on its day */
+  private overlapsPeriod(
+    appointment: { appointment_date: Date; start_time: Date; end_time: Date },
+    period: Pick<MaintenanceWindowData, 'start_date' | 'end_date' | 'start_time' | 'end_time'>,
+  ): boolean {
+    const day = formatDate(appointment.appointment_date);
+    const from = period.start_time && formatDate(period.start_date) === day ? formatTime(period.start_time) : '00:00';
+    const to = period.end_time && formatDate(period.end_date) === day ? formatTime(period.end_time) : '24:00';
+    return formatTime(appointment.start_time) < to && formatTime(appointment.end_time) > from;
+  }
+
+  private async assertManagesMachine(machineId: number, actor: Actor) {
+    const machine = await prisma.machine.findUniqueOrThrow({
+      where: { id: machineId },
+      select: { name: true, laboratory_id: true },
+    });
+    assertManagesLaboratory(actor, machine.laboratory_id);
+    return machine;
+  }
+}
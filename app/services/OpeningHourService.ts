@@ -0,0 +1,58 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assertManagesLaboratory, type Actor } from '@/lib/permissions';
+import { formatTime, parseTime } from '@/lib/time';
+
+// Opening range of one weekday; weekdays missing from a schedule are closed
+export type DayHours = {
+  day_of_week: number; // 0=Sun .. 6=Sat
+  open_time: string;   // "HH:MM"
+  close_time: string;  // "HH:MM"
+};
+
+export type OpeningSchedule = {
+  days: DayHours[];
+  is_default: boolean; // the laboratory hasn't configured its hours yet
+};
+
+// Applies to laboratories without any OpeningHour row: Monday to Saturday, 08:00 - 18:00
+const DEFAULT_DAYS: DayHours[] = [1, 2, 3, 4, 5, 6].map((day_of_week) => ({
+  day_of_week,
+  open_time: '08:00',
+  close_time: '18:00',
+}));
+
+export class OpeningHourService {
+  async getForLaboratory(laboratoryId: number, db: Prisma.TransactionClient = prisma): Promise<OpeningSchedule> {
+    const rows = await db.openingHour.findMany({
+      where: { laboratory_id: laboratoryId },
+      orderBy: { day_of_week: 'asc' },
+    });
+    if (rows.length === 0) return { days: DEFAULT_DAYS.map((d) => ({ ...d })), is_default: true };
+    return {
+      days: rows.map((r) => ({
+        day_of_week: r.day_of_week,
+        open_time: formatTime(r.open_time),
+        close_time: formatTime(r.close_time),
+      })),
+      is_default: false,
+    };
+  }
+
+  // Replace the whole week (at least one open day, see openingHoursSchema); managers of the laboratory only
+  async replace(laboratoryId: number, days: DayHours[], actor: Actor): Promise<OpeningSchedule> {
+    assertManagesLaboratory(actor, laboratoryId);
+    await prisma.$transaction([
+      prisma.openingHour.deleteMany({ where: { laboratory_id: laboratoryId } }),
+      prisma.openingHour.createMany({
+        data: days.map((d) => ({
+          laboratory_id: laboratoryId,
+          day_of_week: d.day_of_week,
+          open_time: parseTime(d.open_time),
+          close_time: parseTime(d.close_time),
+        })),
+      }),
+    ]);
+    return this.getForLaboratory(laboratoryId);
+  }
+}
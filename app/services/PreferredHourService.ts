@@ -1,5 +1,27 @@
-import { PreferredHour } from '@prisma/client';
+import { Prisma, PreferredHour } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { parseMeterCsv, type MeterReading, type MeterSkippedLine } from '@/lib/meter-csv';
+import { assertEnergyAdmin, type Actor } from '@/lib/permissions';
+import { parseDateOnly, parseTime, weekday } from '@/lib/time';
+
+type PreferredHourData = Omit<PreferredHour, 'id' | 'created_at'>;
+
+export type PreferredHourImportResult = {
+  readings: number;   // rows of the CSV that were used
+  days: number;       // calendar days they cover
+  weekdays: number[]; // 0=Sun .. 6=Sat whose baseline was replaced
+  created: number;    // new PreferredHour rows
+  replaced: number;   // rows of those weekdays deleted
+  skipped: MeterSkippedLine[];
+};
+
+// Thrown when a row would overlap another one of the same weekday (the baseline would be counted twice)
+export class PreferredHourOverlapError extends Error {
+  constructor(public readonly overlapping: PreferredHour) {
+    super('El rango horario se superpone con otro del mismo día');
+    this.name = 'PreferredHourOverlapError';
+  }
+}
 
 export class PreferredHourService {
   async getAll() {
@@ -13,21 +35,121 @@ export class PreferredHourService {
   }
 
   // Keeping your original signature to minimize refactors
-  async create(preferredHour: Omit<PreferredHour, 'id' | 'created_at'>) {
+  async create(preferredHour: PreferredHourData, actor: Actor) {
+    assertEnergyAdmin(actor);
+    await this.assertNoOverlap(preferredHour);
     return prisma.preferredHour.create({ data: preferredHour });
   }
 
   async update(
     id: number,
-    preferredHour: Partial<Omit<PreferredHour, 'id' | 'created_at'>>
+    preferredHour: Partial<PreferredHourData>,
+    actor: Actor
   ) {
+    assertEnergyAdmin(actor);
+    const current = await prisma.preferredHour.findUnique({ where: { id } });
+    // a missing row falls through to update(), which throws P2025
+    if (current) await this.assertNoOverlap({ ...current, ...preferredHour }, id);
     return prisma.preferredHour.update({
       where: { id },
       data: preferredHour,
     });
   }
 
-  async delete(id: number) {
+  async delete(id: number, actor: Actor) {
+    assertEnergyAdmin(actor);
     return prisma.preferredHour.delete({ where: { id } });
   }
+
+  /**
+   * Rebuild the baseline from meter readings (see lib/meter-csv): the average kW of every weekday
+   * and band of `bandMinutes`. Weekdays with readings get their rows replaced by the computed bands;
+   * weekdays without readings keep theirs. The hourly load of every day is kept as history for the
+   * baseline forecast (see lib/forecast), replacing what was imported before for those days.
+   */
+  async importMeterCsv(csv: string, bandMinutes: number, actor: Actor): Promise<PreferredHourImportResult> {
+    assertEnergyAdmin(actor);
+    const { readings, skipped } = parseMeterCsv(csv);
+    const rows = this.averageByBand(readings, bandMinutes);
+    const weekdays = Array.from(new Set(rows.map((r) => r.day_of_week))).sort((a, b) => a - b);
+    const result = {
+      readings: readings.length,
+      days: new Set(readings.map((r) => r.date)).size,
+      weekdays,
+      created: rows.length,
+      replaced: 0,
+      skipped,
+    };
+    if (rows.length === 0) return result;
+
+    const history = this.hourlyLoads(readings);
+    const importedDays = Array.from(new Set(readings.map((r) => r.date))).map(parseDateOnly);
+    const [deleted] = await prisma.$transaction([
+      prisma.preferredHour.deleteMany({ where: { day_of_week: { in: weekdays } } }),
+      prisma.preferredHour.createMany({ data: rows }),
+      prisma.meterLoad.deleteMany({ where: { date: { in: importedDays } } }),
+      prisma.meterLoad.createMany({ data: history }),
+    ]);
+    return { ...result, replaced: deleted.count };
+  }
+
+  /** Average kW of every day and hour with readings */
+  private hourlyLoads(readings: MeterReading[]): Prisma.MeterLoadCreateManyInput[] {
+    const hours = new Map<string, { date: string; hour: number; sum: number; count: number }>();
+    for (const reading of readings) {
+      const hour = Number(reading.time.slice(0, 2));
+      const key = `${reading.date}-${hour}`;
+      const entry = hours.get(key) ?? { date: reading.date, hour, sum: 0, count: 0 };
+      entry.sum += reading.kw;
+      entry.count++;
+      hours.set(key, entry);
+    }
+    return Array.from(hours.values()).map((entry) => ({
+      date: parseDateOnly(entry.date),
+      hour: entry.hour,
+      power_consumption: new Prisma.Decimal((entry.sum / entry.count).toFixed(2)),
+      samples: entry.count,
+    }));
+  }
+
+  /** Average kW per weekday and band; the last band of the day ends at 23:59 (a Time can't hold 24:00) */
+  private averageByBand(readings: MeterReading[], bandMinutes: number): PreferredHourData[] {
+    const bands = new Map<string, { day_of_week: number; start: number; sum: number; count: number }>();
+    for (const reading of readings) {
+      const [hh, mm] = reading.time.split(':').map(Number);
+      const day_of_week = weekday(parseDateOnly(reading.date));
+      const start = Math.floor((hh * 60 + mm) / bandMinutes) * bandMinutes;
+      const key = `${day_of_week}-${start}`;
+      const band = bands.get(key) ?? { day_of_week, start, sum: 0, count: 0 };
+      band.sum += reading.kw;
+      band.count++;
+      bands.set(key, band);
+    }
+
+    const clock = (minutes: number) =>
+      `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    return Array.from(bands.values())
+      .sort((a, b) => a.day_of_week - b.day_of_week || a.start - b.start)
+      .map((band) => ({
+        day_of_week: band.day_of_week,
+        start_time: parseTime(clock(band.start)),
+        end_time: parseTime(clock(Math.min(band.start + bandMinutes, 24 * 60 - 1))),
+        power_consumption: new Prisma.Decimal((band.sum / band.count).toFixed(2)),
+      }));
+  }
+
+  private async assertNoOverlap(
+    preferredHour: Pick<PreferredHourData, 'day_of_week' | 'start_time' | 'end_time'>,
+    excludeId?: number
+  ) {
+    const overlapping = await prisma.preferredHour.findFirst({
+      where: {
+        day_of_week: preferredHour.day_of_week,
+        start_time: { lt: preferredHour.end_time },
+        end_time: { gt: preferredHour.start_time },
+        ...(excludeId !== undefined ? { id: { not: excludeId } } : {}),
+      },
+    });
+    if (overlapping) throw new PreferredHourOverlapError(overlapping);
+  }
 }
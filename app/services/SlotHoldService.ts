@@ -0,0 +1,149 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { AppointmentConflictError, AppointmentService } from '@/app/services/AppointmentService';
+import { AvailabilityOptions, AvailabilityService, SlotWindow, TimeSlot } from '@/app/services/AvailabilityService';
+import { ForbiddenError } from '@/lib/permissions';
+import { formatTime, parseDateOnly, parseTime } from '@/lib/time';
+
+type HoldInput = {
+  laboratory_id: number;
+  machineIds: number[];
+  appointment_date: Date;
+  start_time: Date;
+  end_time: Date;
+  purpose?: string;
+};
+
+export class SlotHoldService {
+  static readonly DEFAULT_MINUTES = 5;
+  static readonly MAX_MINUTES = 15;
+
+  // Holds of other users are never returned
+  async getById(id: number, userId: number) {
+    const hold = await prisma.slotHold.findUnique({ where: { id }, include: { laboratory: true, machines: true } });
+    if (hold && hold.user_id !== userId) throw new ForbiddenError('La reserva temporal pertenece a otro usuario');
+    return hold;
+  }
+
+  // Claim the window for `minutes`; fails like a booking (409) when it's no longer available.
+  // A user holds one window at a time: picking another slot releases the previous hold.
+  async create(input: HoldInput, userId: number, minutes = SlotHoldService.DEFAULT_MINUTES) {
+    const { machineIds, ...window } = input;
+    const forecast = await AvailabilityService.forecastBaseline([window.appointment_date]);
+    return prisma.$transaction(
+      async (tx) => {
+        await tx.slotHold.deleteMany({
+          where: { OR: [{ expires_at: { lte: new Date() } }, { user_id: userId }] },
+        });
+
+        const { slot, missing_machine_ids } = await AvailabilityService.evaluateSlot(
+          {
+            date: window.appointment_date,
+            laboratoryId: window.laboratory_id,
+            machineIds,
+            start_time: formatTime(window.start_time),
+            end_time: formatTime(window.end_time),
+            holdOwnerId: userId,
+            forecast,
+          },
+          tx,
+        );
+        if (missing_machine_ids.length > 0) {
+          throw new AppointmentConflictError(
+            'invalid_machines',
+            `Las máquinas [${missing_machine_ids.join(', ')}] no pertenecen al laboratorio`,
+            { missing_machine_ids },
+          );
+        }
+        if (!slot.available && slot.reason_code) {
+          throw new AppointmentConflictError(slot.reason_code, slot.reason ?? 'Horario no disponible');
+        }
+
+        return tx.slotHold.create({
+          data: {
+            ...window,
+            user_id: userId,
+            expires_at: new Date(Date.now() + Math.min(minutes, SlotHoldService.MAX_MINUTES) * 60_000),
+            machines: { connect: machineIds.map((id) => ({ id })) },
+          },
+          include: { laboratory: true, machines: true },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+    );
+  }
+
+  // Hold the lowest-load available slot of the range inside the window (see AppointmentService.autoSchedule)
+  async holdBest(
+    input: {
+      laboratory_id: number;
+      machineIds: number[];
+      purpose?: string;
+      search: Pick<AvailabilityOptions, 'from' | 'to' | 'duration'> & SlotWindow;
+    },
+    userId: number,
+    minutes?: number,
+  ): Promise<{ hold: Awaited<ReturnType<SlotHoldService['create']>>; slot: TimeSlot }> {
+    const { laboratory_id, machineIds, purpose, search } = input;
+    const candidates = await AvailabilityService.candidateSlots({
+      ...search,
+      laboratoryId: laboratory_id,
+      machineIds,
+      holdOwnerId: userId,
+    });
+
+    for (const slot of candidates.slice(0, AppointmentService.AUTO_SCHEDULE_ATTEMPTS)) {
+      try {
+        const hold = await this.create(
+          {
+            laboratory_id,
+            machineIds,
+            appointment_date: parseDateOnly(slot.date),
+            start_time: parseTime(slot.start_time),
+            end_time: parseTime(slot.end_time),
+            purpose,
+          },
+          userId,
+          minutes,
+        );
+        return { hold, slot };
+      } catch (error) {
+        if (!AppointmentService.isLostRace(error)) throw error;
+      }
+    }
+    throw new AppointmentConflictError('no_slot', 'No hay horarios disponibles en la ventana elegida');
+  }
+
+  // Book the held window as a regular appointment; the hold is released in the same transaction
+  async confirm(
+    id: number,
+    booker: { user_id: number; user_name: string; user_email: string; purpose?: string },
+  ) {
+    const hold = await this.getById(id, booker.user_id);
+    if (!hold) throw new AppointmentConflictError('hold_expired', 'La reserva temporal del horario expiró');
+
+    const purpose = booker.purpose ?? hold.purpose;
+    if (!purpose) throw new Error('Missing field: purpose');
+
+    return new AppointmentService().create({
+      data: {
+        laboratory_id: hold.laboratory_id,
+        user_id: booker.user_id,
+        user_name: booker.user_name,
+        user_email: booker.user_email,
+        appointment_date: hold.appointment_date,
+        start_time: hold.start_time,
+        end_time: hold.end_time,
+        purpose,
+      },
+      machineIds: hold.machines.map((m) => m.id),
+      holdId: hold.id,
+    });
+  }
+
+  async release(id: number, userId: number) {
+    const hold = await this.getById(id, userId);
+    if (!hold) return null;
+    return prisma.slotHold.delete({ where: { id } });
+  }
+}
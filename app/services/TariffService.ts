@@ -0,0 +1,64 @@
+import { TariffBand } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assertEnergyAdmin, type Actor } from '@/lib/permissions';
+import { bandsOverlap, type TariffBandLight } from '@/lib/tariff';
+import { formatTime } from '@/lib/time';
+
+type TariffBandData = Omit<TariffBand, 'id' | 'created_at'>;
+
+// Thrown when a band would share minutes with another one (those minutes would have two prices)
+export class TariffBandOverlapError extends Error {
+  constructor(public readonly overlapping: TariffBand) {
+    super('La banda horaria se superpone con otra');
+    this.name = 'TariffBandOverlapError';
+  }
+}
+
+/** Row → the shape used for cost estimates (see lib/tariff) */
+export function toTariffBandLight(band: TariffBandData): TariffBandLight {
+  return {
+    name: band.name,
+    start_time: formatTime(band.start_time),
+    end_time: formatTime(band.end_time),
+    energy_price: Number(band.energy_price),
+    demand_price: Number(band.demand_price),
+  };
+}
+
+export class TariffService {
+  async getAll() {
+    return prisma.tariffBand.findMany({ orderBy: [{ start_time: 'asc' }] });
+  }
+
+  async getById(id: number) {
+    return prisma.tariffBand.findUnique({ where: { id } });
+  }
+
+  async create(band: TariffBandData, actor: Actor) {
+    assertEnergyAdmin(actor);
+    await this.assertNoOverlap(band);
+    return prisma.tariffBand.create({ data: band });
+  }
+
+  async update(id: number, band: Partial<TariffBandData>, actor: Actor) {
+    assertEnergyAdmin(actor);
+    const current = await prisma.tariffBand.findUnique({ where: { id } });
+    // a missing row falls through to update(), which throws P2025
+    if (current) await this.assertNoOverlap({ ...current, ...band }, id);
+    return prisma.tariffBand.update({ where: { id }, data: band });
+  }
+
+  async delete(id: number, actor: Actor) {
+    assertEnergyAdmin(actor);
+    return prisma.tariffBand.delete({ where: { id } });
+  }
+
+  // Bands may run past midnight, so the check is done on the minutes of the day rather than in SQL
+  private async assertNoOverlap(band: TariffBandData, excludeId?: number) {
+    const others = await prisma.tariffBand.findMany({
+      where: excludeId !== undefined ? { id: { not: excludeId } } : {},
+    });
+    const overlapping = others.find((other) => bandsOverlap(toTariffBandLight(band), toTariffBandLight(other)));
+    if (overlapping) throw new TariffBandOverlapError(overlapping);
+  }
+}
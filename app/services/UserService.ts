@@ -0,0 +1,89 @@
+import { User, UserRole } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { assertEnergyAdmin, type Actor } from '@/lib/permissions';
+
+// Emails listed in ADMIN_EMAILS (comma separated) become energy administrators on first login
+function bootstrapAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export class UserService {
+  async getById(id: number) {
+    return prisma.user.findUnique({ where: { id } });
+  }
+
+  // Emails are stored lower-cased (see normalizeEmail in lib/auth.ts)
+  async getByEmail(email: string) {
+    return prisma.user.findUnique({ where: { email } });
+  }
+
+  /** Role and managed laboratories, as checked by lib/permissions.ts */
+  async getActor(id: number): Promise<Actor | null> {
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, role: true, managed_laboratories: { select: { id: true } } },
+    });
+    if (!user) return null;
+    return { id: user.id, role: user.role, managed_laboratory_ids: user.managed_laboratories.map((l) => l.id) };
+  }
+
+  // First login creates the account
+  async findOrCreate(email: string) {
+    return prisma.user.upsert({
+      where: { email },
+      update: {},
+      create: {
+        email,
+        role: bootstrapAdminEmails().includes(email) ? UserRole.ENERGY_ADMIN : UserRole.STUDENT,
+      },
+    });
+  }
+
+  async update(id: number, data: { name?: string }) {
+    return prisma.user.update({
+      where: { id },
+      data,
+    });
+  }
+
+  // Bookings need a name: the account's, or the one typed in the form (saved for next time)
+  async withName(user: User, name?: string) {
+    if (user.name) return user;
+    if (!name?.trim()) throw new Error('Missing field: user_name');
+    return this.update(user.id, { name: name.trim() });
+  }
+
+  // "My reservations": newest first
+  async getAppointments(userId: number) {
+    return prisma.appointment.findMany({
+      where: { user_id: userId },
+      include: { laboratory: true, machines: true },
+      orderBy: [{ appointment_date: 'desc' }, { start_time: 'desc' }],
+    });
+  }
+
+  async getAll(actor: Actor) {
+    assertEnergyAdmin(actor);
+    return prisma.user.findMany({
+      include: { managed_laboratories: { select: { id: true, name: true } } },
+      orderBy: { email: 'asc' },
+    });
+  }
+
+  // Role and, for lab managers, the laboratories they manage (replaces the current list)
+  async updateAccess(id: number, data: { role: UserRole; laboratory_ids?: number[] }, actor: Actor) {
+    assertEnergyAdmin(actor);
+    const laboratoryIds = data.role === UserRole.LAB_MANAGER ? (data.laboratory_ids ?? []) : [];
+    return prisma.user.update({
+      where: { id },
+      data: {
+        role: data.role,
+        managed_laboratories: { set: laboratoryIds.map((laboratoryId) => ({ id: laboratoryId })) },
+      },
+      include: { managed_laboratories: { select: { id: true, name: true } } },
+    });
+  }
+}
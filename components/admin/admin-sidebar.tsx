@@ -0,0 +1,82 @@
+"use client"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import { Building2, CalendarCheck, CalendarX, Clock, Cpu, Gauge, Receipt, Users, Zap } from "lucide-react"
+import type { UserRole } from "@prisma/client"
+
+// `adminOnly` items are for energy admins; lab managers see the rest (scoped to their laboratories)
+const sections = [
+  {
+    label: "Gestión",
+    items: [
+      { href: "/admin/laboratories", title: "Laboratorios", icon: Building2 },
+      { href: "/admin/machines", title: "Máquinas", icon: Cpu },
+      { href: "/admin/closures", title: "Cierres", icon: CalendarX },
+      { href: "/admin/preferred-hours", title: "Horarios de consumo", icon: Clock, adminOnly: true },
+      { href: "/admin/energy-settings", title: "Límites de consumo", icon: Gauge, adminOnly: true },
+      { href: "/admin/tariff", title: "Tarifa eléctrica", icon: Receipt, adminOnly: true },
+    ],
+  },
+  {
+    label: "Reservas",
+    items: [{ href: "/admin/approvals", title: "Aprobaciones", icon: CalendarCheck }],
+  },
+  {
+    label: "Accesos",
+    items: [{ href: "/admin/users", title: "Usuarios", icon: Users, adminOnly: true }],
+  },
+]
+
+export default function AdminSidebar({ role }: { role: UserRole }) {
+  const pathname = usePathname()
+  const visibleSections = sections
+    .map((section) => ({
+      ...section,
+      items: section.items.filter((item) => !item.adminOnly || role === "ENERGY_ADMIN"),
+    }))
+    .filter((section) => section.items.length > 0)
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <Link href="/" className="flex items-center gap-2 px-2 py-1 font-semibold">
+          <Zap className="h-5 w-5 text-primary" />
+          Energy Calendar
+        </Link>
+      </SidebarHeader>
+      <SidebarContent>
+        {visibleSections.map((section) => (
+          <SidebarGroup key={section.label}>
+            <SidebarGroupLabel>{section.label}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {section.items.map((item) => (
+                  <SidebarMenuItem key={item.href}>
+                    <SidebarMenuButton asChild isActive={pathname.startsWith(item.href)}>
+                      <Link href={item.href}>
+                        <item.icon />
+                        <span>{item.title}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        ))}
+      </SidebarContent>
+    </Sidebar>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2, Check, X, Zap } from "lucide-react"
+import { appointmentDate, appointmentTime } from "@/components/appointment-summary"
+
+type Decision = "approve" | "reject"
+
+export default function ApprovalQueue() {
+  const [appointments, setAppointments] = useState<any[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reviewing, setReviewing] = useState<{ appointment: any; decision: Decision } | null>(null)
+  const [note, setNote] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchQueue = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/admin/approvals")
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al cargar las reservas pendientes")
+      setAppointments(result.data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchQueue()
+  }, [])
+
+  const openReview = (appointment: any, decision: Decision) => {
+    setNote("")
+    setReviewing({ appointment, decision })
+  }
+
+  const handleReview = async () => {
+    if (!reviewing) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/approvals/${reviewing.appointment.id}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ decision: reviewing.decision, note: note.trim() || undefined }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al revisar la reserva")
+
+      setAppointments((current) => current.filter((a) => a.id !== reviewing.appointment.id))
+      setReviewing(null)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reservas pendientes de aprobación</CardTitle>
+        <CardDescription>
+          Reservas que superan el umbral de energía o caen en una franja de pico de consumo
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando reservas...</span>
+          </div>
+        ) : appointments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">No hay reservas pendientes de aprobación</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Horario</TableHead>
+                <TableHead>Laboratorio</TableHead>
+                <TableHead>Solicitante</TableHead>
+                <TableHead>Consumo</TableHead>
+                <TableHead>Motivo</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {appointments.map((appointment) => (
+                <TableRow key={appointment.id}>
+                  <TableCell>
+                    {new Date(`${appointmentDate(appointment)}T00:00:00`).toLocaleDateString("es-ES")}
+                  </TableCell>
+                  <TableCell>
+                    {appointmentTime(appointment.start_time)} - {appointmentTime(appointment.end_time)}
+                  </TableCell>
+                  <TableCell>
+                    <div>{appointment.laboratory?.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {appointment.machines?.map((m) => m.name).join(", ")}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{appointment.user_name}</div>
+                    <div className="text-xs text-muted-foreground">{appointment.user_email}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Zap className="h-4 w-4 text-secondary" />
+                      {Number(appointment.power_consumption ?? 0).toFixed(2).replace(".", ",")} kWh
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-xs whitespace-normal text-xs">{appointment.approval_reason}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" onClick={() => openReview(appointment, "approve")}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Aprobar
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openReview(appointment, "reject")}>
+                      <X className="h-4 w-4 mr-1" />
+                      Rechazar
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={reviewing !== null} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewing?.decision === "approve" ? "Aprobar reserva" : "Rechazar reserva"}</DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === "approve"
+                ? "La reserva quedará confirmada y se notificará al solicitante."
+                : "Los equipos se liberarán y se notificará al solicitante."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review_note">Nota para el solicitante (opcional)</Label>
+            <Textarea
+              id="review_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={reviewing?.decision === "reject" ? "Motivo del rechazo" : "Indicaciones adicionales"}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={submitting}>
+              Volver
+            </Button>
+            <Button
+              variant={reviewing?.decision === "reject" ? "destructive" : "default"}
+              onClick={handleReview}
+              disabled={submitting}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {reviewing?.decision === "approve" ? "Aprobar" : "Rechazar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,523 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Loader2, Pencil, Plus, Upload } from "lucide-react"
+import { closureSchema, type ClosureInput } from "@/lib/schemas"
+import ConfirmDelete from "@/components/admin/confirm-delete"
+import { applyServerErrors, useAdminResource } from "@/components/admin/use-admin-resource"
+
+// Dates arrive as "YYYY-MM-DDT00:00:00.000Z", times as "1970-01-01THH:MM:00.000Z"
+type Closure = {
+  id: number
+  title: string
+  laboratory_id: number | null
+  machine_id: number | null
+  start_date: string
+  end_date: string
+  start_time: string | null
+  end_time: string | null
+  ics_uid: string | null
+  laboratory: { id: number; name: string } | null
+  machine: { id: number; name: string } | null
+}
+type Laboratory = { id: number; name: string }
+type Machine = { id: number; name: string; laboratory_id: number }
+type Scope = "global" | "laboratory" | "machine"
+type ImportResult = { created: number; updated: number; skipped: { uid?: string; title?: string; reason: string }[] }
+
+const day = (value: string) => value.slice(0, 10)
+const time = (value: string | null) => (value ? value.slice(11, 16) : "")
+const formatDay = (value: string) => day(value).split("-").reverse().join("/")
+
+const scopeOf = (closure: { laboratory_id?: number | null; machine_id?: number | null }): Scope =>
+  closure.machine_id ? "machine" : closure.laboratory_id ? "laboratory" : "global"
+
+function describePeriod(closure: Closure) {
+  const from = `${formatDay(closure.start_date)}${closure.start_time ? ` ${time(closure.start_time)}` : ""}`
+  const to = `${formatDay(closure.end_date)}${closure.end_time ? ` ${time(closure.end_time)}` : ""}`
+  if (from === to) {
+    return `${formatDay(closure.start_date)} (todo el día)`
+  }
+  return `${from} - ${to}`
+}
+
+export default function ClosuresTable() {
+  const { items, loading, error, setError, refresh, save, remove } = useAdminResource<Closure>("/api/closures")
+  const { items: laboratories } = useAdminResource<Laboratory>("/api/laboratories")
+  const { items: machines } = useAdminResource<Machine>("/api/machines")
+  const [editing, setEditing] = useState<Closure | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [scope, setScope] = useState<Scope>("global")
+  const [importOpen, setImportOpen] = useState(false)
+
+  const form = useForm<ClosureInput>({
+    resolver: zodResolver(closureSchema),
+  })
+  const selectedLaboratory = form.watch("laboratory_id")
+
+  const openDialog = (closure: Closure | null) => {
+    setEditing(closure)
+    setScope(closure ? scopeOf(closure) : "global")
+    form.reset(
+      closure
+        ? {
+            title: closure.title,
+            laboratory_id: closure.laboratory_id,
+            machine_id: closure.machine_id,
+            start_date: day(closure.start_date),
+            end_date: day(closure.end_date),
+            start_time: time(closure.start_time),
+            end_time: time(closure.end_time),
+          }
+        : { title: "", laboratory_id: null, machine_id: null, start_date: "", end_date: "", start_time: "", end_time: "" },
+    )
+    setDialogOpen(true)
+  }
+
+  const changeScope = (value: Scope) => {
+    setScope(value)
+    if (value === "global") form.setValue("laboratory_id", null)
+    if (value !== "machine") form.setValue("machine_id", null)
+  }
+
+  const onSubmit = async (values: ClosureInput) => {
+    try {
+      await save(editing?.id ?? null, values)
+      setDialogOpen(false)
+    } catch (err) {
+      applyServerErrors(form, err)
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    try {
+      await remove(id)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const describeScope = (closure: Closure) => {
+    if (closure.machine) return `${closure.machine.name} (${closure.laboratory?.name ?? "máquina"})`
+    if (closure.laboratory) return closure.laboratory.name
+    return "Todos los laboratorios"
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Cierres</CardTitle>
+          <CardDescription>Feriados, recesos y cortes programados: no se ofrecen horarios de reserva en esos períodos</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-1" />
+            Importar ICS
+          </Button>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Nuevo cierre
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando cierres...</span>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Motivo</TableHead>
+                <TableHead>Alcance</TableHead>
+                <TableHead>Período</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((closure) => (
+                <TableRow key={closure.id}>
+                  <TableCell className="font-medium">{closure.title}</TableCell>
+                  <TableCell>{describeScope(closure)}</TableCell>
+                  <TableCell>{describePeriod(closure)}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => openDialog(closure)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Editar</span>
+                    </Button>
+                    <ConfirmDelete
+                      title="Eliminar cierre"
+                      description={`Se eliminará "${closure.title}" y esos horarios volverán a estar disponibles.`}
+                      onConfirm={() => handleDelete(closure.id)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+              {items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No hay cierres cargados
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar cierre" : "Nuevo cierre"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Motivo</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Feriado nacional" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="space-y-2">
+                <Label>Alcance</Label>
+                <Select value={scope} onValueChange={(value) => changeScope(value as Scope)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="global">Todos los laboratorios</SelectItem>
+                    <SelectItem value="laboratory">Un laboratorio</SelectItem>
+                    <SelectItem value="machine">Una máquina</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {scope !== "global" && (
+                <FormField
+                  control={form.control}
+                  name="laboratory_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Laboratorio</FormLabel>
+                      <Select
+                        value={field.value?.toString() ?? ""}
+                        onValueChange={(value) => {
+                          field.onChange(Number(value))
+                          form.setValue("machine_id", null)
+                        }}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecciona un laboratorio" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {laboratories.map((laboratory) => (
+                            <SelectItem key={laboratory.id} value={laboratory.id.toString()}>
+                              {laboratory.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {scope === "machine" && (
+                <FormField
+                  control={form.control}
+                  name="machine_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Máquina</FormLabel>
+                      <Select value={field.value?.toString() ?? ""} onValueChange={(value) => field.onChange(Number(value))}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecciona una máquina" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {machines
+                            .filter((machine) => machine.laboratory_id === selectedLaboratory)
+                            .map((machine) => (
+                              <SelectItem key={machine.id} value={machine.id.toString()}>
+                                {machine.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="start_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Desde</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="start_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hora de inicio</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="end_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hasta</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="end_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hora de fin</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormDescription>Sin horas, el cierre abarca los días completos</FormDescription>
+              {form.formState.errors.root && (
+                <p className="text-sm text-destructive">{form.formState.errors.root.message}</p>
+              )}
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <ImportIcsDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        laboratories={laboratories}
+        machines={machines}
+        onImported={refresh}
+      />
+    </Card>
+  )
+}
+
+/** Load the events of an .ics file (holiday calendar, recess, outages) as closures of one scope */
+function ImportIcsDialog({
+  open,
+  onOpenChange,
+  laboratories,
+  machines,
+  onImported,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  laboratories: Laboratory[]
+  machines: Machine[]
+  onImported: () => Promise<void>
+}) {
+  const [scope, setScope] = useState<Scope>("global")
+  const [laboratoryId, setLaboratoryId] = useState("")
+  const [machineId, setMachineId] = useState("")
+  const [file, setFile] = useState<File | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setFile(null)
+      setError(null)
+      setResult(null)
+    }
+    onOpenChange(value)
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+    try {
+      setImporting(true)
+      setError(null)
+      setResult(null)
+      const response = await fetch("/api/closures/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ics: await file.text(),
+          laboratory_id: scope !== "global" ? Number(laboratoryId) || null : null,
+          machine_id: scope === "machine" ? Number(machineId) || null : null,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.issues?.[0]?.message || data.error || "Error al importar el calendario")
+      setResult(data.data)
+      await onImported()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Importar calendario ICS</DialogTitle>
+          <DialogDescription>
+            Cada evento del archivo se carga como un cierre. Los eventos ya importados se actualizan; los recurrentes se omiten.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Alcance</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as Scope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="global">Todos los laboratorios</SelectItem>
+                <SelectItem value="laboratory">Un laboratorio</SelectItem>
+                <SelectItem value="machine">Una máquina</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {scope !== "global" && (
+            <div className="space-y-2">
+              <Label>Laboratorio</Label>
+              <Select
+                value={laboratoryId}
+                onValueChange={(value) => {
+                  setLaboratoryId(value)
+                  setMachineId("")
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecciona un laboratorio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {laboratories.map((laboratory) => (
+                    <SelectItem key={laboratory.id} value={laboratory.id.toString()}>
+                      {laboratory.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {scope === "machine" && (
+            <div className="space-y-2">
+              <Label>Máquina</Label>
+              <Select value={machineId} onValueChange={setMachineId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecciona una máquina" />
+                </SelectTrigger>
+                <SelectContent>
+                  {machines
+                    .filter((machine) => machine.laboratory_id.toString() === laboratoryId)
+                    .map((machine) => (
+                      <SelectItem key={machine.id} value={machine.id.toString()}>
+                        {machine.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="ics-file">Archivo</Label>
+            <Input id="ics-file" type="file" accept=".ics,text/calendar" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          </div>
+
+          {result && (
+            <Alert>
+              <AlertDescription>
+                {result.created} cierres creados, {result.updated} actualizados
+                {result.skipped.length > 0 && (
+                  <ul className="mt-2 list-disc pl-4 text-sm text-muted-foreground">
+                    {result.skipped.map((event, i) => (
+                      <li key={event.uid ?? i}>
+                        {event.title ?? event.uid ?? "Evento sin título"}: {event.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+          {error && (
+            <Alert className="border-destructive">
+              <AlertDescription className="text-destructive">{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" onClick={handleImport} disabled={!file || importing}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Importar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
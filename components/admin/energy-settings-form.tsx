@@ -0,0 +1,134 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Loader2 } from "lucide-react"
+import { energySettingsSchema, type EnergySettingsInput } from "@/lib/schemas"
+import { AdminRequestError, applyServerErrors } from "@/components/admin/use-admin-resource"
+
+const fields: { name: keyof EnergySettingsInput; label: string; description: string }[] = [
+  {
+    name: "peak_consumption_threshold",
+    label: "Umbral de pico (kW)",
+    description: "Carga máxima de la facultad en una franja; por encima el horario no se puede reservar",
+  },
+  {
+    name: "max_daily_consumption",
+    label: "Consumo diario máximo (kWh)",
+    description: "Energía total que pueden sumar las reservas de un día, entre todos los laboratorios",
+  },
+  {
+    name: "approval_energy_threshold",
+    label: "Consumo que requiere aprobación (kWh)",
+    description: "Las reservas que lo superan quedan pendientes hasta que las apruebe un responsable",
+  },
+  {
+    name: "approval_peak_window",
+    label: "Franja pico de la facultad (kW)",
+    description: "Las reservas en horarios de consumo base iguales o superiores requieren aprobación",
+  },
+]
+
+export default function EnergySettingsForm() {
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const form = useForm<EnergySettingsInput>({
+    resolver: zodResolver(energySettingsSchema),
+  })
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/settings/energy")
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Error al cargar los límites de consumo")
+        form.reset(result.data)
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchSettings()
+  }, [form])
+
+  const onSubmit = async (values: EnergySettingsInput) => {
+    setSaved(false)
+    try {
+      const response = await fetch("/api/settings/energy", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(values),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new AdminRequestError(result.error || "Error al guardar los límites", result.issues)
+      form.reset(result.data)
+      setSaved(true)
+    } catch (err) {
+      applyServerErrors(form, err)
+    }
+  }
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle>Límites de consumo</CardTitle>
+        <CardDescription>Se aplican a todos los laboratorios al calcular la disponibilidad y las aprobaciones</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando límites...</span>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {fields.map(({ name, label, description }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormDescription>{description}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              {form.formState.errors.root && (
+                <p className="text-sm text-destructive">{form.formState.errors.root.message}</p>
+              )}
+              {saved && <p className="text-sm text-muted-foreground">Límites actualizados</p>}
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
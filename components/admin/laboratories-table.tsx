@@ -0,0 +1,174 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Clock, Loader2, Pencil, Plus } from "lucide-react"
+import { laboratorySchema, type LaboratoryInput } from "@/lib/schemas"
+import ConfirmDelete from "@/components/admin/confirm-delete"
+import OpeningHoursDialog from "@/components/admin/opening-hours-dialog"
+import { applyServerErrors, useAdminResource } from "@/components/admin/use-admin-resource"
+
+type Laboratory = LaboratoryInput & { id: number }
+
+const emptyLaboratory: LaboratoryInput = { name: "", location: "" }
+
+export default function LaboratoriesTable() {
+  const { items, loading, error, setError, save, remove } = useAdminResource<Laboratory>("/api/laboratories")
+  const [editing, setEditing] = useState<Laboratory | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [scheduling, setScheduling] = useState<Laboratory | null>(null)
+
+  const form = useForm<LaboratoryInput>({
+    resolver: zodResolver(laboratorySchema),
+    defaultValues: emptyLaboratory,
+  })
+
+  const openDialog = (laboratory: Laboratory | null) => {
+    setEditing(laboratory)
+    form.reset(laboratory ? { name: laboratory.name, location: laboratory.location } : emptyLaboratory)
+    setDialogOpen(true)
+  }
+
+  const onSubmit = async (values: LaboratoryInput) => {
+    try {
+      await save(editing?.id ?? null, values)
+      setDialogOpen(false)
+    } catch (err) {
+      applyServerErrors(form, err)
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    try {
+      await remove(id)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Laboratorios</CardTitle>
+          <CardDescription>Laboratorios donde se pueden reservar equipos</CardDescription>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Nuevo laboratorio
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando laboratorios...</span>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Ubicación</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((laboratory) => (
+                <TableRow key={laboratory.id}>
+                  <TableCell className="font-medium">{laboratory.name}</TableCell>
+                  <TableCell>{laboratory.location}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => setScheduling(laboratory)}>
+                      <Clock className="h-4 w-4" />
+                      <span className="sr-only">Horario</span>
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openDialog(laboratory)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Editar</span>
+                    </Button>
+                    <ConfirmDelete
+                      title="Eliminar laboratorio"
+                      description={`Se eliminará "${laboratory.name}". No es posible si tiene máquinas o citas asociadas.`}
+                      onConfirm={() => handleDelete(laboratory.id)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+              {items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground">
+                    No hay laboratorios cargados
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar laboratorio" : "Nuevo laboratorio"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nombre</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Laboratorio de Física" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ubicación</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Edificio A - Planta 2" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {form.formState.errors.root && (
+                <p className="text-sm text-destructive">{form.formState.errors.root.message}</p>
+              )}
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <OpeningHoursDialog laboratory={scheduling} onOpenChange={(open) => !open && setScheduling(null)} />
+    </Card>
+  )
+}
@@ -0,0 +1,243 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Separator } from "@/components/ui/separator"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2, Plus } from "lucide-react"
+import ConfirmDelete from "@/components/admin/confirm-delete"
+
+type Machine = { id: number; name: string; out_of_service: boolean; out_of_service_reason: string | null }
+// Dates arrive as "YYYY-MM-DDT00:00:00.000Z", times as "1970-01-01THH:MM:00.000Z"
+type MaintenanceWindow = {
+  id: number
+  reason: string
+  start_date: string
+  end_date: string
+  start_time: string | null
+  end_time: string | null
+}
+
+const EMPTY_WINDOW = { reason: "", start_date: "", end_date: "", start_time: "", end_time: "" }
+
+const formatDay = (value: string) => value.slice(0, 10).split("-").reverse().join("/")
+
+function describeWindow(window: MaintenanceWindow) {
+  const from = `${formatDay(window.start_date)}${window.start_time ? ` ${window.start_time.slice(11, 16)}` : ""}`
+  const to = `${formatDay(window.end_date)}${window.end_time ? ` ${window.end_time.slice(11, 16)}` : ""}`
+  return from === to ? `${from} (todo el día)` : `${from} - ${to}`
+}
+
+const flaggedNotice = (ids: number[]) =>
+  ids.length === 0
+    ? null
+    : `${ids.length === 1 ? "Se marcó 1 reserva afectada" : `Se marcaron ${ids.length} reservas afectadas`} y se avisó por correo a quienes reservaron.`
+
+/** Out-of-service flag and scheduled maintenance of a machine; both keep it from being booked */
+export default function MachineMaintenanceDialog({
+  machine,
+  onOpenChange,
+  onSaved,
+}: {
+  machine: Machine | null
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}) {
+  const [outOfService, setOutOfService] = useState(false)
+  const [outOfServiceReason, setOutOfServiceReason] = useState("")
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([])
+  const [draft, setDraft] = useState(EMPTY_WINDOW)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [adding, setAdding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!machine) return
+    setOutOfService(machine.out_of_service)
+    setOutOfServiceReason(machine.out_of_service_reason ?? "")
+    setDraft(EMPTY_WINDOW)
+    setError(null)
+    setNotice(null)
+    const fetchWindows = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/machines/${machine.id}/maintenance`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Error al cargar los mantenimientos")
+        setWindows(result.data)
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchWindows()
+  }, [machine])
+
+  const handleSaveStatus = async () => {
+    if (!machine) return
+    try {
+      setSaving(true)
+      setError(null)
+      setNotice(null)
+      const response = await fetch(`/api/machines/${machine.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ out_of_service: outOfService, out_of_service_reason: outOfService ? outOfServiceReason : null }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.issues?.[0]?.message || result.error || "Error al guardar el estado")
+      setNotice(flaggedNotice(result.meta.flagged_appointment_ids) ?? "Estado guardado")
+      onSaved()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddWindow = async () => {
+    if (!machine) return
+    try {
+      setAdding(true)
+      setError(null)
+      setNotice(null)
+      const response = await fetch(`/api/machines/${machine.id}/maintenance`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(draft),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.issues?.[0]?.message || result.error || "Error al programar el mantenimiento")
+      setWindows((current) =>
+        [...current, result.data].sort((a, b) => (a.start_date + (a.start_time ?? "")).localeCompare(b.start_date + (b.start_time ?? ""))),
+      )
+      setDraft(EMPTY_WINDOW)
+      setNotice(flaggedNotice(result.meta.flagged_appointment_ids) ?? "Mantenimiento programado")
+      onSaved()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const handleDeleteWindow = async (id: number) => {
+    if (!machine) return
+    const response = await fetch(`/api/machines/${machine.id}/maintenance/${id}`, { method: "DELETE" })
+    if (!response.ok) {
+      const result = await response.json()
+      setError(result.error || "Error al eliminar el mantenimiento")
+      return
+    }
+    setWindows((current) => current.filter((w) => w.id !== id))
+    onSaved()
+  }
+
+  const updateDraft = (changes: Partial<typeof EMPTY_WINDOW>) => setDraft((current) => ({ ...current, ...changes }))
+
+  return (
+    <Dialog open={machine !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Disponibilidad de {machine?.name}</DialogTitle>
+          <DialogDescription>
+            No se ofrecen horarios con la máquina mientras está fuera de servicio o en mantenimiento. Las reservas
+            afectadas se marcan y se avisa por correo a quienes reservaron.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="out-of-service">Fuera de servicio</Label>
+            <Switch id="out-of-service" checked={outOfService} onCheckedChange={setOutOfService} />
+          </div>
+          {outOfService && (
+            <Input
+              placeholder="Motivo (por ejemplo, lámpara rota)"
+              value={outOfServiceReason}
+              onChange={(e) => setOutOfServiceReason(e.target.value)}
+            />
+          )}
+          <div className="flex justify-end">
+            <Button type="button" size="sm" onClick={handleSaveStatus} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar estado
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <Label>Mantenimientos programados</Label>
+          {loading ? (
+            <div className="flex items-center justify-center p-4">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span className="ml-2">Cargando mantenimientos...</span>
+            </div>
+          ) : windows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hay mantenimientos programados</p>
+          ) : (
+            <ul className="space-y-2">
+              {windows.map((window) => (
+                <li key={window.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                  <div>
+                    <div className="font-medium">{window.reason}</div>
+                    <div className="text-muted-foreground">{describeWindow(window)}</div>
+                  </div>
+                  <ConfirmDelete
+                    title="Eliminar mantenimiento"
+                    description={`Se eliminará "${window.reason}". Las reservas ya marcadas siguen marcadas hasta que se reprogramen.`}
+                    onConfirm={() => handleDeleteWindow(window.id)}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              className="col-span-2"
+              placeholder="Motivo (por ejemplo, calibración)"
+              value={draft.reason}
+              onChange={(e) => updateDraft({ reason: e.target.value })}
+            />
+            <Input type="date" aria-label="Desde" value={draft.start_date} onChange={(e) => updateDraft({ start_date: e.target.value })} />
+            <Input type="time" aria-label="Hora de inicio" value={draft.start_time} onChange={(e) => updateDraft({ start_time: e.target.value })} />
+            <Input type="date" aria-label="Hasta" value={draft.end_date} onChange={(e) => updateDraft({ end_date: e.target.value })} />
+            <Input type="time" aria-label="Hora de fin" value={draft.end_time} onChange={(e) => updateDraft({ end_time: e.target.value })} />
+          </div>
+          <p className="text-xs text-muted-foreground">Sin horas, el mantenimiento abarca los días completos</p>
+          <div className="flex justify-end">
+            <Button type="button" size="sm" variant="outline" onClick={handleAddWindow} disabled={adding}>
+              {adding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+              Programar mantenimiento
+            </Button>
+          </div>
+        </div>
+
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,275 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Badge } from "@/components/ui/badge"
+import { Activity, Loader2, Pencil, Plus, Wrench, Zap } from "lucide-react"
+import { machineSchema, type MachineInput } from "@/lib/schemas"
+import ConfirmDelete from "@/components/admin/confirm-delete"
+import MachineMaintenanceDialog from "@/components/admin/machine-maintenance-dialog"
+import PowerProfileDialog from "@/components/admin/power-profile-dialog"
+import type { PowerProfile } from "@/lib/power-profile"
+import { applyServerErrors, useAdminResource } from "@/components/admin/use-admin-resource"
+
+// power_consumption arrives as a Decimal string
+type Machine = {
+  id: number
+  name: string
+  power_consumption: string
+  power_profile: PowerProfile | null
+  laboratory_id: number
+  out_of_service: boolean
+  out_of_service_reason: string | null
+  maintenance_windows: { id: number }[] // upcoming ones
+}
+type Laboratory = { id: number; name: string }
+
+export default function MachinesTable() {
+  const { items, loading, error, setError, refresh, save, remove } = useAdminResource<Machine>("/api/machines")
+  const { items: laboratories } = useAdminResource<Laboratory>("/api/laboratories")
+  const [editing, setEditing] = useState<Machine | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [laboratoryFilter, setLaboratoryFilter] = useState("all")
+  const [maintaining, setMaintaining] = useState<Machine | null>(null)
+  const [profiling, setProfiling] = useState<Machine | null>(null)
+
+  const form = useForm<MachineInput>({
+    resolver: zodResolver(machineSchema),
+  })
+
+  const openDialog = (machine: Machine | null) => {
+    setEditing(machine)
+    form.reset(
+      machine
+        ? { name: machine.name, power_consumption: Number(machine.power_consumption), laboratory_id: machine.laboratory_id }
+        : { name: "", power_consumption: undefined, laboratory_id: undefined },
+    )
+    setDialogOpen(true)
+  }
+
+  const onSubmit = async (values: MachineInput) => {
+    try {
+      await save(editing?.id ?? null, values)
+      setDialogOpen(false)
+    } catch (err) {
+      applyServerErrors(form, err)
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    try {
+      await remove(id)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const laboratoryName = (id: number) => laboratories.find((l) => l.id === id)?.name ?? `#${id}`
+  const visibleMachines =
+    laboratoryFilter === "all" ? items : items.filter((m) => m.laboratory_id.toString() === laboratoryFilter)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Máquinas</CardTitle>
+          <CardDescription>Equipos reservables y su consumo nominal</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={laboratoryFilter} onValueChange={setLaboratoryFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Filtrar por laboratorio" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos los laboratorios</SelectItem>
+              {laboratories.map((laboratory) => (
+                <SelectItem key={laboratory.id} value={laboratory.id.toString()}>
+                  {laboratory.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Nueva máquina
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando máquinas...</span>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Laboratorio</TableHead>
+                <TableHead>Consumo</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleMachines.map((machine) => (
+                <TableRow key={machine.id}>
+                  <TableCell className="font-medium">{machine.name}</TableCell>
+                  <TableCell>{laboratoryName(machine.laboratory_id)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Zap className="h-4 w-4 text-secondary" />
+                      {Number(machine.power_consumption).toFixed(2).replace(".", ",")} kW
+                      {machine.power_profile && (
+                        <Badge variant="outline" className="ml-1">
+                          {machine.power_profile.kind === "phases" ? "por fases" : "curva"}
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {machine.out_of_service ? (
+                      <Badge variant="destructive" title={machine.out_of_service_reason ?? undefined}>
+                        Fuera de servicio
+                      </Badge>
+                    ) : machine.maintenance_windows.length > 0 ? (
+                      <Badge variant="outline">Mantenimiento programado</Badge>
+                    ) : (
+                      <Badge variant="secondary">Disponible</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => setProfiling(machine)}>
+                      <Activity className="h-4 w-4" />
+                      <span className="sr-only">Perfil de consumo</span>
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setMaintaining(machine)}>
+                      <Wrench className="h-4 w-4" />
+                      <span className="sr-only">Disponibilidad</span>
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openDialog(machine)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Editar</span>
+                    </Button>
+                    <ConfirmDelete
+                      title="Eliminar máquina"
+                      description={`Se eliminará "${machine.name}". No es posible si tiene citas asociadas.`}
+                      onConfirm={() => handleDelete(machine.id)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+              {visibleMachines.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No hay máquinas cargadas
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <MachineMaintenanceDialog
+        machine={maintaining}
+        onOpenChange={(open) => !open && setMaintaining(null)}
+        onSaved={refresh}
+      />
+
+      <PowerProfileDialog
+        machine={profiling}
+        onOpenChange={(open) => !open && setProfiling(null)}
+        onSaved={refresh}
+      />
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar máquina" : "Nueva máquina"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nombre</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Osciloscopio" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="laboratory_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Laboratorio</FormLabel>
+                    <Select value={field.value?.toString() ?? ""} onValueChange={(value) => field.onChange(Number(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecciona un laboratorio" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {laboratories.map((laboratory) => (
+                          <SelectItem key={laboratory.id} value={laboratory.id.toString()}>
+                            {laboratory.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="power_consumption"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Consumo (kW)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>Potencia nominal del equipo, hasta dos decimales</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {form.formState.errors.root && (
+                <p className="text-sm text-destructive">{form.formState.errors.root.message}</p>
+              )}
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
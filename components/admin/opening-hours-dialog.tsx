@@ -0,0 +1,160 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+
+// Monday first, as printed on the lab doors; values are 0=Sun .. 6=Sat
+const WEEK = [
+  { day: 1, name: "Lunes" },
+  { day: 2, name: "Martes" },
+  { day: 3, name: "Miércoles" },
+  { day: 4, name: "Jueves" },
+  { day: 5, name: "Viernes" },
+  { day: 6, name: "Sábado" },
+  { day: 0, name: "Domingo" },
+]
+
+type DayHours = { day_of_week: number; open_time: string; close_time: string }
+type Row = { open: boolean; open_time: string; close_time: string }
+
+const toRows = (days: DayHours[]): Record<number, Row> =>
+  Object.fromEntries(
+    WEEK.map(({ day }) => {
+      const hours = days.find((d) => d.day_of_week === day)
+      return [day, { open: !!hours, open_time: hours?.open_time ?? "08:00", close_time: hours?.close_time ?? "18:00" }]
+    }),
+  )
+
+/** Weekly opening hours of a laboratory; slots are only offered inside them */
+export default function OpeningHoursDialog({
+  laboratory,
+  onOpenChange,
+}: {
+  laboratory: { id: number; name?: string } | null
+  onOpenChange: (open: boolean) => void
+}) {
+  const [rows, setRows] = useState<Record<number, Row>>(toRows([]))
+  const [isDefault, setIsDefault] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!laboratory) return
+    const fetchHours = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await fetch(`/api/laboratories/${laboratory.id}/opening-hours`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Error al cargar el horario")
+        setRows(toRows(result.data.days))
+        setIsDefault(result.data.is_default)
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchHours()
+  }, [laboratory])
+
+  const update = (day: number, changes: Partial<Row>) => setRows((current) => ({ ...current, [day]: { ...current[day], ...changes } }))
+
+  const handleSave = async () => {
+    if (!laboratory) return
+    try {
+      setSaving(true)
+      setError(null)
+      const days = WEEK.filter(({ day }) => rows[day].open).map(({ day }) => ({
+        day_of_week: day,
+        open_time: rows[day].open_time,
+        close_time: rows[day].close_time,
+      }))
+      const response = await fetch(`/api/laboratories/${laboratory.id}/opening-hours`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ days }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.issues?.[0]?.message || result.error || "Error al guardar el horario")
+      onOpenChange(false)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={laboratory !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Horario de {laboratory?.name}</DialogTitle>
+          <DialogDescription>
+            {isDefault
+              ? "Todavía no se configuró: se usa el horario por defecto (lunes a sábado, 08:00 - 18:00)."
+              : "Solo se ofrecen horarios de reserva dentro de este horario."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando horario...</span>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {WEEK.map(({ day, name }) => (
+              <div key={day} className="flex items-center gap-3">
+                <label className="flex w-32 items-center gap-2 text-sm">
+                  <Checkbox checked={rows[day].open} onCheckedChange={(checked) => update(day, { open: checked === true })} />
+                  {name}
+                </label>
+                {rows[day].open ? (
+                  <>
+                    <Input
+                      type="time"
+                      value={rows[day].open_time}
+                      onChange={(e) => update(day, { open_time: e.target.value })}
+                      aria-label={`Apertura ${name}`}
+                    />
+                    <span className="text-muted-foreground">-</span>
+                    <Input
+                      type="time"
+                      value={rows[day].close_time}
+                      onChange={(e) => update(day, { close_time: e.target.value })}
+                      aria-label={`Cierre ${name}`}
+                    />
+                  </>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Cerrado</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button type="button" onClick={handleSave} disabled={saving || loading}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,212 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { combinedSegments, energyKwh, peakKw, type PowerProfile } from "@/lib/power-profile"
+
+type Machine = { id: number; name: string; power_consumption: string; power_profile: PowerProfile | null }
+type Kind = "none" | "phases" | "curve"
+// Inputs are kept as typed; empty warm-up / cool-down minutes mean the phase is skipped
+type Draft = {
+  kind: Kind
+  warm_minutes: string
+  warm_kw: string
+  steady_kw: string
+  cool_minutes: string
+  cool_kw: string
+  interval_minutes: string
+  samples: string // "6; 4,5; 2"
+}
+
+// Length of the run used for the preview, like the default booking duration
+const PREVIEW_MINUTES = 120
+
+const toDraft = (machine: Machine): Draft => {
+  const profile = machine.power_profile
+  return {
+    kind: profile?.kind ?? "none",
+    warm_minutes: profile?.kind === "phases" && profile.warm_up ? String(profile.warm_up.minutes) : "",
+    warm_kw: profile?.kind === "phases" && profile.warm_up ? String(profile.warm_up.kw) : "",
+    steady_kw: profile?.kind === "phases" ? String(profile.steady_kw) : String(Number(machine.power_consumption)),
+    cool_minutes: profile?.kind === "phases" && profile.cool_down ? String(profile.cool_down.minutes) : "",
+    cool_kw: profile?.kind === "phases" && profile.cool_down ? String(profile.cool_down.kw) : "",
+    interval_minutes: profile?.kind === "curve" ? String(profile.interval_minutes) : "15",
+    samples: profile?.kind === "curve" ? profile.samples_kw.join("; ") : "",
+  }
+}
+
+const number = (value: string) => Number(value.replace(",", "."))
+
+const toProfile = (draft: Draft): PowerProfile | null => {
+  if (draft.kind === "none") return null
+  if (draft.kind === "curve") {
+    return {
+      kind: "curve",
+      interval_minutes: number(draft.interval_minutes),
+      samples_kw: draft.samples
+        .split(";")
+        .map((sample) => sample.trim())
+        .filter(Boolean)
+        .map(number),
+    }
+  }
+  const phase = (minutes: string, kw: string) => (minutes.trim() ? { minutes: number(minutes), kw: number(kw || "0") } : null)
+  return {
+    kind: "phases",
+    warm_up: phase(draft.warm_minutes, draft.warm_kw),
+    steady_kw: number(draft.steady_kw),
+    cool_down: phase(draft.cool_minutes, draft.cool_kw),
+  }
+}
+
+/** How a machine draws power over a booking: constant, by phases or following a sampled curve */
+export default function PowerProfileDialog({
+  machine,
+  onOpenChange,
+  onSaved,
+}: {
+  machine: Machine | null
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}) {
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!machine) return
+    setDraft(toDraft(machine))
+    setError(null)
+  }, [machine])
+
+  const update = (changes: Partial<Draft>) => setDraft((current) => current && { ...current, ...changes })
+
+  const profile = draft ? toProfile(draft) : null
+  const preview =
+    machine && draft
+      ? combinedSegments([{ power_consumption: Number(machine.power_consumption), power_profile: profile }], PREVIEW_MINUTES)
+      : []
+  const previewValid = preview.length > 0 && preview.every((segment) => Number.isFinite(segment.kw))
+
+  const handleSave = async () => {
+    if (!machine || !draft) return
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch(`/api/machines/${machine.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ power_profile: profile }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.issues?.[0]?.message || result.error || "Error al guardar el perfil")
+      onSaved()
+      onOpenChange(false)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={machine !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Perfil de consumo de {machine?.name}</DialogTitle>
+          <DialogDescription>
+            Se usa para estimar la carga de cada horario y la energía de las reservas. Sin perfil, la máquina consume
+            su potencia nominal durante toda la reserva.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Tipo de perfil</Label>
+              <Select value={draft.kind} onValueChange={(value) => update({ kind: value as Kind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Constante ({Number(machine?.power_consumption)} kW)</SelectItem>
+                  <SelectItem value="phases">Por fases (calentamiento, régimen, enfriamiento)</SelectItem>
+                  <SelectItem value="curve">Curva medida</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draft.kind === "phases" && (
+              <div className="grid grid-cols-3 items-center gap-2 text-sm">
+                <span />
+                <span className="text-muted-foreground">Minutos</span>
+                <span className="text-muted-foreground">kW</span>
+                <span>Calentamiento</span>
+                <Input type="number" min="0" value={draft.warm_minutes} onChange={(e) => update({ warm_minutes: e.target.value })} />
+                <Input type="number" min="0" step="0.01" value={draft.warm_kw} onChange={(e) => update({ warm_kw: e.target.value })} />
+                <span>Régimen</span>
+                <span className="text-muted-foreground">el resto</span>
+                <Input type="number" min="0" step="0.01" value={draft.steady_kw} onChange={(e) => update({ steady_kw: e.target.value })} />
+                <span>Enfriamiento</span>
+                <Input type="number" min="0" value={draft.cool_minutes} onChange={(e) => update({ cool_minutes: e.target.value })} />
+                <Input type="number" min="0" step="0.01" value={draft.cool_kw} onChange={(e) => update({ cool_kw: e.target.value })} />
+              </div>
+            )}
+
+            {draft.kind === "curve" && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="interval">Intervalo (minutos)</Label>
+                    <Input
+                      id="interval"
+                      type="number"
+                      min="1"
+                      value={draft.interval_minutes}
+                      onChange={(e) => update({ interval_minutes: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="samples">Muestras (kW, separadas por ";")</Label>
+                  <Input id="samples" placeholder="6; 4,5; 2" value={draft.samples} onChange={(e) => update({ samples: e.target.value })} />
+                  <p className="text-xs text-muted-foreground">
+                    Una muestra por intervalo desde el inicio de la reserva; la última se mantiene hasta el final.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {previewValid && (
+              <p className="text-sm text-muted-foreground">
+                En una reserva de {PREVIEW_MINUTES / 60} h: {energyKwh(preview).toFixed(2).replace(".", ",")} kWh, pico de{" "}
+                {peakKw(preview).toFixed(2).replace(".", ",")} kW
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button type="button" onClick={handleSave} disabled={saving || !draft}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,368 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Loader2, Pencil, Plus, Upload, Zap } from "lucide-react"
+import { preferredHourSchema, type PreferredHourInput } from "@/lib/schemas"
+import { appointmentTime } from "@/components/appointment-summary"
+import ConfirmDelete from "@/components/admin/confirm-delete"
+import { applyServerErrors, useAdminResource } from "@/components/admin/use-admin-resource"
+
+// Times arrive as ISO strings (@db.Time), power_consumption as a Decimal string
+type PreferredHour = { id: number; day_of_week: number; start_time: string; end_time: string; power_consumption: string }
+type ImportResult = {
+  readings: number
+  days: number
+  weekdays: number[]
+  created: number
+  replaced: number
+  skipped: { line: number; reason: string }[]
+}
+
+const BAND_OPTIONS = [15, 30, 60, 120]
+
+// day_of_week follows Date.getDay(): 0 = domingo
+const DAY_NAMES = ["Domingo", "Lunes", "Martes", "Miércoles", "Jueves", "Viernes", "Sábado"]
+
+export default function PreferredHoursTable() {
+  const { items, loading, error, setError, refresh, save, remove } = useAdminResource<PreferredHour>("/api/preferred-hours")
+  const [editing, setEditing] = useState<PreferredHour | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+
+  const form = useForm<PreferredHourInput>({
+    resolver: zodResolver(preferredHourSchema),
+  })
+
+  const openDialog = (row: PreferredHour | null) => {
+    setEditing(row)
+    form.reset(
+      row
+        ? {
+            day_of_week: row.day_of_week,
+            start_time: appointmentTime(row.start_time),
+            end_time: appointmentTime(row.end_time),
+            power_consumption: Number(row.power_consumption),
+          }
+        : { day_of_week: 1, start_time: "08:00", end_time: "10:00", power_consumption: undefined },
+    )
+    setDialogOpen(true)
+  }
+
+  const onSubmit = async (values: PreferredHourInput) => {
+    try {
+      await save(editing?.id ?? null, values)
+      setDialogOpen(false)
+    } catch (err) {
+      applyServerErrors(form, err)
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    try {
+      await remove(id)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Horarios de consumo</CardTitle>
+          <CardDescription>
+            Consumo base de la facultad por día y franja horaria, usado para calcular la disponibilidad
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-1" />
+            Importar lecturas
+          </Button>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Nueva franja
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando horarios...</span>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Día</TableHead>
+                <TableHead>Horario</TableHead>
+                <TableHead>Consumo base</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell className="font-medium">{DAY_NAMES[row.day_of_week]}</TableCell>
+                  <TableCell>
+                    {appointmentTime(row.start_time)} - {appointmentTime(row.end_time)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Zap className="h-4 w-4 text-secondary" />
+                      {Number(row.power_consumption).toFixed(2).replace(".", ",")} kW
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => openDialog(row)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Editar</span>
+                    </Button>
+                    <ConfirmDelete
+                      title="Eliminar franja"
+                      description={`Se eliminará la franja del ${DAY_NAMES[row.day_of_week].toLowerCase()} ${appointmentTime(row.start_time)} - ${appointmentTime(row.end_time)}.`}
+                      onConfirm={() => handleDelete(row.id)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+              {items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No hay franjas de consumo cargadas
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar franja" : "Nueva franja"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="day_of_week"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Día</FormLabel>
+                    <Select value={field.value?.toString() ?? ""} onValueChange={(value) => field.onChange(Number(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecciona un día" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DAY_NAMES.map((name, day) => (
+                          <SelectItem key={day} value={day.toString()}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="start_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Inicio</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="end_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fin</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="power_consumption"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Consumo base (kW)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>Las franjas de un mismo día no pueden superponerse</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {form.formState.errors.root && (
+                <p className="text-sm text-destructive">{form.formState.errors.root.message}</p>
+              )}
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <ImportReadingsDialog open={importOpen} onOpenChange={setImportOpen} onImported={refresh} />
+    </Card>
+  )
+}
+
+/** Rebuild the baseline from a CSV of meter readings (timestamp, kW) */
+function ImportReadingsDialog({
+  open,
+  onOpenChange,
+  onImported,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => Promise<void>
+}) {
+  const [bandMinutes, setBandMinutes] = useState("60")
+  const [file, setFile] = useState<File | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setFile(null)
+      setError(null)
+      setResult(null)
+    }
+    onOpenChange(value)
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+    try {
+      setImporting(true)
+      setError(null)
+      setResult(null)
+      const response = await fetch("/api/preferred-hours/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ csv: await file.text(), band_minutes: Number(bandMinutes) }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.issues?.[0]?.message || data.error || "Error al importar las lecturas")
+      setResult(data.data)
+      await onImported()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Importar lecturas del medidor</DialogTitle>
+          <DialogDescription>
+            CSV con una lectura por línea (fecha y hora, kW). Se calcula el consumo promedio de cada día de la semana y
+            franja, y reemplaza las franjas de los días que tienen lecturas. Las lecturas se guardan como historial
+            para pronosticar el consumo de cada fecha.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Duración de cada franja</Label>
+            <Select value={bandMinutes} onValueChange={setBandMinutes}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BAND_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={minutes.toString()}>
+                    {minutes < 60 ? `${minutes} minutos` : `${minutes / 60} h`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="readings-file">Archivo</Label>
+            <Input id="readings-file" type="file" accept=".csv,text/csv" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          </div>
+
+          {result && (
+            <Alert>
+              <AlertDescription>
+                {result.readings} lecturas de {result.days} días: {result.created} franjas creadas
+                {result.weekdays.length > 0 && ` (${result.weekdays.map((d) => DAY_NAMES[d]).join(", ")})`},{" "}
+                {result.replaced} reemplazadas
+                {result.skipped.length > 0 && (
+                  <ul className="mt-2 list-disc pl-4 text-sm text-muted-foreground">
+                    {result.skipped.slice(0, 10).map((line) => (
+                      <li key={line.line}>
+                        Línea {line.line}: {line.reason}
+                      </li>
+                    ))}
+                    {result.skipped.length > 10 && <li>y {result.skipped.length - 10} líneas más</li>}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+          {error && (
+            <Alert className="border-destructive">
+              <AlertDescription className="text-destructive">{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" onClick={handleImport} disabled={!file || importing}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Importar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
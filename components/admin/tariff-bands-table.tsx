@@ -0,0 +1,234 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Loader2, Pencil, Plus } from "lucide-react"
+import { tariffBandSchema, type TariffBandInput } from "@/lib/schemas"
+import { appointmentTime } from "@/components/appointment-summary"
+import ConfirmDelete from "@/components/admin/confirm-delete"
+import { applyServerErrors, useAdminResource } from "@/components/admin/use-admin-resource"
+
+// Times arrive as ISO strings (@db.Time), prices as Decimal strings
+type TariffBand = { id: number; name: string; start_time: string; end_time: string; energy_price: string; demand_price: string }
+
+const formatPrice = (value: string) =>
+  Number(value).toLocaleString("es-AR", { style: "currency", currency: "ARS", maximumFractionDigits: 4 })
+
+export default function TariffBandsTable() {
+  const { items, loading, error, setError, save, remove } = useAdminResource<TariffBand>("/api/tariff-bands")
+  const [editing, setEditing] = useState<TariffBand | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  const form = useForm<TariffBandInput>({
+    resolver: zodResolver(tariffBandSchema),
+  })
+
+  const openDialog = (row: TariffBand | null) => {
+    setEditing(row)
+    form.reset(
+      row
+        ? {
+            name: row.name,
+            start_time: appointmentTime(row.start_time),
+            end_time: appointmentTime(row.end_time),
+            energy_price: Number(row.energy_price),
+            demand_price: Number(row.demand_price),
+          }
+        : { name: "", start_time: "18:00", end_time: "23:00", energy_price: undefined, demand_price: 0 },
+    )
+    setDialogOpen(true)
+  }
+
+  const onSubmit = async (values: TariffBandInput) => {
+    try {
+      await save(editing?.id ?? null, values)
+      setDialogOpen(false)
+    } catch (err) {
+      applyServerErrors(form, err)
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    try {
+      await remove(id)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Tarifa eléctrica</CardTitle>
+          <CardDescription>
+            Bandas horarias (pico, valle, resto) con el precio de la energía y el cargo por potencia, usadas para
+            estimar el costo de cada horario
+          </CardDescription>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Nueva banda
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando tarifa...</span>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Banda</TableHead>
+                <TableHead>Horario</TableHead>
+                <TableHead>Energía</TableHead>
+                <TableHead>Potencia</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell>
+                    {appointmentTime(row.start_time)} - {appointmentTime(row.end_time)}
+                  </TableCell>
+                  <TableCell>{formatPrice(row.energy_price)} / kWh</TableCell>
+                  <TableCell>{formatPrice(row.demand_price)} / kW</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => openDialog(row)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Editar</span>
+                    </Button>
+                    <ConfirmDelete
+                      title="Eliminar banda"
+                      description={`Se eliminará la banda "${row.name}". Sus horarios dejarán de tener costo.`}
+                      onConfirm={() => handleDelete(row.id)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+              {items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No hay bandas tarifarias cargadas: los horarios no muestran costo
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar banda" : "Nueva banda"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nombre</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Pico" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="start_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Inicio</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="end_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fin</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Un fin anterior al inicio cruza la medianoche (valle 23:00 - 05:00). Las bandas no pueden superponerse.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="energy_price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Energía ($/kWh)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.0001" min="0" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="demand_price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Potencia ($/kW)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.0001" min="0" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormDescription>Por cada kW que una reserva suma al pico del día en la banda</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {form.formState.errors.root && (
+                <p className="text-sm text-destructive">{form.formState.errors.root.message}</p>
+              )}
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form"
+
+// Error returned by the CRUD endpoints; `issues` come from validationError() in lib/api.ts
+export class AdminRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: { path: string; message: string }[] = [],
+  ) {
+    super(message)
+  }
+}
+
+const request = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, init)
+  if (response.status === 204) return null
+  const result = await response.json()
+  if (!response.ok) throw new AdminRequestError(result.error || "Error en la solicitud", result.issues)
+  return result.data
+}
+
+/** List / create / update / delete rows of one of the admin endpoints (/api/laboratories, ...) */
+export function useAdminResource<T extends { id: number }>(endpoint: string) {
+  const [items, setItems] = useState<T[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true)
+      setItems(await request(endpoint))
+      setError(null)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [endpoint])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // POST when id is null, PATCH otherwise
+  const save = async (id: number | null, values: Record<string, unknown>) => {
+    const saved = await request(id === null ? endpoint : `${endpoint}/${id}`, {
+      method: id === null ? "POST" : "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(values),
+    })
+    await refresh()
+    return saved as T
+  }
+
+  const remove = async (id: number) => {
+    await request(`${endpoint}/${id}`, { method: "DELETE" })
+    setItems((current) => current.filter((item) => item.id !== id))
+  }
+
+  return { items, loading, error, setError, refresh, save, remove }
+}
+
+/** Show server-side validation issues next to the matching fields, anything else as a form error */
+export function applyServerErrors<T extends FieldValues>(form: UseFormReturn<T>, error: any) {
+  const issues: { path: string; message: string }[] = error instanceof AdminRequestError ? error.issues : []
+  const fieldNames = Object.keys(form.getValues())
+  const fieldIssues = issues.filter((issue) => fieldNames.includes(issue.path))
+  fieldIssues.forEach((issue) => form.setError(issue.path as Path<T>, { message: issue.message }))
+  if (fieldIssues.length === 0) form.setError("root", { message: error.message })
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Pencil } from "lucide-react"
+import { userAccessSchema, type UserAccessInput } from "@/lib/schemas"
+import { ROLE_LABELS } from "@/lib/permissions"
+import { applyServerErrors, useAdminResource } from "@/components/admin/use-admin-resource"
+
+type User = {
+  id: number
+  email: string
+  name: string | null
+  role: UserAccessInput["role"]
+  managed_laboratories: { id: number; name: string }[]
+}
+
+type Laboratory = { id: number; name: string }
+
+export default function UsersTable() {
+  const { items, loading, error, save } = useAdminResource<User>("/api/users")
+  const { items: laboratories } = useAdminResource<Laboratory>("/api/laboratories")
+  const [editing, setEditing] = useState<User | null>(null)
+
+  const form = useForm<UserAccessInput>({
+    resolver: zodResolver(userAccessSchema),
+    defaultValues: { role: "STUDENT", laboratory_ids: [] },
+  })
+  const role = form.watch("role")
+
+  const openDialog = (user: User) => {
+    setEditing(user)
+    form.reset({ role: user.role, laboratory_ids: user.managed_laboratories.map((l) => l.id) })
+  }
+
+  const onSubmit = async (values: UserAccessInput) => {
+    if (!editing) return
+    try {
+      await save(editing.id, values)
+      setEditing(null)
+    } catch (err) {
+      applyServerErrors(form, err)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Usuarios</CardTitle>
+        <CardDescription>Roles y laboratorios que administra cada responsable</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando usuarios...</span>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Correo</TableHead>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Rol</TableHead>
+                <TableHead>Laboratorios</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell className="font-medium">{user.email}</TableCell>
+                  <TableCell>{user.name ?? "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={user.role === "STUDENT" ? "outline" : "secondary"}>{ROLE_LABELS[user.role]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {user.role === "ENERGY_ADMIN"
+                      ? "Todos"
+                      : user.managed_laboratories.map((l) => l.name).join(", ") || "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="outline" onClick={() => openDialog(user)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Editar</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No hay usuarios registrados
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Permisos de {editing?.email}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rol</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecciona un rol" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {role === "LAB_MANAGER" && (
+                <FormField
+                  control={form.control}
+                  name="laboratory_ids"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Laboratorios que administra</FormLabel>
+                      <div className="space-y-2">
+                        {laboratories.map((laboratory) => {
+                          const selected = field.value ?? []
+                          return (
+                            <label key={laboratory.id} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={selected.includes(laboratory.id)}
+                                onCheckedChange={(checked) =>
+                                  field.onChange(
+                                    checked
+                                      ? [...selected, laboratory.id]
+                                      : selected.filter((id) => id !== laboratory.id),
+                                  )
+                                }
+                              />
+                              {laboratory.name}
+                            </label>
+                          )
+                        })}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {form.formState.errors.root && (
+                <p className="text-sm text-destructive">{form.formState.errors.root.message}</p>
+              )}
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
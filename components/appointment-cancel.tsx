@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2 } from "lucide-react"
+import AppointmentSummary from "@/components/appointment-summary"
+
+export default function AppointmentCancel({ token }: { token: string }) {
+  const [appointment, setAppointment] = useState<any | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [cancelled, setCancelled] = useState(false)
+
+  useEffect(() => {
+    const fetchAppointment = async () => {
+      try {
+        const response = await fetch(`/api/appointments/manage/${token}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Error al cargar la cita")
+        setAppointment(result.data)
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchAppointment()
+  }, [token])
+
+  const handleCancel = async () => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/appointments/manage/${token}/cancel`, { method: "POST" })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al cancelar la cita")
+      setAppointment(result.data)
+      setCancelled(true)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl">{cancelled ? "Reserva cancelada" : "Cancelar reserva"}</CardTitle>
+        <CardDescription>
+          Las cancelaciones deben hacerse con al menos 24 horas de anticipación
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando cita...</span>
+          </div>
+        ) : (
+          appointment && (
+            <>
+              <AppointmentSummary appointment={appointment} />
+              {cancelled ? (
+                <Alert>
+                  <AlertDescription>Tu reserva fue cancelada y los equipos quedaron liberados.</AlertDescription>
+                </Alert>
+              ) : (
+                <Button variant="destructive" className="w-full" onClick={handleCancel} disabled={submitting}>
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Cancelando...
+                    </>
+                  ) : (
+                    "Confirmar cancelación"
+                  )}
+                </Button>
+              )}
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,7 +2,8 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -13,18 +14,31 @@ import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Loader2, Zap, Calendar, User, ChevronLeft, ChevronRight, ArrowLeft } from "lucide-react"
+import LoadChart from "@/components/load-chart"
+import RecurrencePicker from "@/components/recurrence-picker"
+import type { RecurrenceRule } from "@/lib/recurrence"
+import { combinedSegments, energyKwh } from "@/lib/power-profile"
 
 export default function AppointmentForm() {
   const [currentStep, setCurrentStep] = useState(1)
   const [laboratories, setLaboratories] = useState<any[]>([])
   const [machines, setMachines] = useState<any[]>([])
   const [efficiencyGroups, setEfficiencyGroups] = useState<any[]>([])
+  const [unavailableDays, setUnavailableDays] = useState<any[]>([])
   const [selectedGroup, setSelectedGroup] = useState<any | null>(null)
   const [loading, setLoading] = useState(false)
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
-  const [totalConsumptionPerHour, setTotalConsumptionPerHour] = useState(0)
+  const [pendingApproval, setPendingApproval] = useState(false)
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null)
+  const [skipConflicts, setSkipConflicts] = useState(false)
+  const [bookedCount, setBookedCount] = useState(1)
+  const [hold, setHold] = useState<any | null>(null)
+  const [holdSeconds, setHoldSeconds] = useState(0)
+  const [holding, setHolding] = useState(false)
+  const [autoScheduling, setAutoScheduling] = useState(false)
+  const [user, setUser] = useState<any | null>(null)
 
   const [selectedLaboratory, setSelectedLaboratory] = useState(null)
   const [selectedMachines, setSelectedMachines] = useState(null)
@@ -39,15 +53,18 @@ export default function AppointmentForm() {
     user_name: "",
     user_email: "",
     appointment_date: "",
+    search_from: "",
+    search_days: 1,
+    rank_by: "load", // "load" | "cost": what slots and efficiency levels are ranked by
     start_time: "",
     end_time: "",
     purpose: "",
-    power_consumption: 0,
   })
 
-  // Load laboratories on component mount
+  // Load laboratories and the session on component mount
   useEffect(() => {
     fetchLaboratories()
+    fetchSession()
   }, [])
 
   // Load machines when laboratory changes
@@ -59,12 +76,68 @@ export default function AppointmentForm() {
     }
   }, [formData.laboratory_id])
 
-  // Load time slots when machine and date are selected
+  // Load time slots when machine and date range are selected
   useEffect(() => {
-    if (formData.machine_ids.length > 0 && formData.appointment_date && formData.duration_minutes) {
-      fetchTimeSlots(formData.appointment_date, formData.laboratory_id, formData.machine_ids, formData.duration_minutes)
+    if (formData.machine_ids.length > 0 && formData.search_from && formData.duration_minutes) {
+      fetchTimeSlots(
+        formData.search_from,
+        formData.search_days,
+        formData.laboratory_id,
+        formData.machine_ids,
+        formData.duration_minutes,
+        formData.rank_by,
+      )
     }
-  }, [formData.machine_ids, formData.appointment_date, formData.laboratory_id, formData.duration_minutes])
+  }, [
+    formData.machine_ids,
+    formData.search_from,
+    formData.search_days,
+    formData.laboratory_id,
+    formData.duration_minutes,
+    formData.rank_by,
+  ])
+
+  // Count down the slot hold; once it expires the slot is booked without it (re-checked by the server)
+  useEffect(() => {
+    if (!hold) return
+    const tick = () => {
+      const seconds = Math.max(0, Math.round((new Date(hold.expires_at).getTime() - Date.now()) / 1000))
+      setHoldSeconds(seconds)
+      if (seconds === 0) setHold(null)
+    }
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [hold])
+
+  // Give the held slot back when leaving the page without booking it
+  const holdRef = useRef<any | null>(null)
+  holdRef.current = hold
+  useEffect(() => {
+    const release = () => {
+      if (holdRef.current) {
+        fetch(`/api/holds/${holdRef.current.id}`, { method: "DELETE", keepalive: true })
+      }
+    }
+    window.addEventListener("pagehide", release)
+    return () => {
+      window.removeEventListener("pagehide", release)
+      release()
+    }
+  }, [])
+
+  // Prefill the personal information from the signed-in account
+  const fetchSession = async () => {
+    try {
+      const response = await fetch("/api/auth/me")
+      const { data } = await response.json()
+      if (!data) return
+      setUser(data)
+      setFormData((prev) => ({ ...prev, user_name: data.name ?? "", user_email: data.email }))
+    } catch (err) {
+      console.error("Error loading session:", err)
+    }
+  }
 
   const fetchLaboratories = async () => {
     try {
@@ -89,13 +162,20 @@ export default function AppointmentForm() {
     }
   }
 
-  const fetchTimeSlots = async (date: string, laboratoryId: string, machineIds: string[], duration: number) => {
+  const fetchTimeSlots = async (
+    from: string,
+    days: number,
+    laboratoryId: string,
+    machineIds: string[],
+    duration: number,
+    rankBy: string,
+  ) => {
     try {
       setLoading(true)
-      console.log("[v0] Fetching time slots with params:", { date, laboratoryId, machineIds, duration })
+      console.log("[v0] Fetching time slots with params:", { from, days, laboratoryId, machineIds, duration })
 
       const machineIdsParam = machineIds.join(",")
-      const url = `/api/availability?date=${date}&laboratory_id=${laboratoryId}&machine_ids=${machineIdsParam}&duration=${duration}`
+      const url = `/api/availability?from=${from}&days=${days}&laboratory_id=${laboratoryId}&machine_ids=${machineIdsParam}&duration=${duration}&rank_by=${rankBy}`
       console.log("[v0] API URL:", url)
 
       const response = await fetch(url)
@@ -110,7 +190,11 @@ export default function AppointmentForm() {
 
       if (data.efficiencyGroups) {
         setEfficiencyGroups(data.efficiencyGroups)
+        // days of the range without bookable slots, with the reason (closed, too long, all taken)
+        setUnavailableDays((data.days ?? []).filter((day) => day.reason))
         setSelectedGroup(null)
+        setFormData((prev) => ({ ...prev, appointment_date: "", start_time: "", end_time: "" }))
+        releaseHold()
       }
       setCurrentPage(1)
     } catch (err) {
@@ -121,6 +205,114 @@ export default function AppointmentForm() {
     }
   }
 
+  // Hold the picked slot for a few minutes so nobody else books it while step 3 is filled in.
+  // Without a session the slot is only selected (booking asks to sign in anyway).
+  const selectSlot = async (slot) => {
+    setFormData((prev) => ({
+      ...prev,
+      appointment_date: slot.date,
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+    }))
+    if (!user) return
+
+    setHolding(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/holds", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          laboratory_id: formData.laboratory_id,
+          machine_ids: formData.machine_ids,
+          appointment_date: slot.date,
+          start_time: slot.start_time,
+          end_time: slot.end_time,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setHold(null)
+        setError(result.error || "El horario ya no está disponible")
+        // the slot was taken meanwhile: show the current availability
+        fetchTimeSlots(
+          formData.search_from,
+          formData.search_days,
+          formData.laboratory_id,
+          formData.machine_ids,
+          formData.duration_minutes,
+          formData.rank_by,
+        )
+        return
+      }
+      setHold(result.data)
+    } catch (err) {
+      setError("Error de conexión. Inténtalo de nuevo.")
+    } finally {
+      setHolding(false)
+    }
+  }
+
+  const releaseHold = () => {
+    if (!holdRef.current) return
+    fetch(`/api/holds/${holdRef.current.id}`, { method: "DELETE", keepalive: true })
+    holdRef.current = null
+    setHold(null)
+  }
+
+  const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`
+
+  // "16/09 14:00 - 18:00", "16/09 - 18/09"; dates and times arrive as ISO strings
+  const formatMaintenance = (window: any) => {
+    const day = (value: string) => value.slice(0, 10).split("-").reverse().slice(0, 2).join("/")
+    const from = `${day(window.start_date)}${window.start_time ? ` ${window.start_time.slice(11, 16)}` : ""}`
+    const to = `${window.end_date === window.start_date ? "" : `${day(window.end_date)} `}${window.end_time ? window.end_time.slice(11, 16) : ""}`
+    return to.trim() ? `${from} - ${to.trim()}` : from
+  }
+
+  // "Book the best slot for me": the server picks the lowest-load slot of the range and holds it
+  // for a few minutes while the booker fills in step 3
+  const handleAutoSchedule = async () => {
+    setAutoScheduling(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/appointments/auto", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          laboratory_id: formData.laboratory_id,
+          machine_ids: formData.machine_ids,
+          duration_minutes: formData.duration_minutes,
+          from: formData.search_from,
+          days: formData.search_days,
+          hold: true,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "No se pudo elegir un horario automáticamente")
+
+      const slot = result.meta.slot
+      setHold(result.data)
+      setSelectedTimeSlot(slot)
+      setFormData((prev) => ({
+        ...prev,
+        appointment_date: slot.date,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+      }))
+      setCurrentStep(3)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setAutoScheduling(false)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setSubmitting(true)
@@ -132,34 +324,31 @@ export default function AppointmentForm() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, recurrence, skip_conflicts: skipConflicts, hold_id: hold?.id }),
       })
 
       if (response.ok) {
         const result = await response.json()
         console.log("Appointment created:", result)
+        // a series returns all its occurrences; the email goes out for the first one
+        const appointments = recurrence ? result.data.appointments : [result.data]
         try {
-          const arrayName = result.data.machines.map((m) => m.name);
           await fetch("/api/mail", {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
             },
-            body: JSON.stringify({
-              appointment_date: result.data.appointment_date,
-              start_time: result.data.start_time,
-              end_time: result.data.end_time,
-              laboratory_name: result.data.laboratory.name,
-              machine_names: arrayName,
-              user_mail: result.data.user_email,
-              user_name: result.data.user_name,
-              purpose: result.data.purpose,
-            }),
+            body: JSON.stringify({ appointment_id: appointments[0].id }),
           })
         } catch (emailError) {
           console.error("Error sending confirmation email:", emailError)
         }
 
+        // the booking took the place of the hold
+        holdRef.current = null
+        setHold(null)
+        setBookedCount(appointments.length)
+        setPendingApproval(appointments.some((a) => a.status === "PENDING"))
         setSuccess(true)
         setCurrentStep(4)
       } else {
@@ -189,35 +378,39 @@ export default function AppointmentForm() {
       const numericMachineIds = formData.machine_ids.map(id => Number(id));
       const aux = machines.filter((machine) => numericMachineIds.includes(machine.id))
       setSelectedMachines(aux);
-      let acum = 0;
-      for (const machineId of formData.machine_ids) {
-        const machine = machines.find((m) => m.id == machineId);
-        if (machine) {
-          acum = acum + Number(machine.power_consumption);
-        }
-      }
-      setTotalConsumptionPerHour(acum);
-    }else{
-      setTotalConsumptionPerHour(0);
     }
   }, [formData.machine_ids]);
 
-  useEffect(() => {
-    // Reset time slot selection when changing steps
-    setFormData({
-      ...formData,
-      power_consumption: totalConsumptionPerHour * (formData.duration_minutes / 60),
-    })
-  }, [totalConsumptionPerHour, formData.duration_minutes ])
+  // kWh of running the selected machines for the chosen duration, following their power profiles
+  const machineEnergy = energyKwh(
+    combinedSegments(
+      machines
+        .filter((machine) => formData.machine_ids.includes(machine.id.toString()))
+        .map((machine) => ({ power_consumption: Number(machine.power_consumption), power_profile: machine.power_profile ?? null })),
+      formData.duration_minutes,
+    ),
+  )
 
   useEffect(() => {
     // Reset time slot selection when changing steps
     if(formData.start_time && formData.end_time){
       const aux = selectedGroup?.slots.find(
-    (slot) => slot.start_time === formData.start_time && slot.end_time === formData.end_time);
+    (slot) => isSelectedSlot(slot));
       setSelectedTimeSlot(aux)
     }
-  }, [formData.start_time, formData.end_time])
+  }, [formData.appointment_date, formData.start_time, formData.end_time])
+
+  const isSelectedSlot = (slot) =>
+    formData.appointment_date === slot.date &&
+    formData.start_time === slot.start_time &&
+    formData.end_time === slot.end_time
+
+  // "YYYY-MM-DD" → local date (avoids the UTC shift of new Date("YYYY-MM-DD"))
+  const formatSlotDate = (date: string, options: Intl.DateTimeFormatOptions = {}) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString("es-ES", options)
+
+  // Tariff estimates are in pesos
+  const formatCost = (value: number) => value.toLocaleString("es-AR", { style: "currency", currency: "ARS" })
 
   const renderStepIndicator = () => (
     <div className="flex items-center justify-center mb-8">
@@ -240,8 +433,14 @@ export default function AppointmentForm() {
     return (
       <Card className="max-w-2xl mx-auto">
         <CardHeader className="text-center">
-          <CardTitle className="text-2xl text-primary">¡Cita Reservada Exitosamente!</CardTitle>
-          <CardDescription>Tu solicitud de cita ha sido enviada y está confirmada.</CardDescription>
+          <CardTitle className="text-2xl text-primary">
+            {pendingApproval ? "Reserva Pendiente de Aprobación" : "¡Cita Reservada Exitosamente!"}
+          </CardTitle>
+          <CardDescription>
+            {pendingApproval
+              ? "Por su consumo energético, un responsable del laboratorio debe aprobar tu reserva. Los equipos quedan reservados mientras tanto."
+              : "Tu solicitud de cita ha sido enviada y está confirmada."}
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="bg-muted p-4 rounded-lg">
@@ -253,18 +452,29 @@ export default function AppointmentForm() {
               <strong>Máquina:</strong> {selectedMachines.map((m) => m.name).join(", ")}
             </p>
             <p>
-              <strong>Fecha:</strong> {new Date(formData.appointment_date).toLocaleDateString("es-ES")}
+              <strong>Fecha:</strong> {formatSlotDate(formData.appointment_date)}
             </p>
             <p>
               <strong>Horario:</strong> {formData.start_time} - {formData.end_time}
             </p>
+            {bookedCount > 1 && (
+              <p>
+                <strong>Repeticiones:</strong> {bookedCount} fechas (puedes verlas en{" "}
+                <Link href="/my-reservations" className="text-primary underline">
+                  Mis reservas
+                </Link>
+                )
+              </p>
+            )}
             <p>
-              <strong>Consumo estimado:</strong> {(selectedTimeSlot?.power_consumption + (totalConsumptionPerHour * (formData.duration_minutes / 60))).toFixed(2).replace('.', ',')} kWh
+              <strong>Consumo estimado:</strong> {(selectedTimeSlot?.power_consumption + machineEnergy).toFixed(2).replace('.', ',')} kWh
             </p>
           </div>
           <Alert>
             <AlertDescription>
-              Recibirás un correo electrónico de confirmación en {formData.user_email}
+              {pendingApproval
+                ? `Te avisaremos en ${formData.user_email} cuando la reserva sea aprobada o rechazada`
+                : `Recibirás un correo electrónico de confirmación en ${formData.user_email}`}
             </AlertDescription>
           </Alert>
           <Button onClick={() => window.location.reload()} className="w-full">
@@ -276,6 +486,7 @@ export default function AppointmentForm() {
   }
 
   const durationOptions = [30, 60, 90, 120, 150, 180, 210, 240]
+  const searchDaysOptions = [1, 7, 14]
 
   const currentSlots = selectedGroup
     ? selectedGroup.slots.slice((currentPage - 1) * slotsPerPage, currentPage * slotsPerPage)
@@ -344,9 +555,13 @@ export default function AppointmentForm() {
                     ) : (
                       <div className="space-y-2 mt-2">
                           {machines.map((machine) => (
-                          <div key={machine.id} className="flex items-center space-x-2 p-3 border rounded-lg">
+                          <div
+                            key={machine.id}
+                            className={`flex items-center space-x-2 p-3 border rounded-lg ${machine.out_of_service ? "opacity-60" : ""}`}
+                          >
                             <Checkbox
                               id={machine.id.toString()}
+                              disabled={machine.out_of_service}
                               checked={formData.machine_ids.includes(machine.id.toString())}
                               onCheckedChange={(checked) => {
                                 if (checked) {
@@ -364,10 +579,28 @@ export default function AppointmentForm() {
                             />
                             <label
                               htmlFor={machine.id.toString()}
-                              className="flex-1 flex items-center justify-between cursor-pointer"
+                              className={`flex-1 flex items-center justify-between ${
+                                machine.out_of_service ? "cursor-not-allowed" : "cursor-pointer"
+                              }`}
                             >
-                              <span className="font-medium">{machine.name}</span>
-                              <Badge variant="secondary">{machine.power_consumption.toString()} kW</Badge>
+                              <div>
+                                <span className="font-medium">{machine.name}</span>
+                                {machine.out_of_service && (
+                                  <p className="text-xs text-destructive">
+                                    Fuera de servicio{machine.out_of_service_reason ? `: ${machine.out_of_service_reason}` : ""}
+                                  </p>
+                                )}
+                                {!machine.out_of_service && machine.maintenance_windows?.length > 0 && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Mantenimiento programado: {machine.maintenance_windows.map(formatMaintenance).join("; ")}
+                                  </p>
+                                )}
+                              </div>
+                              {machine.out_of_service ? (
+                                <Badge variant="outline">No disponible</Badge>
+                              ) : (
+                                <Badge variant="secondary">{machine.power_consumption.toString()} kW</Badge>
+                              )}
                             </label>
                           </div>
                         ))}
@@ -418,7 +651,7 @@ export default function AppointmentForm() {
                 <Zap className="h-5 w-5 text-primary" />
                 <h3 className="text-lg font-semibold">Consumo estimado del turno:</h3>
                 <span className="text-sm text-muted-foreground">
-                   {totalConsumptionPerHour * (formData.duration_minutes / 60)} kWh
+                   {machineEnergy.toFixed(2).replace(".", ",")} kWh
                 </span>
 
               </div>
@@ -429,28 +662,74 @@ export default function AppointmentForm() {
               </div>
 
               <div className="space-y-4">
-                <div>
-                  <Label htmlFor="date">Fecha de la cita</Label>
-                  <Input
-                    type="date"
-                    value={formData.appointment_date}
-                    onChange={(e) => setFormData({ ...formData, appointment_date: e.target.value })}
-                    min={new Date().toISOString().split("T")[0]}
-                  />
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="date">{formData.search_days > 1 ? "Buscar desde" : "Fecha de la cita"}</Label>
+                    <Input
+                      type="date"
+                      value={formData.search_from}
+                      onChange={(e) => setFormData({ ...formData, search_from: e.target.value })}
+                      min={new Date().toISOString().split("T")[0]}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="search_days">Días a evaluar</Label>
+                    <Select
+                      value={formData.search_days.toString()}
+                      onValueChange={(value) => setFormData({ ...formData, search_days: Number.parseInt(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecciona el rango" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {searchDaysOptions.map((days) => (
+                          <SelectItem key={days} value={days.toString()}>
+                            {days === 1 ? "Solo ese día" : `Próximos ${days} días`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
-                {formData.appointment_date && (
+                {formData.search_from && (
+                  <div className="flex items-center justify-between gap-4 rounded-lg border border-primary/40 bg-primary/5 p-4">
+                    <div className="text-sm">
+                      <p className="font-medium">¿No sabes qué horario elegir?</p>
+                      <p className="text-muted-foreground">
+                        Reservamos por unos minutos el horario de menor consumo del rango mientras completas tus datos.
+                      </p>
+                    </div>
+                    <Button type="button" onClick={handleAutoSchedule} disabled={autoScheduling || !user}>
+                      {autoScheduling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Zap className="mr-2 h-4 w-4" />}
+                      Elegir por mí
+                    </Button>
+                  </div>
+                )}
+
+                {formData.search_from && (
                   <div>
                     {!selectedGroup ? (
                       <>
                         <div className="flex items-center justify-between mb-2">
                           <Label>Niveles de eficiencia disponibles</Label>
-                          {efficiencyGroups.length > 0 && (
-                            <span className="text-sm text-muted-foreground">
-                              {efficiencyGroups.reduce((total, group) => total + group.slots.length, 0)} opciones
-                              encontradas
-                            </span>
-                          )}
+                          <div className="flex items-center gap-3">
+                            {efficiencyGroups.length > 0 && (
+                              <span className="text-sm text-muted-foreground">
+                                {efficiencyGroups.reduce((total, group) => total + group.slots.length, 0)} opciones
+                                encontradas
+                              </span>
+                            )}
+                            <Select value={formData.rank_by} onValueChange={(value) => setFormData({ ...formData, rank_by: value })}>
+                              <SelectTrigger className="w-44" aria-label="Ordenar por">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="load">Por consumo</SelectItem>
+                                <SelectItem value="cost">Por costo</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
                         </div>
                         {loading ? (
                           <div className="flex items-center justify-center p-4">
@@ -474,6 +753,13 @@ export default function AppointmentForm() {
                                     <div className="text-sm text-muted-foreground">
                                       {group.slots.length} horarios disponibles
                                     </div>
+                                    {group.best_slot && (
+                                      <div className="text-sm text-muted-foreground">
+                                        Mejor opción: {formatSlotDate(group.best_slot.date, { weekday: "long", day: "numeric", month: "numeric" })}
+                                        {" · "}
+                                        {group.best_slot.start_time} - {group.best_slot.end_time}
+                                      </div>
+                                    )}
                                   </div>
                                   <div className="flex items-center gap-3">
                                     <div className="flex items-center gap-1">
@@ -482,6 +768,9 @@ export default function AppointmentForm() {
                                         {group.average_power_consumption.toFixed(1).replace('.', ',')} kWh
                                       </span>
                                     </div>
+                                    {group.average_cost !== null && (
+                                      <span className="text-sm text-muted-foreground">{formatCost(group.average_cost)}</span>
+                                    )}
                                     {group.power_spike_percentage > 0 ? (
                                       <Badge variant="outline" className="text-xs">
                                         +{group.power_spike_percentage}%
@@ -497,6 +786,19 @@ export default function AppointmentForm() {
                             ))}
                           </div>
                         )}
+                        {!loading && unavailableDays.length > 0 && (
+                          <div className="mt-3 space-y-1 text-sm text-muted-foreground">
+                            <div className="font-medium">Días sin horarios disponibles</div>
+                            {unavailableDays.map((day) => (
+                              <div key={day.date}>
+                                <span className="capitalize">
+                                  {formatSlotDate(day.date, { weekday: "long", day: "numeric", month: "numeric" })}
+                                </span>
+                                : {day.reason}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </>
                     ) : (
                       <>
@@ -508,7 +810,8 @@ export default function AppointmentForm() {
                               size="sm"
                               onClick={() => {
                                 setSelectedGroup(null)
-                                setFormData({ ...formData, start_time: "", end_time: "" })
+                                setFormData({ ...formData, appointment_date: "", start_time: "", end_time: "" })
+                                releaseHold()
                               }}
                             >
                               <ArrowLeft className="h-4 w-4 mr-1" />
@@ -522,18 +825,12 @@ export default function AppointmentForm() {
                         <div className="grid grid-cols-1 gap-3">
                           {currentSlots.map((slot) => (
                             <button
-                              key={`${slot.start_time}-${slot.end_time}`}
+                              key={`${slot.date}-${slot.start_time}-${slot.end_time}`}
                               type="button"
-                              disabled={!slot.available}
-                              onClick={() =>
-                                setFormData({
-                                  ...formData,
-                                  start_time: slot.start_time,
-                                  end_time: slot.end_time,
-                                })
-                              }
+                              disabled={!slot.available || holding}
+                              onClick={() => selectSlot(slot)}
                               className={`p-4 rounded-lg border text-left transition-colors ${
-                                formData.start_time === slot.start_time && formData.end_time === slot.end_time
+                                isSelectedSlot(slot)
                                   ? "border-primary bg-primary/10"
                                   : slot.available
                                     ? "border-border hover:border-primary/50"
@@ -543,17 +840,30 @@ export default function AppointmentForm() {
                               <div className="flex items-center justify-between">
                                 <div className="flex-1">
                                   <div className="font-medium text-base">
+                                    {formData.search_days > 1 && (
+                                      <span className="capitalize">
+                                        {formatSlotDate(slot.date, { weekday: "short", day: "numeric", month: "numeric" })}
+                                        {" · "}
+                                      </span>
+                                    )}
                                     {slot.start_time} - {slot.end_time}
                                   </div>
                                   {!slot.available && slot.reason && (
                                     <div className="text-sm text-muted-foreground mt-1">{slot.reason}</div>
                                   )}
+                                  {slot.available && slot.requires_approval && slot.approval_reason && (
+                                    <div className="text-sm text-muted-foreground mt-1">{slot.approval_reason}</div>
+                                  )}
                                 </div>
                                 <div className="flex items-center gap-3">
                                   <div className="flex items-center gap-1">
                                     <Zap className="h-4 w-4 text-secondary" />
-                                    <span className="text-sm font-medium">{slot.power_consumption.toFixed(2).replace('.', ',')} kWh</span>
+                                    <span className="text-sm font-medium">{slot.power_consumption.toFixed(2).replace('.', ',')} kW</span>
+                                    <span className="text-xs text-muted-foreground">
+                                      (pico {slot.peak_power_consumption.toFixed(2).replace('.', ',')} kW)
+                                    </span>
                                   </div>
+                                  {slot.cost && <span className="text-sm text-muted-foreground">{formatCost(slot.cost.total)}</span>}
                                   {slot.power_spike_percentage > 0 && (
                                     <Badge variant="outline" className="text-xs">
                                       +{slot.power_spike_percentage.toFixed(0).replace('.', ',')}%
@@ -564,6 +874,11 @@ export default function AppointmentForm() {
                                       Óptimo
                                     </Badge>
                                   )}
+                                  {slot.requires_approval && (
+                                    <Badge variant="destructive" className="text-xs">
+                                      Requiere aprobación
+                                    </Badge>
+                                  )}
                                 </div>
                               </div>
                             </button>
@@ -603,11 +918,35 @@ export default function AppointmentForm() {
                 )}
               </div>
 
+              {efficiencyGroups.length > 0 && (
+                <LoadChart
+                  laboratoryId={formData.laboratory_id}
+                  machineIds={formData.machine_ids}
+                  from={formData.search_from}
+                  days={Math.min(formData.search_days, 7)}
+                  candidate={
+                    formData.start_time
+                      ? { date: formData.appointment_date, start_time: formData.start_time, end_time: formData.end_time }
+                      : (selectedGroup?.best_slot ?? null)
+                  }
+                />
+              )}
+
+              {hold && (
+                <p className="text-sm text-muted-foreground">
+                  Horario reservado para ti durante {formatCountdown(holdSeconds)} mientras completas la reserva.
+                </p>
+              )}
+
               <div className="flex justify-between">
                 <Button type="button" variant="outline" onClick={prevStep}>
                   Anterior
                 </Button>
-                <Button type="button" onClick={nextStep} disabled={!formData.start_time || !formData.end_time}>
+                <Button
+                  type="button"
+                  onClick={nextStep}
+                  disabled={!formData.appointment_date || !formData.start_time || !formData.end_time}
+                >
                   Siguiente
                 </Button>
               </div>
@@ -622,6 +961,28 @@ export default function AppointmentForm() {
                 <h3 className="text-lg font-semibold">Información Personal</h3>
               </div>
 
+              {hold && (
+                <Alert>
+                  <AlertDescription>
+                    Reservamos este horario para ti durante {formatCountdown(holdSeconds)} (hasta las{" "}
+                    {new Date(hold.expires_at).toLocaleTimeString("es-ES", { hour: "2-digit", minute: "2-digit" })}).
+                    Confirma antes de que expire para no perderlo.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {!user && (
+                <Alert>
+                  <AlertDescription>
+                    Para reservar necesitas{" "}
+                    <Link href="/login?next=/" className="text-primary underline">
+                      ingresar con tu correo
+                    </Link>
+                    . Tu selección no se guarda al salir de esta página.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="space-y-4">
                 <div>
                   <Label htmlFor="name">Nombre completo</Label>
@@ -631,6 +992,7 @@ export default function AppointmentForm() {
                     value={formData.user_name}
                     onChange={(e) => setFormData({ ...formData, user_name: e.target.value })}
                     placeholder="Tu nombre completo"
+                    readOnly={!!user?.name}
                     required
                   />
                 </div>
@@ -641,8 +1003,8 @@ export default function AppointmentForm() {
                     id="email"
                     type="email"
                     value={formData.user_email}
-                    onChange={(e) => setFormData({ ...formData, user_email: e.target.value })}
                     placeholder="tu.email@universidad.edu"
+                    readOnly
                     required
                   />
                 </div>
@@ -660,6 +1022,23 @@ export default function AppointmentForm() {
                 </div>
               </div>
 
+              <RecurrencePicker
+                value={recurrence}
+                onChange={(rule) => {
+                  setRecurrence(rule)
+                  setSkipConflicts(false)
+                }}
+                request={{
+                  laboratory_id: formData.laboratory_id,
+                  machine_ids: formData.machine_ids,
+                  appointment_date: formData.appointment_date,
+                  start_time: formData.start_time,
+                  end_time: formData.end_time,
+                }}
+                skipConflicts={skipConflicts}
+                onSkipConflictsChange={setSkipConflicts}
+              />
+
               <div className="bg-muted p-4 rounded-lg">
                 <h4 className="font-semibold mb-2">Resumen de tu reserva:</h4>
                 <div className="space-y-1 text-sm">
@@ -673,17 +1052,21 @@ export default function AppointmentForm() {
                     <strong>Duración:</strong> {formData.duration_minutes} minutos
                   </p>
                   <p>
-                    <strong>Fecha:</strong> {new Date(formData.appointment_date).toLocaleDateString("es-ES")}
+                    <strong>Fecha:</strong> {formatSlotDate(formData.appointment_date)}
                   </p>
                   <p>
                     <strong>Horario:</strong> {formData.start_time} - {formData.end_time}
                   </p>
-                  <p>
-                  </p>
+                  {selectedTimeSlot?.cost && (
+                    <p>
+                      <strong>Costo estimado:</strong> {formatCost(selectedTimeSlot.cost.total)} (energía{" "}
+                      {formatCost(selectedTimeSlot.cost.energy)}, potencia {formatCost(selectedTimeSlot.cost.demand)})
+                    </p>
+                  )}
                   {selectedTimeSlot && selectedTimeSlot.power_spike_percentage > 0 && (
                     <p>
-                      <strong>Incremento energético:</strong> +{selectedTimeSlot.power_spike_percentage.toFixed(0).replace('.', ',')}% vs
-                      opción óptima
+                      <strong>{formData.rank_by === "cost" ? "Incremento de costo" : "Incremento energético"}:</strong> +
+                      {selectedTimeSlot.power_spike_percentage.toFixed(0).replace('.', ',')}% vs opción óptima
                     </p>
                   )}
                 </div>
@@ -695,7 +1078,7 @@ export default function AppointmentForm() {
                 </Button>
                 <Button
                   type="submit"
-                  disabled={submitting || !formData.user_name || !formData.user_email || !formData.purpose}
+                  disabled={submitting || !user || !formData.user_name || !formData.purpose}
                 >
                   {submitting ? (
                     <>
@@ -0,0 +1,275 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2, Zap, ChevronLeft, ChevronRight } from "lucide-react"
+import AppointmentSummary, { appointmentTime } from "@/components/appointment-summary"
+
+const minutesBetween = (start: string, end: string) => {
+  const [sh, sm] = start.split(":").map(Number)
+  const [eh, em] = end.split(":").map(Number)
+  return eh * 60 + em - (sh * 60 + sm)
+}
+
+export default function AppointmentReschedule({ token }: { token: string }) {
+  const [appointment, setAppointment] = useState<any | null>(null)
+  const [timeSlots, setTimeSlots] = useState<any[]>([])
+  const [selectedSlot, setSelectedSlot] = useState<any | null>(null)
+  const [searchFrom, setSearchFrom] = useState("")
+  const [searchDays, setSearchDays] = useState(7)
+  const [loading, setLoading] = useState(true)
+  const [loadingSlots, setLoadingSlots] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [rescheduled, setRescheduled] = useState(false)
+
+  const [currentPage, setCurrentPage] = useState(1)
+  const slotsPerPage = 10
+
+  useEffect(() => {
+    const fetchAppointment = async () => {
+      try {
+        const response = await fetch(`/api/appointments/manage/${token}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Error al cargar la cita")
+        setAppointment(result.data)
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchAppointment()
+  }, [token])
+
+  useEffect(() => {
+    if (appointment && searchFrom) {
+      fetchTimeSlots()
+    }
+  }, [appointment, searchFrom, searchDays])
+
+  const fetchTimeSlots = async () => {
+    try {
+      setLoadingSlots(true)
+      setSelectedSlot(null)
+      const duration = minutesBetween(appointmentTime(appointment.start_time), appointmentTime(appointment.end_time))
+      const machineIds = appointment.machines.map((m) => m.id).join(",")
+      const url = `/api/availability?from=${searchFrom}&days=${searchDays}&laboratory_id=${appointment.laboratory_id}&machine_ids=${machineIds}&duration=${duration}&exclude_appointment_id=${appointment.id}`
+      const response = await fetch(url)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al verificar disponibilidad")
+      setTimeSlots(result.data.timeSlots.filter((slot) => slot.available))
+      setCurrentPage(1)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoadingSlots(false)
+    }
+  }
+
+  const handleReschedule = async () => {
+    if (!selectedSlot) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/appointments/manage/${token}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          appointment_date: selectedSlot.date,
+          start_time: selectedSlot.start_time,
+          end_time: selectedSlot.end_time,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al reprogramar la cita")
+      setAppointment(result.data)
+      setRescheduled(true)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const formatSlotDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString("es-ES", { weekday: "short", day: "numeric", month: "numeric" })
+
+  const currentSlots = timeSlots.slice((currentPage - 1) * slotsPerPage, currentPage * slotsPerPage)
+  const totalPages = Math.ceil(timeSlots.length / slotsPerPage)
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl">{rescheduled ? "Reserva reprogramada" : "Reprogramar reserva"}</CardTitle>
+        <CardDescription>Los cambios deben hacerse con al menos 24 horas de anticipación</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando cita...</span>
+          </div>
+        ) : (
+          appointment && (
+            <>
+              <AppointmentSummary appointment={appointment} />
+
+              {rescheduled ? (
+                <Alert>
+                  <AlertDescription>
+                    {appointment.status === "PENDING"
+                      ? "Tu reserva fue reprogramada y queda pendiente de aprobación por su consumo energético. Los equipos quedaron reservados en el nuevo horario."
+                      : "Tu reserva fue reprogramada. Los equipos quedaron reservados en el nuevo horario."}
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="date">Buscar desde</Label>
+                      <Input
+                        id="date"
+                        type="date"
+                        value={searchFrom}
+                        onChange={(e) => setSearchFrom(e.target.value)}
+                        min={new Date().toISOString().split("T")[0]}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="search_days">Días a evaluar</Label>
+                      <Select value={searchDays.toString()} onValueChange={(value) => setSearchDays(Number.parseInt(value))}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecciona el rango" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[1, 7, 14].map((days) => (
+                            <SelectItem key={days} value={days.toString()}>
+                              {days === 1 ? "Solo ese día" : `Próximos ${days} días`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {loadingSlots ? (
+                    <div className="flex items-center justify-center p-4">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span className="ml-2">Verificando disponibilidad...</span>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-1 gap-3">
+                      {currentSlots.map((slot) => (
+                        <button
+                          key={`${slot.date}-${slot.start_time}-${slot.end_time}`}
+                          type="button"
+                          onClick={() => setSelectedSlot(slot)}
+                          className={`p-4 rounded-lg border text-left transition-colors ${
+                            selectedSlot === slot ? "border-primary bg-primary/10" : "border-border hover:border-primary/50"
+                          }`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <div className="font-medium text-base capitalize">
+                              {formatSlotDate(slot.date)} · {slot.start_time} - {slot.end_time}
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <div className="flex items-center gap-1">
+                                <Zap className="h-4 w-4 text-secondary" />
+                                <span className="text-sm font-medium">
+                                  {slot.power_consumption.toFixed(2).replace(".", ",")} kW
+                                </span>
+                                <span className="text-xs text-muted-foreground">
+                                  (pico {slot.peak_power_consumption.toFixed(2).replace(".", ",")} kW)
+                                </span>
+                                {slot.cost && (
+                                  <span className="text-xs text-muted-foreground">
+                                    · {slot.cost.total.toLocaleString("es-AR", { style: "currency", currency: "ARS" })}
+                                  </span>
+                                )}
+                              </div>
+                              {slot.power_spike_percentage === 0 ? (
+                                <Badge variant="secondary" className="text-xs">
+                                  Óptimo
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" className="text-xs">
+                                  +{slot.power_spike_percentage.toFixed(0)}%
+                                </Badge>
+                              )}
+                              {slot.requires_approval && (
+                                <Badge variant="destructive" className="text-xs">
+                                  Requiere aprobación
+                                </Badge>
+                              )}
+                            </div>
+                          </div>
+                        </button>
+                      ))}
+                      {searchFrom && timeSlots.length === 0 && (
+                        <p className="text-sm text-muted-foreground text-center">No hay horarios disponibles en ese rango</p>
+                      )}
+                    </div>
+                  )}
+
+                  {totalPages > 1 && (
+                    <div className="flex items-center justify-between">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                        disabled={currentPage === 1}
+                      >
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Anterior
+                      </Button>
+                      <span className="text-sm text-muted-foreground">
+                        Página {currentPage} de {totalPages}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                        disabled={currentPage === totalPages}
+                      >
+                        Siguiente
+                        <ChevronRight className="h-4 w-4 ml-1" />
+                      </Button>
+                    </div>
+                  )}
+
+                  <Button className="w-full" onClick={handleReschedule} disabled={!selectedSlot || submitting}>
+                    {submitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Reprogramando...
+                      </>
+                    ) : (
+                      "Confirmar nuevo horario"
+                    )}
+                  </Button>
+                </>
+              )}
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,31 @@
+"use client"
+
+// Read-only details of a stored appointment (as returned by the API: dates and times are ISO strings)
+export const appointmentDate = (appointment: any): string => String(appointment.appointment_date).slice(0, 10)
+export const appointmentTime = (value: string): string => String(value).slice(11, 16)
+
+export default function AppointmentSummary({ appointment }: { appointment: any }) {
+  return (
+    <div className="bg-muted p-4 rounded-lg">
+      <h3 className="font-semibold mb-2">Detalles de tu cita:</h3>
+      <div className="space-y-1 text-sm">
+        <p>
+          <strong>Laboratorio:</strong> {appointment.laboratory?.name}
+        </p>
+        <p>
+          <strong>Máquina:</strong> {appointment.machines?.map((m) => m.name).join(", ")}
+        </p>
+        <p>
+          <strong>Fecha:</strong>{" "}
+          {new Date(`${appointmentDate(appointment)}T00:00:00`).toLocaleDateString("es-ES")}
+        </p>
+        <p>
+          <strong>Horario:</strong> {appointmentTime(appointment.start_time)} - {appointmentTime(appointment.end_time)}
+        </p>
+        <p>
+          <strong>Propósito:</strong> {appointment.purpose}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Area, AreaChart, CartesianGrid, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Label } from "@/components/ui/label"
+import { Loader2 } from "lucide-react"
+
+type CandidateSlot = { date: string; start_time: string; end_time: string }
+
+type LoadPoint = {
+  date: string
+  start_time: string
+  end_time: string
+  baseline: number
+  booked: number
+  total: number
+  peak: number // highest 5-minute total inside the bucket
+}
+
+const chartConfig = {
+  baseline: { label: "Consumo base", color: "var(--chart-2)" },
+  booked: { label: "Reservas", color: "var(--chart-3)" },
+  candidate: { label: "Tu reserva", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+// "YYYY-MM-DD" → local date (avoids the UTC shift of new Date("YYYY-MM-DD"))
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("es-ES", options)
+
+// "YYYY-MM-DD" plus n days, without going through the local time zone
+const addDays = (date: string, n: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + n * 86_400_000).toISOString().slice(0, 10)
+
+const insideCandidate = (point: LoadPoint, candidate: CandidateSlot | null) =>
+  !!candidate &&
+  point.date === candidate.date &&
+  point.start_time >= candidate.start_time &&
+  point.end_time <= candidate.end_time
+
+/**
+ * Projected campus load (PreferredHour baseline + booked reservations) across the working day
+ * and across the week, with the candidate slot overlaid on top.
+ */
+export default function LoadChart({
+  laboratoryId,
+  machineIds,
+  from,
+  days = 7,
+  candidate,
+}: {
+  laboratoryId: string | number
+  machineIds: (string | number)[]
+  from: string
+  days?: number
+  candidate: CandidateSlot | null
+}) {
+  const [view, setView] = useState<"day" | "week">("day")
+  const [points, setPoints] = useState<LoadPoint[]>([])
+  const [machinePower, setMachinePower] = useState(0)
+  const [threshold, setThreshold] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!laboratoryId || machineIds.length === 0 || !from) return
+    const fetchLoad = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const url = `/api/availability/load?from=${from}&days=${days}&laboratory_id=${laboratoryId}&machine_ids=${machineIds.join(",")}`
+        const response = await fetch(url)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Error al cargar el consumo proyectado")
+        setPoints(result.data.points)
+        setMachinePower(result.data.machine_power)
+        setThreshold(result.data.limits.peak_consumption_threshold)
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchLoad()
+  }, [laboratoryId, machineIds.join(","), from, days])
+
+  const dates = useMemo(() => Array.from(new Set(points.map((p) => p.date))), [points])
+  const shownDate = candidate && dates.includes(candidate.date) ? candidate.date : dates[0]
+
+  const dayData = useMemo(
+    () =>
+      points
+        .filter((p) => p.date === shownDate)
+        .map((p) => ({
+          time: p.start_time,
+          baseline: Number(p.baseline.toFixed(2)),
+          booked: Number(p.booked.toFixed(2)),
+          candidate: insideCandidate(p, candidate) ? Number(machinePower.toFixed(2)) : 0,
+        })),
+    [points, shownDate, candidate, machinePower],
+  )
+
+  const maxLoad = Math.max(threshold ?? 0, ...points.map((p) => p.peak + machinePower), 1)
+  // Week heatmap: every day of the range (closed days have no points), columns by bucket time and
+  // each day's points keyed by time, since opening hours differ between days
+  const weekDates = useMemo(() => Array.from({ length: days }, (_, i) => addDays(from, i)), [from, days])
+  const buckets = useMemo(() => Array.from(new Set(points.map((p) => p.start_time))).sort(), [points])
+  const pointsByDate = useMemo(() => {
+    const byDate = new Map<string, Map<string, LoadPoint>>()
+    for (const point of points) {
+      const day = byDate.get(point.date) ?? new Map<string, LoadPoint>()
+      day.set(point.start_time, point)
+      byDate.set(point.date, day)
+    }
+    return byDate
+  }, [points])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span className="ml-2">Calculando consumo proyectado...</span>
+      </div>
+    )
+  }
+
+  if (error) return <p className="text-sm text-destructive">{error}</p>
+  if (points.length === 0) return null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Consumo proyectado de la facultad</Label>
+        <Tabs value={view} onValueChange={(value) => setView(value as "day" | "week")}>
+          <TabsList>
+            <TabsTrigger value="day">Día</TabsTrigger>
+            <TabsTrigger value="week">Semana</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {view === "day" ? (
+        <>
+          <p className="text-sm text-muted-foreground capitalize">
+            {formatDay(shownDate, { weekday: "long", day: "numeric", month: "long" })}
+          </p>
+          <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+            <AreaChart data={dayData} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} width={40} unit=" kW" />
+              <ChartTooltip content={<ChartTooltipContent indicator="dot" />} />
+              {candidate?.date === shownDate && (
+                <ReferenceArea
+                  x1={candidate.start_time}
+                  x2={dayData.filter((d) => d.candidate > 0).at(-1)?.time ?? candidate.start_time}
+                  fill="var(--chart-1)"
+                  fillOpacity={0.08}
+                />
+              )}
+              {threshold !== null && (
+                <ReferenceLine
+                  y={threshold}
+                  stroke="var(--destructive)"
+                  strokeDasharray="4 4"
+                  label={{ value: "Umbral de pico", position: "insideTopRight", fontSize: 10 }}
+                />
+              )}
+              <Area dataKey="baseline" type="stepAfter" stackId="load" fill="var(--color-baseline)" stroke="var(--color-baseline)" fillOpacity={0.4} />
+              <Area dataKey="booked" type="stepAfter" stackId="load" fill="var(--color-booked)" stroke="var(--color-booked)" fillOpacity={0.4} />
+              <Area dataKey="candidate" type="stepAfter" stackId="load" fill="var(--color-candidate)" stroke="var(--color-candidate)" fillOpacity={0.6} />
+              <ChartLegend content={<ChartLegendContent />} />
+            </AreaChart>
+          </ChartContainer>
+        </>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-separate border-spacing-0.5 text-xs">
+            <thead>
+              <tr>
+                <th />
+                {buckets.map((bucket) => (
+                  <th key={bucket} className="font-normal text-muted-foreground">
+                    {bucket.endsWith(":00") ? bucket.slice(0, 2) : ""}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {weekDates.map((date) => (
+                <tr key={date}>
+                  <td className="pr-2 text-muted-foreground capitalize whitespace-nowrap">
+                    {formatDay(date, { weekday: "short", day: "numeric" })}
+                  </td>
+                  {!pointsByDate.has(date) ? (
+                    <td colSpan={buckets.length} className="h-6 rounded-sm bg-muted text-center text-muted-foreground">
+                      Cerrado
+                    </td>
+                  ) : (
+                    buckets.map((bucket) => {
+                      const p = pointsByDate.get(date)?.get(bucket)
+                      if (!p) {
+                        return <td key={bucket} title={`${bucket}: cerrado`} className="h-6 min-w-4 rounded-sm bg-muted" />
+                      }
+                      const inside = insideCandidate(p, candidate)
+                      const load = p.total + (inside ? machinePower : 0)
+                      const peak = p.peak + (inside ? machinePower : 0)
+                      const overThreshold = threshold !== null && peak > threshold
+                      return (
+                        <td
+                          key={p.start_time}
+                          title={`${p.start_time} - ${p.end_time}: ${load.toFixed(1).replace(".", ",")} kW (pico ${peak.toFixed(1).replace(".", ",")} kW)`}
+                          className={`h-6 min-w-4 rounded-sm ${inside ? "ring-2 ring-primary" : ""}`}
+                          style={{
+                            backgroundColor: overThreshold ? "var(--destructive)" : "var(--chart-1)",
+                            opacity: overThreshold ? 0.9 : 0.1 + (0.8 * load) / maxLoad,
+                          }}
+                        />
+                      )
+                    })
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Cuanto más intenso el color, mayor el consumo proyectado; en rojo las franjas que superarían el umbral de pico.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useState } from "react"
+import { useSearchParams } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2, Mail } from "lucide-react"
+
+const CALLBACK_ERRORS: Record<string, string> = {
+  invalid_link: "El enlace es inválido o venció. Pide uno nuevo.",
+  server: "No pudimos iniciar tu sesión. Inténtalo de nuevo.",
+}
+
+export default function LoginForm() {
+  const searchParams = useSearchParams()
+  const [email, setEmail] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(CALLBACK_ERRORS[searchParams.get("error") ?? ""] ?? null)
+  const [sent, setSent] = useState(false)
+  const [localLink, setLocalLink] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email, next: searchParams.get("next") ?? "/" }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al enviar el enlace")
+      setLocalLink(result.meta?.login_link ?? null)
+      setSent(true)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl">Ingresar</CardTitle>
+        <CardDescription>Te enviaremos un enlace a tu correo para ingresar sin contraseña</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {sent ? (
+          <Alert>
+            <Mail className="h-4 w-4" />
+            <AlertDescription>
+              {localLink ? (
+                <>
+                  Modo local: no se envían correos.{" "}
+                  <a href={localLink} className="text-primary underline">
+                    Ingresar como {email}
+                  </a>
+                </>
+              ) : (
+                `Revisa tu bandeja de entrada: enviamos un enlace a ${email}. Vence en 15 minutos.`
+              )}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="email">Correo electrónico</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="tu.email@universidad.edu"
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={submitting || !email}>
+              {submitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Enviando...
+                </>
+              ) : (
+                "Enviar enlace de ingreso"
+              )}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,269 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2, Repeat, Zap } from "lucide-react"
+import { appointmentDate, appointmentTime } from "@/components/appointment-summary"
+import { EDITABLE_STATUSES, STATUS_LABELS } from "@/lib/appointment-status"
+
+export default function MyReservations() {
+  const [appointments, setAppointments] = useState<any[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [signedOut, setSignedOut] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [cancellingSeries, setCancellingSeries] = useState<number | null>(null)
+  const [editingSeries, setEditingSeries] = useState<{ id: number; start_time: string; end_time: string } | null>(null)
+  const [savingSeries, setSavingSeries] = useState(false)
+  const [seriesError, setSeriesError] = useState<string | null>(null)
+
+  const fetchAppointments = async () => {
+    try {
+      const response = await fetch("/api/auth/me/appointments")
+      if (response.status === 401) {
+        setSignedOut(true)
+        return
+      }
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al cargar tus reservas")
+      setAppointments(result.data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchAppointments()
+  }, [])
+
+  // Cancels every upcoming occurrence; those inside the notice window are kept
+  const cancelSeries = async (seriesId: number) => {
+    if (!window.confirm("¿Cancelar todas las fechas futuras de esta reserva recurrente?")) return
+    try {
+      setCancellingSeries(seriesId)
+      setError(null)
+      const response = await fetch(`/api/appointments/series/${seriesId}/cancel`, { method: "POST" })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al cancelar la serie")
+      const { cancelled_ids, skipped_ids } = result.meta
+      setNotice(
+        skipped_ids.length > 0
+          ? `Se cancelaron ${cancelled_ids.length} fechas. ${skipped_ids.length} no se pudieron cancelar por faltar menos de 24 horas.`
+          : `Se cancelaron ${cancelled_ids.length} fechas.`,
+      )
+      await fetchAppointments()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setCancellingSeries(null)
+    }
+  }
+
+  // Moves every upcoming occurrence to the new time; those inside the notice window are kept
+  const saveSeries = async () => {
+    if (!editingSeries) return
+    try {
+      setSavingSeries(true)
+      setSeriesError(null)
+      const response = await fetch(`/api/appointments/series/${editingSeries.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ start_time: editingSeries.start_time, end_time: editingSeries.end_time }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al cambiar el horario de la serie")
+      const { occurrences, skipped_ids } = result.meta
+      setNotice(
+        skipped_ids.length > 0
+          ? `Se cambiaron ${occurrences.length} fechas. ${skipped_ids.length} no se pudieron cambiar por faltar menos de 24 horas.`
+          : `Se cambiaron ${occurrences.length} fechas.`,
+      )
+      setEditingSeries(null)
+      await fetchAppointments()
+    } catch (err: any) {
+      setSeriesError(err.message)
+    } finally {
+      setSavingSeries(false)
+    }
+  }
+
+  const isUpcoming = (appointment: any) =>
+    new Date(`${appointmentDate(appointment)}T${appointmentTime(appointment.start_time)}:00`) > new Date()
+
+  return (
+    <Card className="max-w-3xl mx-auto">
+      <CardHeader>
+        <CardTitle>Mis reservas</CardTitle>
+        <CardDescription>Reservas hechas con tu cuenta, de la más reciente a la más antigua</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="ml-2">Cargando reservas...</span>
+          </div>
+        ) : signedOut ? (
+          <div className="text-center space-y-3">
+            <p className="text-sm text-muted-foreground">Ingresa para ver tus reservas</p>
+            <Button asChild>
+              <Link href="/login?next=/my-reservations">Ingresar</Link>
+            </Button>
+          </div>
+        ) : appointments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">Todavía no hiciste ninguna reserva</p>
+        ) : (
+          <div className="space-y-3">
+            {appointments.map((appointment) => (
+              <div key={appointment.id} className="p-4 rounded-lg border">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="font-medium">
+                      {new Date(`${appointmentDate(appointment)}T00:00:00`).toLocaleDateString("es-ES", {
+                        weekday: "long",
+                        day: "numeric",
+                        month: "long",
+                      })}
+                      {" · "}
+                      {appointmentTime(appointment.start_time)} - {appointmentTime(appointment.end_time)}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {appointment.laboratory?.name} · {appointment.machines?.map((m) => m.name).join(", ")}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{appointment.purpose}</div>
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    <div className="flex gap-1">
+                      {appointment.series_id && (
+                        <Badge variant="outline" className="gap-1">
+                          <Repeat className="h-3 w-3" />
+                          Recurrente
+                        </Badge>
+                      )}
+                      <Badge variant={appointment.status === "CONFIRMED" ? "secondary" : "outline"}>
+                        {STATUS_LABELS[appointment.status]}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-1 text-sm">
+                      <Zap className="h-4 w-4 text-secondary" />
+                      {Number(appointment.power_consumption ?? 0).toFixed(2).replace(".", ",")} kWh
+                    </div>
+                  </div>
+                </div>
+                {appointment.machine_issue && (
+                  <p className="text-sm mt-2 text-destructive">
+                    <strong>Equipo no disponible:</strong> {appointment.machine_issue}. Reprogramá o cancelá la reserva.
+                  </p>
+                )}
+                {appointment.review_note && (
+                  <p className="text-sm mt-2">
+                    <strong>Nota del revisor:</strong> {appointment.review_note}
+                  </p>
+                )}
+                {EDITABLE_STATUSES.includes(appointment.status) && isUpcoming(appointment) && (
+                  <div className="flex gap-2 mt-3">
+                    <Button asChild size="sm" variant="outline">
+                      <Link href={`/appointments/${appointment.manage_token}/reschedule`}>Reprogramar</Link>
+                    </Button>
+                    <Button asChild size="sm" variant="outline">
+                      <Link href={`/appointments/${appointment.manage_token}/cancel`}>Cancelar</Link>
+                    </Button>
+                    {appointment.series_id && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => cancelSeries(appointment.series_id)}
+                        disabled={cancellingSeries === appointment.series_id}
+                      >
+                        {cancellingSeries === appointment.series_id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Cancelar toda la serie
+                      </Button>
+                    )}
+                    {appointment.series_id && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setSeriesError(null)
+                          setEditingSeries({
+                            id: appointment.series_id,
+                            start_time: appointmentTime(appointment.start_time),
+                            end_time: appointmentTime(appointment.end_time),
+                          })
+                        }}
+                      >
+                        Cambiar horario de la serie
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editingSeries !== null} onOpenChange={(open) => !open && setEditingSeries(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cambiar horario de la serie</DialogTitle>
+            <DialogDescription>
+              Se aplica a todas las fechas futuras; las que empiezan en menos de 24 horas no cambian
+            </DialogDescription>
+          </DialogHeader>
+          {editingSeries && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="series-start">Inicio</Label>
+                <Input
+                  id="series-start"
+                  type="time"
+                  value={editingSeries.start_time}
+                  onChange={(e) => setEditingSeries({ ...editingSeries, start_time: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="series-end">Fin</Label>
+                <Input
+                  id="series-end"
+                  type="time"
+                  value={editingSeries.end_time}
+                  onChange={(e) => setEditingSeries({ ...editingSeries, end_time: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          {seriesError && <p className="text-sm text-destructive">{seriesError}</p>}
+          <DialogFooter>
+            <Button onClick={saveSeries} disabled={savingSeries}>
+              {savingSeries && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Repeat } from "lucide-react"
+import { FREQUENCY_LABELS, MAX_OCCURRENCES, type RecurrenceFrequency, type RecurrenceRule } from "@/lib/recurrence"
+
+const WEEKDAYS = ["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"]
+
+type Occurrence = {
+  date: string
+  start_time: string
+  end_time: string
+  available: boolean
+  reason?: string
+  requires_approval: boolean
+}
+
+type SeriesRequest = {
+  laboratory_id: string | number
+  machine_ids: (string | number)[]
+  appointment_date: string
+  start_time: string
+  end_time: string
+}
+
+/**
+ * Optional recurrence of the booking being made: frequency, weekdays and end (date or count),
+ * plus a check of every resulting date against availability before confirming.
+ */
+export default function RecurrencePicker({
+  value,
+  onChange,
+  request,
+  skipConflicts,
+  onSkipConflictsChange,
+}: {
+  value: RecurrenceRule | null
+  onChange: (rule: RecurrenceRule | null) => void
+  request: SeriesRequest
+  skipConflicts: boolean
+  onSkipConflictsChange: (skip: boolean) => void
+}) {
+  const [endMode, setEndMode] = useState<"count" | "until">("count")
+  const [occurrences, setOccurrences] = useState<Occurrence[] | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // any change of the rule or the slot invalidates the last check
+  useEffect(() => {
+    setOccurrences(null)
+  }, [JSON.stringify(value), JSON.stringify(request)])
+
+  const firstWeekday = request.appointment_date ? new Date(`${request.appointment_date}T00:00:00`).getDay() : 0
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...value!, ...changes })
+
+  const toggleDay = (day: number, checked: boolean) => {
+    const days = value?.days_of_week ?? [firstWeekday]
+    update({ days_of_week: checked ? [...days, day] : days.filter((d) => d !== day) })
+  }
+
+  const checkDates = async () => {
+    try {
+      setChecking(true)
+      setError(null)
+      const response = await fetch("/api/appointments/series/preview", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...request, recurrence: value }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || "Error al comprobar las fechas")
+      setOccurrences(result.data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const conflicts = occurrences?.filter((o) => !o.available).length ?? 0
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <label className="flex items-center gap-2 font-medium">
+        <Checkbox
+          checked={value !== null}
+          onCheckedChange={(checked) => onChange(checked ? { frequency: "WEEKLY", count: 4 } : null)}
+        />
+        <Repeat className="h-4 w-4 text-primary" />
+        Repetir esta reserva
+      </label>
+
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Frecuencia</Label>
+              <Select
+                value={value.frequency}
+                onValueChange={(frequency) =>
+                  update({
+                    frequency: frequency as RecurrenceFrequency,
+                    days_of_week: frequency === "CUSTOM" ? [firstWeekday] : undefined,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([frequency, label]) => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Termina</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={endMode}
+                  onValueChange={(mode) => {
+                    setEndMode(mode as "count" | "until")
+                    update(mode === "count" ? { count: 4, until: undefined } : { count: undefined, until: request.appointment_date })
+                  }}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">Después de</SelectItem>
+                    <SelectItem value="until">El día</SelectItem>
+                  </SelectContent>
+                </Select>
+                {endMode === "count" ? (
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_OCCURRENCES}
+                    value={value.count ?? ""}
+                    onChange={(e) => update({ count: Number(e.target.value) || undefined })}
+                    aria-label="Cantidad de repeticiones"
+                  />
+                ) : (
+                  <Input
+                    type="date"
+                    min={request.appointment_date}
+                    value={value.until ?? ""}
+                    onChange={(e) => update({ until: e.target.value || undefined })}
+                    aria-label="Fecha de fin"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          {value.frequency === "CUSTOM" && (
+            <div>
+              <Label>Días de la semana</Label>
+              <div className="flex flex-wrap gap-3 mt-2">
+                {WEEKDAYS.map((name, day) => (
+                  <label key={name} className="flex items-center gap-1 text-sm">
+                    <Checkbox
+                      checked={(value.days_of_week ?? []).includes(day)}
+                      onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Button type="button" variant="outline" size="sm" onClick={checkDates} disabled={checking}>
+            {checking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Comprobar fechas
+          </Button>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {occurrences && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {conflicts === 0
+                  ? `Las ${occurrences.length} fechas están disponibles.`
+                  : `${conflicts} de ${occurrences.length} fechas no están disponibles.`}
+              </p>
+              <div className="max-h-56 overflow-y-auto space-y-1">
+                {occurrences.map((occurrence) => (
+                  <div key={occurrence.date} className="flex items-center justify-between text-sm">
+                    <span className="capitalize">
+                      {new Date(`${occurrence.date}T00:00:00`).toLocaleDateString("es-ES", {
+                        weekday: "short",
+                        day: "numeric",
+                        month: "short",
+                      })}{" "}
+                      · {occurrence.start_time} - {occurrence.end_time}
+                    </span>
+                    {occurrence.available ? (
+                      <Badge variant={occurrence.requires_approval ? "destructive" : "secondary"} className="text-xs">
+                        {occurrence.requires_approval ? "Requiere aprobación" : "Disponible"}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs text-destructive" title={occurrence.reason}>
+                        {occurrence.reason ?? "No disponible"}
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {conflicts > 0 && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={skipConflicts} onCheckedChange={(checked) => onSkipConflictsChange(checked === true)} />
+                  Reservar solo las fechas disponibles
+                </label>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
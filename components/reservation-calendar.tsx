@@ -0,0 +1,363 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Loader2, ChevronLeft, ChevronRight } from "lucide-react"
+import { appointmentDate, appointmentTime } from "@/components/appointment-summary"
+import { ENERGY_LEVELS, energyLevel } from "@/lib/energy-levels"
+
+type View = "day" | "week" | "month"
+
+// Default window of the time grid (the default opening hours); it grows to fit labs open longer
+const START_HOUR = 8
+const END_HOUR = 18
+const HOUR_HEIGHT = 48 // px
+// Cancelled, rejected and no-show bookings don't use the machines
+const SHOWN_STATUSES = "PENDING,CONFIRMED,IN_PROGRESS,COMPLETED"
+
+// --- Local date helpers ("YYYY-MM-DD" keys in the browser's time zone) ---
+
+const dateKey = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`
+
+const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days)
+
+// Weeks start on Monday
+const startOfWeek = (d: Date) => addDays(d, -((d.getDay() + 6) % 7))
+
+const minutesOf = (time: string) => {
+  const [h, m] = time.split(":").map(Number)
+  return h * 60 + m
+}
+
+/** Days displayed by each view; the month view pads to whole weeks */
+const visibleDays = (view: View, anchor: Date): Date[] => {
+  let first = anchor
+  let count = 1
+  if (view === "week") {
+    first = startOfWeek(anchor)
+    count = 7
+  } else if (view === "month") {
+    first = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+    const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)
+    const lastShown = addDays(startOfWeek(last), 6)
+    count = Math.round((lastShown.getTime() - first.getTime()) / 86_400_000) + 1
+  }
+  return Array.from({ length: count }, (_, i) => addDays(first, i))
+}
+
+const shiftAnchor = (view: View, anchor: Date, direction: number) => {
+  if (view === "month") return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+  return addDays(anchor, direction * (view === "week" ? 7 : 1))
+}
+
+/** Side-by-side lanes so overlapping bookings of the same day don't hide each other */
+const assignLanes = (appointments: any[]) => {
+  const laneEnds: number[] = []
+  const lanes = new Map<number, number>()
+  const sorted = [...appointments].sort(
+    (a, b) => minutesOf(appointmentTime(a.start_time)) - minutesOf(appointmentTime(b.start_time)),
+  )
+  for (const appointment of sorted) {
+    const start = minutesOf(appointmentTime(appointment.start_time))
+    let lane = laneEnds.findIndex((end) => end <= start)
+    if (lane === -1) lane = laneEnds.length
+    laneEnds[lane] = minutesOf(appointmentTime(appointment.end_time))
+    lanes.set(appointment.id, lane)
+  }
+  return { lanes, laneCount: Math.max(1, laneEnds.length) }
+}
+
+const energyOf = (appointment: any) => Number(appointment.power_consumption ?? 0)
+
+export default function ReservationCalendar() {
+  const [view, setView] = useState<View>("week")
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [laboratories, setLaboratories] = useState<any[]>([])
+  const [machines, setMachines] = useState<any[]>([])
+  const [laboratoryId, setLaboratoryId] = useState("all")
+  const [machineId, setMachineId] = useState("all")
+  const [appointments, setAppointments] = useState<any[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const days = useMemo(() => visibleDays(view, anchor), [view, anchor])
+  const from = dateKey(days[0])
+  const to = dateKey(days[days.length - 1])
+
+  useEffect(() => {
+    const fetchLaboratories = async () => {
+      try {
+        const response = await fetch("/api/laboratories")
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Error al cargar laboratorios")
+        setLaboratories(result.data)
+      } catch (err: any) {
+        setError(err.message)
+      }
+    }
+    fetchLaboratories()
+  }, [])
+
+  useEffect(() => {
+    setMachineId("all")
+    if (laboratoryId === "all") {
+      setMachines([])
+      return
+    }
+    const fetchMachines = async () => {
+      try {
+        const response = await fetch(`/api/machines?laboratory_id=${laboratoryId}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Error al cargar máquinas")
+        setMachines(result.data)
+      } catch (err: any) {
+        setError(err.message)
+      }
+    }
+    fetchMachines()
+  }, [laboratoryId])
+
+  useEffect(() => {
+    const fetchAppointments = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const params = new URLSearchParams({ from, to, status: SHOWN_STATUSES })
+        if (laboratoryId !== "all") params.set("laboratory_id", laboratoryId)
+        if (machineId !== "all") params.set("machine_id", machineId)
+        const response = await fetch(`/api/appointments?${params}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Error al cargar las reservas")
+        setAppointments(result.data)
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchAppointments()
+  }, [from, to, laboratoryId, machineId])
+
+  const appointmentsByDay = useMemo(() => {
+    const byDay = new Map<string, any[]>()
+    for (const appointment of appointments) {
+      const key = appointmentDate(appointment)
+      byDay.set(key, [...(byDay.get(key) ?? []), appointment])
+    }
+    return byDay
+  }, [appointments])
+
+  const title = () => {
+    if (view === "month") {
+      return anchor.toLocaleDateString("es-ES", { month: "long", year: "numeric" })
+    }
+    if (view === "day") {
+      return anchor.toLocaleDateString("es-ES", { weekday: "long", day: "numeric", month: "long", year: "numeric" })
+    }
+    const first = days[0].toLocaleDateString("es-ES", { day: "numeric", month: "short" })
+    const last = days[6].toLocaleDateString("es-ES", { day: "numeric", month: "short", year: "numeric" })
+    return `${first} – ${last}`
+  }
+
+  const blockLabel = (appointment: any) =>
+    `${appointmentTime(appointment.start_time)} - ${appointmentTime(appointment.end_time)} · ${appointment.laboratory?.name}\n` +
+    `${appointment.machines?.map((m) => m.name).join(", ")}\n` +
+    // bookings of other users come without the booker (see GET /api/appointments)
+    `${appointment.user_name ?? "Reservado"} — ${appointment.purpose}\n` +
+    `${energyOf(appointment).toFixed(2).replace(".", ",")} kWh` +
+    (appointment.status === "PENDING" ? " · pendiente de aprobación" : "") +
+    (appointment.machine_issue ? `\nEquipo no disponible: ${appointment.machine_issue}` : "")
+
+  // Whole hours covering the default window and every booking shown
+  const [startHour, endHour] = useMemo(() => {
+    let first = START_HOUR
+    let last = END_HOUR
+    for (const appointment of appointments) {
+      first = Math.min(first, Math.floor(minutesOf(appointmentTime(appointment.start_time)) / 60))
+      last = Math.max(last, Math.ceil(minutesOf(appointmentTime(appointment.end_time)) / 60))
+    }
+    return [first, last]
+  }, [appointments])
+
+  const renderTimeGrid = () => {
+    const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i)
+    const gridHeight = hours.length * HOUR_HEIGHT
+
+    return (
+      <div className="flex overflow-x-auto">
+        <div className="w-14 shrink-0 pt-8">
+          {hours.map((hour) => (
+            <div key={hour} style={{ height: HOUR_HEIGHT }} className="text-xs text-muted-foreground pr-2 text-right">
+              {String(hour).padStart(2, "0")}:00
+            </div>
+          ))}
+        </div>
+        {days.map((day) => {
+          const dayAppointments = appointmentsByDay.get(dateKey(day)) ?? []
+          const { lanes, laneCount } = assignLanes(dayAppointments)
+          return (
+            <div key={dateKey(day)} className="flex-1 min-w-28 border-l">
+              <div className="h-8 text-center text-sm font-medium capitalize">
+                {day.toLocaleDateString("es-ES", { weekday: "short", day: "numeric" })}
+              </div>
+              <div className="relative" style={{ height: gridHeight }}>
+                {hours.map((hour) => (
+                  <div key={hour} style={{ height: HOUR_HEIGHT }} className="border-t border-dashed" />
+                ))}
+                {dayAppointments.map((appointment) => {
+                  const start = minutesOf(appointmentTime(appointment.start_time))
+                  const end = minutesOf(appointmentTime(appointment.end_time))
+                  const lane = lanes.get(appointment.id) ?? 0
+                  return (
+                    <div
+                      key={appointment.id}
+                      title={blockLabel(appointment)}
+                      className={`absolute rounded-md border-l-4 px-1 py-0.5 text-xs overflow-hidden ${
+                        energyLevel(energyOf(appointment)).className
+                      } ${appointment.status === "PENDING" ? "border-dashed opacity-80" : ""} ${
+                        appointment.machine_issue ? "ring-2 ring-destructive" : ""
+                      }`}
+                      style={{
+                        top: ((start - startHour * 60) / 60) * HOUR_HEIGHT,
+                        height: Math.max(((end - start) / 60) * HOUR_HEIGHT, 18),
+                        left: `${(lane / laneCount) * 100}%`,
+                        width: `${100 / laneCount}%`,
+                      }}
+                    >
+                      <div className="font-medium">
+                        {appointmentTime(appointment.start_time)} - {appointmentTime(appointment.end_time)}
+                      </div>
+                      <div className="truncate">{appointment.machines?.map((m) => m.name).join(", ")}</div>
+                      <div className="truncate">{energyOf(appointment).toFixed(1).replace(".", ",")} kWh</div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  const renderMonthGrid = () => (
+    <div className="grid grid-cols-7 border-l border-t">
+      {days.slice(0, 7).map((day) => (
+        <div key={`head-${dateKey(day)}`} className="border-r border-b p-1 text-center text-xs font-medium capitalize">
+          {day.toLocaleDateString("es-ES", { weekday: "short" })}
+        </div>
+      ))}
+      {days.map((day) => {
+        const dayAppointments = appointmentsByDay.get(dateKey(day)) ?? []
+        const outsideMonth = day.getMonth() !== anchor.getMonth()
+        return (
+          <button
+            key={dateKey(day)}
+            type="button"
+            onClick={() => {
+              setAnchor(day)
+              setView("day")
+            }}
+            className={`min-h-24 border-r border-b p-1 text-left align-top hover:bg-muted/50 ${
+              outsideMonth ? "bg-muted/30 text-muted-foreground" : ""
+            }`}
+          >
+            <div className="text-xs font-medium">{day.getDate()}</div>
+            <div className="space-y-0.5 mt-1">
+              {dayAppointments.slice(0, 3).map((appointment) => (
+                <div
+                  key={appointment.id}
+                  title={blockLabel(appointment)}
+                  className={`truncate rounded border-l-4 px-1 text-xs ${energyLevel(energyOf(appointment)).className}`}
+                >
+                  {appointmentTime(appointment.start_time)} {appointment.machines?.map((m) => m.name).join(", ")}
+                </div>
+              ))}
+              {dayAppointments.length > 3 && (
+                <div className="text-xs text-muted-foreground">+{dayAppointments.length - 3} más</div>
+              )}
+            </div>
+          </button>
+        )
+      })}
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+              Hoy
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <CardTitle className="ml-2 capitalize">{title()}</CardTitle>
+          </div>
+          <Tabs value={view} onValueChange={(value) => setView(value as View)}>
+            <TabsList>
+              <TabsTrigger value="day">Día</TabsTrigger>
+              <TabsTrigger value="week">Semana</TabsTrigger>
+              <TabsTrigger value="month">Mes</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={laboratoryId} onValueChange={setLaboratoryId}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Laboratorio" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos los laboratorios</SelectItem>
+              {laboratories.map((laboratory) => (
+                <SelectItem key={laboratory.id} value={laboratory.id.toString()}>
+                  {laboratory.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={machineId} onValueChange={setMachineId} disabled={laboratoryId === "all"}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Máquina" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas las máquinas</SelectItem>
+              {machines.map((machine) => (
+                <SelectItem key={machine.id} value={machine.id.toString()}>
+                  {machine.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            {ENERGY_LEVELS.map((level) => (
+              <span key={level.key} className="flex items-center gap-1">
+                <span className={`inline-block h-3 w-3 rounded-sm border-l-4 ${level.className}`} />
+                {level.label} ({level.description})
+              </span>
+            ))}
+          </div>
+          {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+        {view === "month" ? renderMonthGrid() : renderTimeGrid()}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,111 @@
+// lib/api.ts
+// Small helpers shared by the route handlers under app/api
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { AppointmentConflictError } from '@/app/services/AppointmentService';
+import { AuthenticationError, ForbiddenError } from '@/lib/permissions';
+
+/** Positive integer id from a route segment, or null */
+export function parseId(raw: string | undefined): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/** Machine ids from `machine_ids=1,2,3` or repeated `machine_id=1&machine_id=2` */
+export function parseMachineIds(params: URLSearchParams): number[] {
+  const values: string[] = [
+    ...params.getAll('machine_id'),
+    ...params.getAll('machine_ids'),
+  ];
+
+  const pieces =
+    values.length === 1 && values[0]?.includes(',')
+      ? values[0].split(',')
+      : values;
+
+  const ids = pieces
+    .map((v) => Number(v?.trim()))
+    .filter((n) => Number.isFinite(n) && n > 0);
+
+  // dedupe
+  return Array.from(new Set(ids));
+}
+
+/** Read a JSON body, returning null on malformed input */
+export async function readJson(request: Request): Promise<any | null> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+export function notFound(message: string) {
+  return NextResponse.json({ error: message }, { status: 404 });
+}
+
+export function validationError(error: ZodError) {
+  const issue = error.issues[0];
+  return NextResponse.json(
+    {
+      error: issue?.message ?? 'Datos inválidos',
+      issues: error.issues.map((i) => ({ path: i.path.join('.'), message: i.message })),
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * Map permission and known Prisma errors to HTTP responses:
+ * AuthenticationError → 401, ForbiddenError → 403,
+ * P2025 (record not found) → 404, P2003 (FK constraint) / P2002 (unique) → 409, anything else → 500.
+ */
+export function errorResponse(
+  error: any,
+  messages: { fallback: string; notFound?: string; conflict?: string }
+) {
+  if (error instanceof AuthenticationError) {
+    return NextResponse.json({ error: error.message }, { status: 401 });
+  }
+  if (error instanceof ForbiddenError) {
+    return NextResponse.json({ error: error.message }, { status: 403 });
+  }
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: messages.notFound ?? 'Recurso no encontrado' }, { status: 404 });
+    }
+    if (error.code === 'P2003' || error.code === 'P2002') {
+      return NextResponse.json(
+        { error: messages.conflict ?? 'El recurso está en uso', code: error.code },
+        { status: 409 }
+      );
+    }
+  }
+  console.error(error);
+  return NextResponse.json({ error: error?.message ?? messages.fallback }, { status: 500 });
+}
+
+/** errorResponse plus booking conflicts (409 with reason/details) and invalid schedules (400) */
+export function appointmentErrorResponse(error: any, fallback: string) {
+  if (error instanceof AuthenticationError || error instanceof ForbiddenError) {
+    return errorResponse(error, { fallback });
+  }
+  if (error instanceof AppointmentConflictError) {
+    return NextResponse.json(
+      { error: error.message, reason: error.reason, details: error.details },
+      { status: 409 }
+    );
+  }
+  // Serializable transaction lost a race against another booking
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+    return NextResponse.json(
+      { error: 'El horario fue modificado por otra reserva, inténtalo de nuevo', reason: 'write_conflict' },
+      { status: 409 }
+    );
+  }
+  if (typeof error?.message === 'string' && /invalid|missing/i.test(error.message)) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return errorResponse(error, { fallback, notFound: 'Cita no encontrada' });
+}
@@ -0,0 +1,49 @@
+// lib/appointment-status.ts
+// Appointment lifecycle: which status changes are allowed and what they record.
+import type { AppointmentStatus } from '@prisma/client';
+
+export const ALLOWED_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED', 'REJECTED'], // CONFIRMED / REJECTED = approval decision
+  CONFIRMED: ['IN_PROGRESS', 'CANCELLED', 'NO_SHOW'],
+  IN_PROGRESS: ['COMPLETED'],
+  COMPLETED: [],
+  CANCELLED: [],
+  NO_SHOW: [],
+  REJECTED: [],
+};
+
+// Statuses that hold the machines and count towards the energy load
+export const RESERVING_STATUSES: AppointmentStatus[] = ['PENDING', 'CONFIRMED', 'IN_PROGRESS'];
+
+// Statuses in which date, time and machines can still be changed
+export const EDITABLE_STATUSES: AppointmentStatus[] = ['PENDING', 'CONFIRMED'];
+
+// Timestamp column stamped when entering each status
+export const TRANSITION_TIMESTAMPS = {
+  CONFIRMED: 'confirmed_at',
+  IN_PROGRESS: 'started_at',
+  COMPLETED: 'completed_at',
+  CANCELLED: 'cancelled_at',
+  NO_SHOW: 'no_show_at',
+  REJECTED: 'rejected_at',
+} as const satisfies Partial<Record<AppointmentStatus, string>>;
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  PENDING: 'Pendiente',
+  CONFIRMED: 'Confirmada',
+  IN_PROGRESS: 'En curso',
+  COMPLETED: 'Completada',
+  CANCELLED: 'Cancelada',
+  NO_SHOW: 'No se presentó',
+  REJECTED: 'Rechazada',
+};
+
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/** Data for moving into `to`: the status plus its timestamp, if it has one */
+export function transitionData(to: AppointmentStatus, at: Date = new Date()) {
+  const field = TRANSITION_TIMESTAMPS[to as keyof typeof TRANSITION_TIMESTAMPS];
+  return { status: to, ...(field ? { [field]: at } : {}) };
+}
@@ -0,0 +1,33 @@
+// lib/appointment-token.ts
+// Signed tokens that let the booker manage an appointment without an account.
+// token = "<id>.<HMAC-SHA256(id)>" (base64url); unguessable without APPOINTMENT_TOKEN_SECRET.
+import { createHmac, timingSafeEqual } from 'crypto';
+
+function secret(): string {
+  const value = process.env.APPOINTMENT_TOKEN_SECRET;
+  if (value) return value;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('APPOINTMENT_TOKEN_SECRET is not set');
+  }
+  return 'dev-appointment-token-secret';
+}
+
+function sign(id: number): string {
+  return createHmac('sha256', secret()).update(`appointment:${id}`).digest('base64url');
+}
+
+export function createAppointmentToken(id: number): string {
+  return `${id}.${sign(id)}`;
+}
+
+/** Appointment id for a valid token, or null */
+export function verifyAppointmentToken(token: string): number | null {
+  const [rawId, signature] = (token ?? '').split('.');
+  const id = Number(rawId);
+  if (!Number.isInteger(id) || id <= 0 || !signature) return null;
+
+  const expected = Buffer.from(sign(id));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+  return id;
+}
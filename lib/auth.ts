@@ -0,0 +1,103 @@
+// lib/auth.ts
+// Passwordless login: the user receives a signed, short-lived link by email and gets a signed
+// session cookie back. Both tokens follow lib/appointment-token.ts (HMAC, no server state):
+//   login token   = "<base64url(email)>.<expires ms>.<HMAC>"
+//   session token = "<user id>.<expires ms>.<HMAC>"
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { UserService } from '@/app/services/UserService';
+import { AuthenticationError, type Actor } from '@/lib/permissions';
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30; // 30 days
+const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+function secret(): string {
+  const value = process.env.AUTH_SECRET;
+  if (value) return value;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET is not set');
+  }
+  return 'dev-auth-secret';
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret()).update(payload).digest('base64url');
+}
+
+function signatureMatches(payload: string, signature: string): boolean {
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function createLoginToken(email: string, now = Date.now()): string {
+  const encoded = Buffer.from(normalizeEmail(email)).toString('base64url');
+  const expires = now + LOGIN_TOKEN_TTL_MS;
+  return `${encoded}.${expires}.${sign(`login:${encoded}:${expires}`)}`;
+}
+
+/** Email of a valid, unexpired login token, or null */
+export function verifyLoginToken(token: string, now = Date.now()): string | null {
+  const [encoded, rawExpires, signature] = (token ?? '').split('.');
+  const expires = Number(rawExpires);
+  if (!encoded || !signature || !Number.isInteger(expires) || expires < now) return null;
+  if (!signatureMatches(`login:${encoded}:${expires}`, signature)) return null;
+  return Buffer.from(encoded, 'base64url').toString();
+}
+
+export function createSessionToken(userId: number, now = Date.now()): string {
+  const expires = now + SESSION_MAX_AGE_SECONDS * 1000;
+  return `${userId}.${expires}.${sign(`session:${userId}:${expires}`)}`;
+}
+
+/** User id of a valid, unexpired session token, or null */
+export function verifySessionToken(token: string, now = Date.now()): number | null {
+  const [rawId, rawExpires, signature] = (token ?? '').split('.');
+  const id = Number(rawId);
+  const expires = Number(rawExpires);
+  if (!Number.isInteger(id) || id <= 0 || !signature || !Number.isInteger(expires) || expires < now) return null;
+  if (!signatureMatches(`session:${id}:${expires}`, signature)) return null;
+  return id;
+}
+
+/** Only same-site paths are allowed as the post-login redirect */
+export function safeNextPath(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+/**
+ * Local stand-in for the email round trip: outside production, and when no SMTP account is
+ * configured (or AUTH_DEV_LOGIN=true), the login endpoint returns the link instead of mailing it.
+ */
+export function isLocalLoginEnabled(): boolean {
+  if (process.env.NODE_ENV === 'production') return false;
+  return process.env.AUTH_DEV_LOGIN === 'true' || !process.env.EMAIL_SERVER_USER;
+}
+
+/** User of the session cookie of the current request, or null (route handlers / server components) */
+export async function currentUser() {
+  const token = cookies().get(SESSION_COOKIE)?.value;
+  const userId = token ? verifySessionToken(token) : null;
+  if (userId === null) return null;
+  return new UserService().getById(userId);
+}
+
+/** Permissions view of the current user, or null when signed out */
+export async function currentActor(): Promise<Actor | null> {
+  const token = cookies().get(SESSION_COOKIE)?.value;
+  const userId = token ? verifySessionToken(token) : null;
+  if (userId === null) return null;
+  return new UserService().getActor(userId);
+}
+
+/** Like currentActor, but throws AuthenticationError (→ 401) when signed out */
+export async function requireActor(): Promise<Actor> {
+  const actor = await currentActor();
+  if (!actor) throw new AuthenticationError();
+  return actor;
+}
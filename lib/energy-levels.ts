@@ -0,0 +1,36 @@
+// lib/energy-levels.ts
+// Buckets used to color reservations by the energy they draw (kWh); client-safe
+
+export type EnergyLevel = {
+  key: 'low' | 'medium' | 'high';
+  label: string;
+  description: string;
+  className: string; // tailwind classes for a block of that level
+};
+
+export const ENERGY_LEVELS: EnergyLevel[] = [
+  {
+    key: 'low',
+    label: 'Bajo',
+    description: 'menos de 5 kWh',
+    className: 'bg-emerald-100 border-emerald-500 text-emerald-950',
+  },
+  {
+    key: 'medium',
+    label: 'Medio',
+    description: 'de 5 a 20 kWh',
+    className: 'bg-amber-100 border-amber-500 text-amber-950',
+  },
+  {
+    key: 'high',
+    label: 'Alto',
+    description: 'más de 20 kWh',
+    className: 'bg-red-100 border-red-500 text-red-950',
+  },
+];
+
+export function energyLevel(kwh: number): EnergyLevel {
+  if (kwh < 5) return ENERGY_LEVELS[0];
+  if (kwh <= 20) return ENERGY_LEVELS[1];
+  return ENERGY_LEVELS[2];
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ExponentialSmoothingForecaster, type DailyLoad } from '@/lib/forecast';
+import { addDays, formatDate, parseDateOnly } from '@/lib/time';
+
+// The same weekday `weeks` times before `date`, every hour at `kw`
+const weeksBefore = (date: string, weeks: number, kw: number, offsetDays = 0): DailyLoad[] =>
+  Array.from({ length: weeks }, (_, i) => ({
+    date: formatDate(addDays(parseDateOnly(date), -7 * (i + 1) + offsetDays)),
+    kw: new Array(24).fill(kw),
+  }));
+
+describe('ExponentialSmoothingForecaster', () => {
+  const forecaster = new ExponentialSmoothingForecaster();
+  const target = '2025-09-16'; // a Tuesday
+
+  it('gives no forecast with fewer than minWeeks of the same weekday', () => {
+    expect(forecaster.forecast(weeksBefore(target, 2, 10), target)).toBeNull();
+    expect(new ExponentialSmoothingForecaster({ minWeeks: 2 }).forecast(weeksBefore(target, 2, 10), target)).not.toBeNull();
+  });
+
+  it('leaves out hours without readings', () => {
+    const history = weeksBefore(target, 3, 10).map((d) => ({ ...d, kw: d.kw.map((kw, hour) => (hour === 3 ? null : kw)) }));
+    const forecast = forecaster.forecast(history, target);
+    expect(forecast[3]).toBeNull();
+    expect(forecast[10]).toBeCloseTo(10);
+  });
+
+  it('weighs recent weeks more', () => {
+    const history = [...weeksBefore(target, 3, 10).slice(1), { date: formatDate(addDays(parseDateOnly(target), -7)), kw: new Array(24).fill(20) }];
+    const [kw] = forecaster.forecast(history, target);
+    expect(kw).toBeGreaterThan(10);
+    expect(kw).toBeLessThan(20);
+  });
+
+  it('uses a seasonal factor of 1 without a year of history', () => {
+    const forecast = forecaster.forecast(weeksBefore(target, 6, 10), target);
+    expect(forecast.every((kw) => kw !== null && Math.abs(kw - 10) < 1e-9)).toBe(true);
+  });
+
+  it('scales the level by how much the load moved last year', () => {
+    const lastYear = formatDate(addDays(parseDateOnly(target), -364));
+    const history = [
+      ...weeksBefore(target, 6, 10),
+      // last year: 5 kW on the weeks before, 10 kW on the date and the weeks after
+      ...weeksBefore(lastYear, 6, 5),
+      ...[0, 7, 14].map((days) => ({
+        date: formatDate(addDays(parseDateOnly(lastYear), days)),
+        kw: new Array(24).fill(10),
+      })),
+    ];
+    // level 10 kW; last year 8 kW around the date (-2..+2 weeks) over 5 kW on the training weeks
+    const [kw] = new ExponentialSmoothingForecaster({ weeks: 6 }).forecast(history, target);
+    expect(kw).toBeCloseTo(16);
+  });
+
+  it('ignores readings from the target date on', () => {
+    const history = weeksBefore(target, 4, 10);
+    const withFuture = [...history, ...weeksBefore(target, 60, 50, 7 * 60)];
+    expect(forecaster.forecast(withFuture, target)).toEqual(forecaster.forecast(history, target));
+  });
+});
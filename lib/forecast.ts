@@ -0,0 +1,95 @@
+// lib/forecast.ts
+// Baseline forecast for a specific date from the hourly meter history (MeterLoad). Forecasters are
+// pluggable: AvailabilityService only calls `forecast`, so another model can replace the default
+// one without touching slot evaluation. The default runs locally:
+//   level   → exponential smoothing, hour by hour, over the same weekday of the last weeks
+//   season  → how much the load moved last year from those weeks to the target date
+//             (month-of-year effects: the start of classes, winter heating, recesses)
+import { addDays, formatDate, parseDateOnly, weekday } from '@/lib/time';
+
+// 24 hourly averages in kW of one day, null for hours without readings
+export type DailyLoad = { date: string; kw: (number | null)[] };
+
+export interface BaselineForecaster {
+  /**
+   * kW for every hour of `date` ("YYYY-MM-DD") from the days before it, null for hours it can't
+   * forecast; null altogether when the history isn't enough (the weekly PreferredHour rows are used)
+   */
+  forecast(history: DailyLoad[], date: string): (number | null)[] | null;
+}
+
+export type ExponentialSmoothingOptions = {
+  alpha: number;        // weight of the most recent week (0..1)
+  weeks: number;        // same-weekday days used for the level
+  minWeeks: number;     // fewer than this → no forecast
+  seasonDays: number;   // days around last year's date compared for the seasonal factor
+};
+
+const DEFAULT_OPTIONS: ExponentialSmoothingOptions = { alpha: 0.3, weeks: 12, minWeeks: 3, seasonDays: 14 };
+
+// 52 weeks: last year's date on the same weekday
+const YEAR_DAYS = 364;
+
+export class ExponentialSmoothingForecaster implements BaselineForecaster {
+  private readonly options: ExponentialSmoothingOptions;
+
+  constructor(options: Partial<ExponentialSmoothingOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  forecast(history: DailyLoad[], date: string): (number | null)[] | null {
+    const target = parseDateOnly(date);
+    // one history is shared by every date of a range: never look at readings from the target on
+    const past = history.filter((d) => d.date < date);
+    const training = past
+      .filter((d) => weekday(parseDateOnly(d.date)) === weekday(target))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-this.options.weeks);
+    if (training.length < this.options.minWeeks) return null;
+
+    const factor = this.seasonalFactor(past, training, target);
+    return Array.from({ length: 24 }, (_, hour) => {
+      const level = this.smooth(training.map((d) => d.kw[hour]));
+      return level === null ? null : level * factor;
+    });
+  }
+
+  /** Simple exponential smoothing, oldest first; hours without readings are skipped */
+  private smooth(values: (number | null)[]): number | null {
+    let level: number | null = null;
+    for (const value of values) {
+      if (value === null) continue;
+      level = level === null ? value : this.options.alpha * value + (1 - this.options.alpha) * level;
+    }
+    return level;
+  }
+
+  /**
+   * Last year's load around the target date over last year's load on the training days (smoothed
+   * like the level, so recent weeks weigh the same on both sides); 1 when the history doesn't reach
+   * back a year
+   */
+  private seasonalFactor(history: DailyLoad[], training: DailyLoad[], target: Date): number {
+    const byDate = new Map(history.map((d) => [d.date, d]));
+    const lastYear = addDays(target, -YEAR_DAYS);
+    const reference: DailyLoad[] = [];
+    for (let offset = -this.options.seasonDays; offset <= this.options.seasonDays; offset += 7) {
+      const day = byDate.get(formatDate(addDays(lastYear, offset)));
+      if (day) reference.push(day);
+    }
+    const base = training
+      .map((d) => byDate.get(formatDate(addDays(parseDateOnly(d.date), -YEAR_DAYS))))
+      .filter((d): d is DailyLoad => d !== undefined);
+
+    const referenceMean = meanLoad(reference);
+    const baseMean = this.smooth(base.map((d) => meanLoad([d])));
+    if (reference.length < 2 || base.length < 2 || !referenceMean || !baseMean) return 1;
+    return referenceMean / baseMean;
+  }
+}
+
+/** Average kW over every hour with readings of the days (null without any) */
+function meanLoad(days: DailyLoad[]): number | null {
+  const values = days.flatMap((d) => d.kw).filter((kw): kw is number => kw !== null);
+  return values.length > 0 ? values.reduce((sum, kw) => sum + kw, 0) / values.length : null;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseIcs } from '@/lib/ics';
+
+const calendar = (...events: string[][]) =>
+  ['BEGIN:VCALENDAR', ...events.flatMap((e) => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+describe('parseIcs', () => {
+  it('reads the exclusive DTEND of all-day events as the day before', () => {
+    const { events } = parseIcs(
+      calendar(
+        ['UID:1', 'SUMMARY:Navidad', 'DTSTART;VALUE=DATE:20251225', 'DTEND;VALUE=DATE:20251226'],
+        ['UID:2', 'SUMMARY:Receso', 'DTSTART;VALUE=DATE:20250721', 'DTEND;VALUE=DATE:20250802'],
+        ['UID:3', 'SUMMARY:Sin fin', 'DTSTART;VALUE=DATE:20250509'],
+      )
+    );
+    expect(events.map((e) => [e.start_date, e.end_date, e.start_time, e.end_time])).toEqual([
+      ['2025-12-25', '2025-12-25', null, null],
+      ['2025-07-21', '2025-08-01', null, null],
+      ['2025-05-09', '2025-05-09', null, null],
+    ]);
+  });
+
+  it('reads a DTEND at midnight as the end of the previous day', () => {
+    const { events } = parseIcs(calendar(['SUMMARY:Corte', 'DTSTART:20250916T180000', 'DTEND:20250917T000000']));
+    expect(events[0]).toMatchObject({ start_date: '2025-09-16', end_date: '2025-09-16', start_time: '18:00', end_time: null });
+  });
+
+  it('converts UTC times to APP_TIME_ZONE and keeps floating times as they are', () => {
+    const { events } = parseIcs(
+      calendar(
+        ['UID:utc', 'DTSTART:20250916T130000Z', 'DTEND:20250916T150000Z'],
+        ['UID:floating', 'DTSTART:20250916T130000', 'DTEND:20250916T150000'],
+        ['UID:late', 'DTSTART:20250917T013000Z', 'DTEND:20250917T023000Z'],
+      )
+    );
+    expect(events.map((e) => [e.uid, e.start_date, e.start_time, e.end_time])).toEqual([
+      ['utc', '2025-09-16', '10:00', '12:00'],
+      ['floating', '2025-09-16', '13:00', '15:00'],
+      ['late', '2025-09-16', '22:30', '23:30'],
+    ]);
+  });
+
+  it('unfolds long lines and unescapes text', () => {
+    const { events } = parseIcs(
+      calendar(['SUMMARY:Mantenimiento de la red\\, edificio', '  central', 'DTSTART;VALUE=DATE:20251001'])
+    );
+    expect(events[0].title).toBe('Mantenimiento de la red, edificio central');
+  });
+
+  it('skips recurring events and events ending before they start', () => {
+    const { events, skipped } = parseIcs(
+      calendar(
+        ['SUMMARY:Semanal', 'DTSTART:20250916T100000', 'DTEND:20250916T120000', 'RRULE:FREQ=WEEKLY'],
+        ['SUMMARY:Al revés', 'DTSTART:20250916T120000', 'DTEND:20250916T100000'],
+      )
+    );
+    expect(events).toHaveLength(0);
+    expect(skipped.map((s) => s.reason)).toEqual([
+      'Los eventos recurrentes no se importan',
+      'La fecha de fin es anterior a la de inicio',
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+// lib/ics.ts
+// Minimal iCalendar (RFC 5545) reader for importing closures: holiday calendars, university
+// recesses, scheduled outages. Only single VEVENTs are read; recurring events (RRULE) are reported
+// as skipped instead of being expanded.
+import { addDays, dayOf, formatDate, formatTime, parseDateOnly, timeOfDay } from '@/lib/time';
+
+export type IcsEvent = {
+  uid?: string;
+  title: string;
+  start_date: string;        // "YYYY-MM-DD"
+  end_date: string;          // "YYYY-MM-DD", inclusive
+  start_time: string | null; // "HH:MM", null for all-day events
+  end_time: string | null;   // "HH:MM", null when the event lasts until the end of end_date
+};
+
+export type IcsSkippedEvent = { uid?: string; title?: string; reason: string };
+
+type Property = { params: Record<string, string>; value: string };
+
+/** Events of an .ics file, plus the ones that can't be imported and why */
+export function parseIcs(text: string): { events: IcsEvent[]; skipped: IcsSkippedEvent[] } {
+  const events: IcsEvent[] = [];
+  const skipped: IcsSkippedEvent[] = [];
+
+  let current: Record<string, Property> | null = null;
+  for (const line of unfold(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+    } else if (line === 'END:VEVENT' && current) {
+      const result = toEvent(current);
+      if ('reason' in result) skipped.push(result);
+      else events.push(result);
+      current = null;
+    } else if (current) {
+      const property = parseLine(line);
+      // the first occurrence wins (some exporters repeat X- properties)
+      if (property && !current[property.name]) current[property.name] = property;
+    }
+  }
+  return { events, skipped };
+}
+
+function toEvent(props: Record<string, Property>): IcsEvent | IcsSkippedEvent {
+  const uid = props.UID?.value;
+  const title = props.SUMMARY ? unescapeText(props.SUMMARY.value) : 'Cierre';
+
+  if (props.RRULE) return { uid, title, reason: 'Los eventos recurrentes no se importan' };
+  if (!props.DTSTART) return { uid, title, reason: 'Falta la fecha de inicio (DTSTART)' };
+
+  const start = parseDateTime(props.DTSTART);
+  if (!start) return { uid, title, reason: 'Fecha de inicio inválida' };
+
+  if (start.time === null) {
+    // all-day: DTEND is exclusive (the day after the last one)
+    const end = props.DTEND ? parseDateTime(props.DTEND) : null;
+    const lastDay = end ? addDays(end.day, -1) : start.day;
+    return {
+      uid,
+      title,
+      start_date: formatDate(start.day),
+      end_date: formatDate(lastDay < start.day ? start.day : lastDay),
+      start_time: null,
+      end_time: null,
+    };
+  }
+
+  const end = props.DTEND ? parseDateTime(props.DTEND) : null;
+  if (!end || end.time === null) return { uid, title, reason: 'Falta la fecha de fin (DTEND)' };
+  if (end.day < start.day || (end.day.getTime() === start.day.getTime() && end.time <= start.time)) {
+    return { uid, title, reason: 'La fecha de fin es anterior a la de inicio' };
+  }
+
+  // ending at midnight means "until the end of the previous day"
+  const endsAtMidnight = end.time === '00:00';
+  return {
+    uid,
+    title,
+    start_date: formatDate(start.day),
+    end_date: formatDate(endsAtMidnight ? addDays(end.day, -1) : end.day),
+    start_time: start.time,
+    end_time: endsAtMidnight ? null : end.time,
+  };
+}
+
+/**
+ * DATE ("20251225") or DATE-TIME ("20250916T140000Z" / floating "20250916T140000"). UTC times are
+ * converted to APP_TIME_ZONE; floating and TZID times are taken as wall-clock times of APP_TIME_ZONE.
+ */
+function parseDateTime(property: Property): { day: Date; time: string | null } | null {
+  const m = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/);
+  if (!m) return null;
+  const [, y, mo, d, hh, mm, ss, utc] = m;
+  if (hh === undefined) return { day: parseDateOnly(`${y}-${mo}-${d}`), time: null };
+  if (utc) {
+    const instant = new Date(`${y}-${mo}-${d}T${hh}:${mm}:${ss}Z`);
+    return { day: dayOf(instant), time: formatTime(timeOfDay(instant)) };
+  }
+  return { day: parseDateOnly(`${y}-${mo}-${d}`), time: `${hh}:${mm}` };
+}
+
+/** "DTSTART;VALUE=DATE:20251225" → { name: 'DTSTART', params: { VALUE: 'DATE' }, value: '20251225' } */
+function parseLine(line: string): (Property & { name: string }) | null {
+  const colon = line.indexOf(':');
+  if (colon <= 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params = Object.fromEntries(
+    rawParams.map((p) => {
+      const [key, ...value] = p.split('=');
+      return [key.toUpperCase(), value.join('=')];
+    })
+  );
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1).trim() };
+}
+
+/** Long lines are folded with CRLF + space/tab */
+function unfold(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .filter(Boolean);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c) => (c === 'n' || c === 'N' ? ' ' : c)).trim();
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseMeterCsv } from '@/lib/meter-csv';
+
+describe('parseMeterCsv', () => {
+  it('reads comma-separated readings and skips the header row', () => {
+    const { readings, skipped } = parseMeterCsv('timestamp,kw\n2025-09-16 10:00,12.5\n2025-09-16 10:15:00,13\n');
+    expect(readings).toEqual([
+      { date: '2025-09-16', time: '10:00', kw: 12.5 },
+      { date: '2025-09-16', time: '10:15', kw: 13 },
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it('reads semicolon-separated readings with decimal commas', () => {
+    const { readings } = parseMeterCsv('"Fecha";"Potencia"\r\n"2025-09-16 10:00";"12,5"\r\n2025-09-16 10:15;0,75\r\n');
+    expect(readings).toEqual([
+      { date: '2025-09-16', time: '10:00', kw: 12.5 },
+      { date: '2025-09-16', time: '10:15', kw: 0.75 },
+    ]);
+  });
+
+  it('converts timestamps with an offset or Z to APP_TIME_ZONE', () => {
+    const { readings } = parseMeterCsv(
+      ['2025-09-16T13:15:00Z,1', '2025-09-16T10:15:00-03:00,2', '2025-09-17T01:30:00+00:00,3'].join('\n')
+    );
+    expect(readings.map((r) => [r.date, r.time])).toEqual([
+      ['2025-09-16', '10:15'],
+      ['2025-09-16', '10:15'],
+      ['2025-09-16', '22:30'],
+    ]);
+  });
+
+  it('reports the lines it cannot read, a header only on the first line', () => {
+    const { readings, skipped } = parseMeterCsv(
+      ['2025-09-16 10:00,1', 'timestamp,kw', '2025-09-16 25:00,1', '2025-09-16 10:30,abc', '2025-09-16 10:45,-2'].join('\n')
+    );
+    expect(readings).toHaveLength(1);
+    expect(skipped).toEqual([
+      { line: 2, reason: 'Fecha y hora inválidas' },
+      { line: 3, reason: 'Fecha y hora inválidas' },
+      { line: 4, reason: 'Consumo inválido' },
+      { line: 5, reason: 'El consumo no puede ser negativo' },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+// lib/meter-csv.ts
+// Reader for the readings exported by the campus energy meters: one "timestamp, kW" row per
+// reading, comma or semicolon separated (the latter usually with decimal commas), with or without
+// a header row. Timestamps with an offset or "Z" are converted to APP_TIME_ZONE; the rest are
+// taken as wall-clock times of APP_TIME_ZONE, like floating times in lib/ics.ts.
+import { dayOf, formatDate, formatTime, parseDateOnly, timeOfDay } from '@/lib/time';
+
+export type MeterReading = {
+  date: string; // "YYYY-MM-DD"
+  time: string; // "HH:MM"
+  kw: number;
+};
+
+export type MeterSkippedLine = { line: number; reason: string };
+
+/** Readings of a meter export, plus the lines that can't be read and why */
+export function parseMeterCsv(text: string): { readings: MeterReading[]; skipped: MeterSkippedLine[] } {
+  const readings: MeterReading[] = [];
+  const skipped: MeterSkippedLine[] = [];
+
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    const delimiter = line.includes(';') ? ';' : ',';
+    const [timestamp, value] = line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+
+    const at = parseTimestamp(timestamp ?? '');
+    const kw = Number((value ?? '').replace(',', '.'));
+    if (!at) {
+      // a first line that isn't a reading is the header
+      if (i > 0 || value === undefined || !Number.isNaN(kw)) skipped.push({ line: i + 1, reason: 'Fecha y hora inválidas' });
+      return;
+    }
+    if (!value || Number.isNaN(kw)) {
+      skipped.push({ line: i + 1, reason: 'Consumo inválido' });
+    } else if (kw < 0) {
+      skipped.push({ line: i + 1, reason: 'El consumo no puede ser negativo' });
+    } else {
+      readings.push({ ...at, kw });
+    }
+  });
+  return { readings, skipped };
+}
+
+/** "2025-09-16T10:15:00-03:00", "2025-09-16T13:15:00Z" or "2025-09-16 10:15[:00]" */
+function parseTimestamp(value: string): { date: string; time: string } | null {
+  const m = value.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!m) return null;
+  const [, date, hh, mm, zone] = m;
+  if (Number(hh) > 23 || Number(mm) > 59) return null;
+  if (zone) {
+    const instant = new Date(value.replace(' ', 'T'));
+    if (Number.isNaN(instant.getTime())) return null;
+    return { date: formatDate(dayOf(instant)), time: formatTime(timeOfDay(instant)) };
+  }
+  if (Number.isNaN(parseDateOnly(date).getTime())) return null;
+  return { date, time: `${hh}:${mm}` };
+}
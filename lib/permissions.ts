@@ -0,0 +1,75 @@
+// lib/permissions.ts
+// Who can do what. Reading the catalog (laboratories, machines, the baseline and availability)
+// is public; everything else needs a signed-in user whose role allows it:
+//   STUDENT       books, and cancels / reschedules their own appointments
+//   LAB_MANAGER   + edits the laboratories they manage and their machines, and manages (approves,
+//                 edits, changes status of) the appointments booked there
+//   ENERGY_ADMIN  + edits the PreferredHour baseline and the global energy thresholds, creates and
+//                 deletes laboratories, assigns roles; acts as manager of every laboratory
+// Services take the acting user and throw ForbiddenError; lib/api.ts maps it to 403.
+import type { UserRole } from '@prisma/client';
+
+export type Actor = {
+  id: number;
+  role: UserRole;
+  managed_laboratory_ids: number[];
+};
+
+// No (valid) session → 401
+export class AuthenticationError extends Error {
+  constructor(message = 'Debes iniciar sesión') {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+// Signed in but not allowed → 403
+export class ForbiddenError extends Error {
+  constructor(message = 'No tienes permisos para realizar esta acción') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  STUDENT: 'Estudiante',
+  LAB_MANAGER: 'Responsable de laboratorio',
+  ENERGY_ADMIN: 'Administrador de energía',
+};
+
+export function isEnergyAdmin(actor: Actor): boolean {
+  return actor.role === 'ENERGY_ADMIN';
+}
+
+export function managesLaboratory(actor: Actor, laboratoryId: number): boolean {
+  if (isEnergyAdmin(actor)) return true;
+  return actor.role === 'LAB_MANAGER' && actor.managed_laboratory_ids.includes(laboratoryId);
+}
+
+/** Laboratories whose data the actor manages; undefined means all of them */
+export function managedLaboratoryIds(actor: Actor): number[] | undefined {
+  if (isEnergyAdmin(actor)) return undefined;
+  return actor.role === 'LAB_MANAGER' ? actor.managed_laboratory_ids : [];
+}
+
+export function assertEnergyAdmin(actor: Actor) {
+  if (!isEnergyAdmin(actor)) {
+    throw new ForbiddenError('Solo un administrador de energía puede realizar esta acción');
+  }
+}
+
+export function assertManagesLaboratory(actor: Actor, laboratoryId: number) {
+  if (!managesLaboratory(actor, laboratoryId)) {
+    throw new ForbiddenError('No administras este laboratorio');
+  }
+}
+
+/** The booker or a manager of the appointment's laboratory */
+export function assertCanAccessAppointment(
+  actor: Actor,
+  appointment: { user_id: number | null; laboratory_id: number },
+) {
+  if (appointment.user_id !== actor.id && !managesLaboratory(actor, appointment.laboratory_id)) {
+    throw new ForbiddenError('No tienes acceso a esta cita');
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { combinedSegments, energyKwh, machineSegments, maxKw, peakKw, type ProfiledMachine } from '@/lib/power-profile';
+
+const furnace: ProfiledMachine = {
+  power_consumption: 2,
+  power_profile: { kind: 'phases', warm_up: { minutes: 30, kw: 6 }, steady_kw: 2, cool_down: { minutes: 15, kw: 1 } },
+};
+
+describe('machineSegments', () => {
+  it('draws the nominal power the whole run without a profile', () => {
+    const run = machineSegments({ power_consumption: 3, power_profile: null }, 90);
+    expect(run).toEqual([{ start: 0, end: 90, kw: 3 }]);
+    expect(energyKwh(run)).toBe(4.5);
+  });
+
+  it('follows warm-up, steady state and cool-down', () => {
+    const run = machineSegments(furnace, 120);
+    expect(run).toEqual([
+      { start: 0, end: 30, kw: 6 },
+      { start: 30, end: 105, kw: 2 },
+      { start: 105, end: 120, kw: 1 },
+    ]);
+    expect(energyKwh(run)).toBeCloseTo(3 + 2.5 + 0.25);
+  });
+
+  it('cuts a run shorter than the warm-up to the warm-up alone', () => {
+    const run = machineSegments(furnace, 20);
+    expect(run).toEqual([{ start: 0, end: 20, kw: 6 }]);
+    expect(energyKwh(run)).toBeCloseTo(2);
+    expect(peakKw(run)).toBe(6);
+  });
+
+  it('keeps the warm-up first and fits what is left of the cool-down', () => {
+    expect(machineSegments(furnace, 40)).toEqual([
+      { start: 0, end: 30, kw: 6 },
+      { start: 30, end: 40, kw: 1 },
+    ]);
+  });
+
+  it('holds the last sample of a curve until the end of the run', () => {
+    const run = machineSegments({ power_consumption: 1, power_profile: { kind: 'curve', interval_minutes: 15, samples_kw: [4, 2] } }, 60);
+    expect(run).toEqual([
+      { start: 0, end: 15, kw: 4 },
+      { start: 15, end: 60, kw: 2 },
+    ]);
+  });
+});
+
+describe('combinedSegments', () => {
+  it('adds the draws of machines running together', () => {
+    const run = combinedSegments([furnace, { power_consumption: 1, power_profile: null }], 60);
+    expect(run).toEqual([
+      { start: 0, end: 30, kw: 7 },
+      { start: 30, end: 45, kw: 3 },
+      { start: 45, end: 60, kw: 2 },
+    ]);
+    expect(peakKw(run)).toBe(7);
+  });
+});
+
+describe('maxKw', () => {
+  it('is the highest draw of any phase, whatever the run', () => {
+    expect(maxKw(furnace)).toBe(6);
+  });
+});
@@ -0,0 +1,94 @@
+// lib/power-profile.ts
+// Power drawn by machines over a run. A machine without a profile draws its nominal
+// power_consumption the whole time; with one, the draw depends on the minute of the run:
+//   phases → warm-up, steady state and cool-down (a furnace ramping up, holding, cooling down)
+//   curve  → kW sampled every interval_minutes from the start, the last sample holding until the end
+// Runs are cut into segments of constant power so energy and peaks are exact sums, not samples.
+
+export type PowerPhase = { minutes: number; kw: number };
+
+export type PowerProfile =
+  | { kind: 'phases'; warm_up?: PowerPhase | null; steady_kw: number; cool_down?: PowerPhase | null }
+  | { kind: 'curve'; interval_minutes: number; samples_kw: number[] };
+
+export type ProfiledMachine = {
+  power_consumption: number; // kW, nominal
+  power_profile: PowerProfile | null;
+};
+
+// Constant draw between two minutes of the run
+export type PowerSegment = { start: number; end: number; kw: number };
+
+/** A Json column as stored by MachineService (validated by powerProfileSchema on the way in) */
+export function readPowerProfile(value: unknown): PowerProfile | null {
+  if (!value || typeof value !== 'object') return null;
+  const kind = (value as { kind?: unknown }).kind;
+  return kind === 'phases' || kind === 'curve' ? (value as PowerProfile) : null;
+}
+
+/** Draw of one machine over a run of `minutes` */
+export function machineSegments(machine: ProfiledMachine, minutes: number): PowerSegment[] {
+  const profile = machine.power_profile;
+  if (!profile) return segments([[0, minutes, machine.power_consumption]]);
+
+  if (profile.kind === 'phases') {
+    // short runs keep the warm-up first, then whatever fits of the cool-down
+    const warm = Math.min(profile.warm_up?.minutes ?? 0, minutes);
+    const cool = Math.min(profile.cool_down?.minutes ?? 0, minutes - warm);
+    return segments([
+      [0, warm, profile.warm_up?.kw ?? 0],
+      [warm, minutes - cool, profile.steady_kw],
+      [minutes - cool, minutes, profile.cool_down?.kw ?? 0],
+    ]);
+  }
+
+  const { interval_minutes: interval, samples_kw: samples } = profile;
+  return segments(
+    samples.map((kw, i) => [
+      Math.min(i * interval, minutes),
+      i === samples.length - 1 ? minutes : Math.min((i + 1) * interval, minutes),
+      kw,
+    ]),
+  );
+}
+
+/** Summed draw of several machines running together for `minutes` */
+export function combinedSegments(machines: ProfiledMachine[], minutes: number): PowerSegment[] {
+  const perMachine = machines.map((m) => machineSegments(m, minutes));
+  const bounds = Array.from(new Set([0, minutes, ...perMachine.flat().flatMap((s) => [s.start, s.end])])).sort(
+    (a, b) => a - b,
+  );
+  return segments(
+    bounds.slice(0, -1).map((start, i) => {
+      const kw = perMachine.reduce(
+        (sum, machine) => sum + (machine.find((s) => s.start <= start && s.end > start)?.kw ?? 0),
+        0,
+      );
+      return [start, bounds[i + 1], kw];
+    }),
+  );
+}
+
+/** kWh drawn over the segments */
+export function energyKwh(run: PowerSegment[]): number {
+  return run.reduce((sum, s) => sum + s.kw * ((s.end - s.start) / 60), 0);
+}
+
+/** Highest kW of the segments (0 for an empty run) */
+export function peakKw(run: PowerSegment[]): number {
+  return run.reduce((max, s) => Math.max(max, s.kw), 0);
+}
+
+/** Highest kW the machine can draw at any point of a run, whatever its length */
+export function maxKw(machine: ProfiledMachine): number {
+  const profile = machine.power_profile;
+  if (!profile) return machine.power_consumption;
+  if (profile.kind === 'phases') {
+    return Math.max(profile.warm_up?.kw ?? 0, profile.steady_kw, profile.cool_down?.kw ?? 0);
+  }
+  return Math.max(0, ...profile.samples_kw);
+}
+
+function segments(bounds: [number, number, number][]): PowerSegment[] {
+  return bounds.filter(([start, end]) => end > start).map(([start, end, kw]) => ({ start, end, kw }));
+}
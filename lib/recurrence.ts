@@ -0,0 +1,59 @@
+// lib/recurrence.ts
+// Expansion of recurrence rules into the dates of their occurrences. Pure date math on
+// "YYYY-MM-DD" calendar days (see lib/time); shared by AppointmentService and the booking form preview.
+import { addDays, formatDate, parseDateOnly, weekday } from '@/lib/time';
+
+export type RecurrenceFrequency = 'WEEKLY' | 'BIWEEKLY' | 'CUSTOM';
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  days_of_week?: number[]; // 0=Sun .. 6=Sat; required for CUSTOM, defaults to the first day's weekday otherwise
+  until?: string;          // "YYYY-MM-DD", last day (inclusive)
+  count?: number;          // number of occurrences
+};
+
+// Upper bound of a series (a year of weekly bookings); longer rules are cut here
+export const MAX_OCCURRENCES = 52;
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  WEEKLY: 'Semanal',
+  BIWEEKLY: 'Cada dos semanas',
+  CUSTOM: 'Días personalizados',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Weekdays the rule repeats on */
+export function recurrenceDays(rule: RecurrenceRule, firstDate: string): number[] {
+  if (rule.days_of_week?.length) return Array.from(new Set(rule.days_of_week)).sort((a, b) => a - b);
+  return [weekday(parseDateOnly(firstDate))];
+}
+
+/**
+ * Dates ("YYYY-MM-DD") of every occurrence, starting at `firstDate` (included only when it
+ * falls on one of the rule's weekdays). Stops at `until`, `count` or MAX_OCCURRENCES.
+ */
+export function expandRecurrence(rule: RecurrenceRule, firstDate: string): string[] {
+  const days = recurrenceDays(rule, firstDate);
+  const interval = rule.frequency === 'BIWEEKLY' ? 2 : 1;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const until = rule.until ? parseDateOnly(rule.until) : null;
+
+  const first = parseDateOnly(firstDate);
+  // weeks are counted from the Sunday of the first day so biweekly rules skip whole weeks
+  const firstWeekStart = addDays(first, -weekday(first));
+  // without `until` a rule on no matching day would loop forever; a year of weeks is plenty
+  const lastDay = addDays(first, MAX_OCCURRENCES * interval * 7);
+
+  const dates: string[] = [];
+  for (let day = first; dates.length < limit; day = addDays(day, 1)) {
+    if (until && day > until) break;
+    if (day > lastDay) break;
+
+    const week = Math.floor((day.getTime() - firstWeekStart.getTime()) / (7 * DAY_MS));
+    if (week % interval === 0 && days.includes(weekday(day))) {
+      dates.push(formatDate(day));
+    }
+  }
+  return dates;
+}
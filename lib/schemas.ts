@@ -0,0 +1,339 @@
+// lib/schemas.ts
+// Input validation mirroring prisma/schema.prisma (shared by API routes and admin forms)
+import { z } from 'zod';
+import { MAX_OCCURRENCES } from '@/lib/recurrence';
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/; // "HH:MM"
+const MAX_DECIMAL_10_2 = 99_999_999.99; // @db.Decimal(10, 2)
+const MAX_DECIMAL_10_4 = 999_999.9999; // @db.Decimal(10, 4)
+
+const id = z.coerce.number().int().positive();
+const requiredText = (field: string) =>
+  z.string({ required_error: `${field} es requerido` }).trim().min(1, `${field} es requerido`);
+const kilowatts = z.coerce
+  .number({ invalid_type_error: 'El consumo debe ser un número' })
+  .nonnegative('El consumo no puede ser negativo')
+  .max(MAX_DECIMAL_10_2, 'El consumo es demasiado grande');
+const time = z.string().regex(TIME_REGEX, 'Hora inválida (HH:MM)');
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Fecha inválida (YYYY-MM-DD)');
+
+export const laboratorySchema = z.object({
+  name: requiredText('El nombre'),
+  location: requiredText('La ubicación'),
+});
+export const laboratoryUpdateSchema = laboratorySchema.partial();
+
+export const machineSchema = z.object({
+  name: requiredText('El nombre'),
+  power_consumption: kilowatts,
+  laboratory_id: id,
+});
+// Machine.power_profile (see lib/power-profile.ts)
+const powerPhase = z.object({
+  minutes: z.coerce.number().int().positive('La duración debe ser mayor a 0').max(24 * 60, 'La duración es demasiado grande'),
+  kw: kilowatts,
+});
+export const powerProfileSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('phases'),
+    warm_up: powerPhase.nullable().optional(),
+    steady_kw: kilowatts,
+    cool_down: powerPhase.nullable().optional(),
+  }),
+  z.object({
+    kind: z.literal('curve'),
+    interval_minutes: z.coerce.number().int().min(1, 'Intervalo inválido').max(240, 'Intervalo inválido'),
+    samples_kw: z.array(kilowatts).min(1, 'Se requiere al menos una muestra').max(288, 'Demasiadas muestras'),
+  }),
+]);
+
+export const machineUpdateSchema = machineSchema.partial().extend({
+  power_profile: powerProfileSchema.nullable().optional(), // null = back to the nominal power
+  out_of_service: z.boolean().optional(),
+  out_of_service_reason: z.preprocess((v) => (v === '' ? null : v), z.string().trim().nullable().optional()),
+});
+
+const preferredHourFields = z.object({
+  day_of_week: z.coerce.number().int().min(0, 'Día inválido (0-6)').max(6, 'Día inválido (0-6)'),
+  start_time: time,
+  end_time: time,
+  power_consumption: kilowatts,
+});
+const endsAfterStart = (v: { start_time?: string; end_time?: string }) =>
+  !v.start_time || !v.end_time || v.start_time < v.end_time;
+const endsAfterStartMessage = { message: 'La hora de fin debe ser posterior a la de inicio', path: ['end_time'] };
+
+export const preferredHourSchema = preferredHourFields.refine(endsAfterStart, endsAfterStartMessage);
+export const preferredHourUpdateSchema = preferredHourFields.partial().refine(endsAfterStart, endsAfterStartMessage);
+
+// POST /api/preferred-hours/import (bands must split the day evenly: 15, 30, 60, 120... minutes)
+export const preferredHourImportSchema = z.object({
+  csv: requiredText('El archivo CSV'),
+  band_minutes: z.coerce
+    .number()
+    .int()
+    .min(15, 'La franja debe ser de al menos 15 minutos')
+    .max(240, 'La franja debe ser de hasta 240 minutos')
+    .refine((v) => (24 * 60) % v === 0, 'La franja debe dividir el día en partes iguales')
+    .default(60),
+});
+
+// PUT /api/laboratories/:id/opening-hours (weekdays left out are closed)
+const openingDay = z
+  .object({
+    day_of_week: z.coerce.number().int().min(0, 'Día inválido (0-6)').max(6, 'Día inválido (0-6)'),
+    open_time: time,
+    close_time: time,
+  })
+  .refine((v) => v.open_time < v.close_time, {
+    message: 'La hora de cierre debe ser posterior a la de apertura',
+    path: ['close_time'],
+  });
+export const openingHoursSchema = z.object({
+  days: z
+    .array(openingDay)
+    .min(1, 'El laboratorio debe abrir al menos un día')
+    .refine((days) => new Set(days.map((d) => d.day_of_week)).size === days.length, 'Hay días repetidos'),
+});
+
+export type LaboratoryInput = z.infer<typeof laboratorySchema>;
+export type MachineInput = z.infer<typeof machineSchema>;
+// TariffBand (see lib/tariff.ts): an end before the start means the band runs past midnight
+const price = z.coerce
+  .number({ invalid_type_error: 'El precio debe ser un número' })
+  .nonnegative('El precio no puede ser negativo')
+  .max(MAX_DECIMAL_10_4, 'El precio es demasiado grande');
+const tariffBandFields = z.object({
+  name: requiredText('El nombre'),
+  start_time: time,
+  end_time: time,
+  energy_price: price,
+  demand_price: price.default(0),
+});
+const differentTimes = (v: { start_time?: string; end_time?: string }) =>
+  !v.start_time || !v.end_time || v.start_time !== v.end_time;
+const differentTimesMessage = { message: 'La hora de fin debe ser distinta de la de inicio', path: ['end_time'] };
+export const tariffBandSchema = tariffBandFields.refine(differentTimes, differentTimesMessage);
+export const tariffBandUpdateSchema = tariffBandFields.partial().refine(differentTimes, differentTimesMessage);
+
+export type PowerProfileInput = z.infer<typeof powerProfileSchema>;
+export type PreferredHourInput = z.infer<typeof preferredHourSchema>;
+export type OpeningHoursInput = z.infer<typeof openingHoursSchema>;
+export type TariffBandInput = z.infer<typeof tariffBandSchema>;
+
+const ids = z.array(id);
+
+// POST /api/auth/login
+export const loginSchema = z.object({
+  email: z.string().trim().email('Correo electrónico inválido'),
+  next: z.string().optional(), // path to return to after login
+});
+
+// PATCH /api/auth/me
+export const profileSchema = z.object({
+  name: requiredText('El nombre'),
+});
+
+// PATCH /api/appointments/:id — reschedule, change machines or edit booking details
+export const appointmentUpdateSchema = z
+  .object({
+    appointment_date: dateOnly,
+    start_time: time,
+    end_time: time,
+    purpose: requiredText('El propósito'),
+    user_name: requiredText('El nombre'),
+    user_email: z.string().trim().email('Correo electrónico inválido'),
+    machine_ids: ids.min(1, 'Se requiere al menos una máquina'), // replaces the current machines
+    add_machine_ids: ids,
+    remove_machine_ids: ids,
+  })
+  .partial()
+  .refine(endsAfterStart, endsAfterStartMessage);
+
+export type AppointmentUpdateInput = z.infer<typeof appointmentUpdateSchema>;
+
+// PATCH /api/appointments/manage/:token — self-service reschedule keeps machines and details
+export const appointmentRescheduleSchema = z
+  .object({
+    appointment_date: dateOnly,
+    start_time: time,
+    end_time: time,
+  })
+  .refine(endsAfterStart, endsAfterStartMessage);
+
+// POST /api/appointments/:id/status (values of the AppointmentStatus enum)
+export const appointmentStatusSchema = z.object({
+  status: z.enum(['PENDING', 'CONFIRMED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'NO_SHOW', 'REJECTED'], {
+    errorMap: () => ({ message: 'Estado inválido' }),
+  }),
+});
+
+// POST /api/admin/approvals/:id
+export const approvalDecisionSchema = z.object({
+  decision: z.enum(['approve', 'reject'], { errorMap: () => ({ message: 'Decisión inválida (approve | reject)' }) }),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// PATCH /api/users/:id (values of the UserRole enum); laboratory_ids only apply to lab managers
+export const userAccessSchema = z.object({
+  role: z.enum(['STUDENT', 'LAB_MANAGER', 'ENERGY_ADMIN'], { errorMap: () => ({ message: 'Rol inválido' }) }),
+  laboratory_ids: ids.optional(),
+});
+
+export type UserAccessInput = z.infer<typeof userAccessSchema>;
+
+// PATCH /api/settings/energy. A peak window above the slot threshold could never be booked for
+// approval: every slot in it would already be over the threshold.
+const energySettingsFields = z.object({
+  max_daily_consumption: kilowatts,
+  peak_consumption_threshold: kilowatts,
+  approval_energy_threshold: kilowatts,
+  approval_peak_window: kilowatts,
+});
+const windowWithinThreshold = (v: { peak_consumption_threshold?: number; approval_peak_window?: number }) =>
+  v.peak_consumption_threshold === undefined ||
+  v.approval_peak_window === undefined ||
+  v.approval_peak_window <= v.peak_consumption_threshold;
+const windowWithinThresholdMessage = {
+  message: 'La franja pico no puede superar el umbral de consumo por horario',
+  path: ['approval_peak_window'],
+};
+export const energySettingsSchema = energySettingsFields.refine(windowWithinThreshold, windowWithinThresholdMessage);
+export const energySettingsUpdateSchema = energySettingsFields
+  .partial()
+  .refine(windowWithinThreshold, windowWithinThresholdMessage);
+
+export type EnergySettingsInput = z.infer<typeof energySettingsSchema>;
+
+// `recurrence` of POST /api/appointments: repeat the booking every week(s) until a date or N times
+export const recurrenceSchema = z
+  .object({
+    frequency: z.enum(['WEEKLY', 'BIWEEKLY', 'CUSTOM'], { errorMap: () => ({ message: 'Frecuencia inválida' }) }),
+    days_of_week: z.array(z.coerce.number().int().min(0, 'Día inválido (0-6)').max(6, 'Día inválido (0-6)')).optional(),
+    until: dateOnly.optional(),
+    count: z.coerce
+      .number()
+      .int()
+      .min(1, 'Al menos una repetición')
+      .max(MAX_OCCURRENCES, `Como máximo ${MAX_OCCURRENCES} repeticiones`)
+      .optional(),
+  })
+  .refine((r) => r.until || r.count, { message: 'Indica una fecha de fin o una cantidad de repeticiones', path: ['until'] })
+  .refine((r) => r.frequency !== 'CUSTOM' || r.days_of_week?.length, {
+    message: 'Elige al menos un día de la semana',
+    path: ['days_of_week'],
+  });
+
+// POST /api/appointments/series/preview — availability of every date before booking the series
+export const seriesPreviewSchema = z
+  .object({
+    laboratory_id: id,
+    machine_ids: ids.min(1, 'Se requiere al menos una máquina'),
+    appointment_date: dateOnly,
+    start_time: time,
+    end_time: time,
+    recurrence: recurrenceSchema,
+  })
+  .refine(endsAfterStart, endsAfterStartMessage);
+
+// PATCH /api/appointments/series/:id — applies to every upcoming occurrence
+export const seriesUpdateSchema = z
+  .object({
+    start_time: time,
+    end_time: time,
+    purpose: requiredText('El propósito'),
+    machine_ids: ids.min(1, 'Se requiere al menos una máquina'),
+  })
+  .partial()
+  .refine(endsAfterStart, endsAfterStartMessage);
+
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>;
+
+// POST /api/appointments/auto — book (or hold) the lowest-load slot inside a window of days/hours
+export const autoScheduleSchema = z
+  .object({
+    laboratory_id: id,
+    machine_ids: ids.min(1, 'Se requiere al menos una máquina'),
+    duration_minutes: z.coerce.number().int().min(15, 'Duración mínima de 15 minutos').max(600, 'Duración máxima de 10 horas'),
+    from: dateOnly.optional(), // default: today
+    days: z.coerce.number().int().min(1, 'Al menos un día').max(31, 'Como máximo 31 días').default(7),
+    earliest_time: time.optional(),
+    latest_time: time.optional(),
+    days_of_week: z.array(z.coerce.number().int().min(0, 'Día inválido (0-6)').max(6, 'Día inválido (0-6)')).optional(),
+    purpose: requiredText('El propósito').optional(), // required unless holding
+    user_name: z.string().trim().optional(), // only used when the account has no name yet
+    hold: z.boolean().default(false),
+    hold_minutes: z.coerce.number().int().min(1).max(15).optional(),
+  })
+  .refine((v) => v.hold || v.purpose, { message: 'El propósito es requerido', path: ['purpose'] })
+  .refine((v) => !v.earliest_time || !v.latest_time || v.earliest_time < v.latest_time, {
+    message: 'La hora de fin debe ser posterior a la de inicio',
+    path: ['latest_time'],
+  });
+
+// POST /api/holds (slot picked in the booking form)
+export const holdSchema = z
+  .object({
+    laboratory_id: id,
+    machine_ids: ids.min(1, 'Se requiere al menos una máquina'),
+    appointment_date: dateOnly,
+    start_time: time,
+    end_time: time,
+    purpose: z.string().trim().optional(),
+    minutes: z.coerce.number().int().min(1).max(15).optional(),
+  })
+  .refine(endsAfterStart, endsAfterStartMessage);
+
+// POST /api/holds/:id/confirm
+export const holdConfirmSchema = z.object({
+  purpose: requiredText('El propósito').optional(), // defaults to the one given when holding
+  user_name: z.string().trim().optional(),
+});
+
+const optionalId = z.preprocess((v) => (v === '' ? null : v), id.nullable().optional());
+const optionalTime = z.preprocess((v) => (v === '' ? null : v), time.nullable().optional());
+
+// Days with optional times of closures and maintenance windows
+const periodFields = {
+  start_date: dateOnly,
+  end_date: dateOnly,
+  start_time: optionalTime, // on start_date; empty = from the start of the day
+  end_time: optionalTime,   // on end_date; empty = until the end of the day
+};
+type Period = { start_date?: string; end_date?: string; start_time?: string | null; end_time?: string | null };
+const refinePeriod = <T extends Period>(schema: z.ZodType<T, z.ZodTypeDef, unknown>) =>
+  schema
+    .refine((v) => v.end_date >= v.start_date, {
+      message: 'La fecha de fin debe ser igual o posterior a la de inicio',
+      path: ['end_date'],
+    })
+    .refine((v) => v.start_date !== v.end_date || !v.start_time || !v.end_time || v.start_time < v.end_time, endsAfterStartMessage);
+
+// POST /api/closures, PATCH /api/closures/:id (no laboratory nor machine = everywhere)
+export const closureSchema = refinePeriod(
+  z.object({
+    title: requiredText('El motivo'),
+    laboratory_id: optionalId,
+    machine_id: optionalId,
+    ...periodFields,
+  })
+);
+
+export type ClosureInput = z.infer<typeof closureSchema>;
+
+// POST /api/closures/import
+export const closureImportSchema = z.object({
+  ics: requiredText('El archivo ICS'),
+  laboratory_id: optionalId,
+  machine_id: optionalId,
+});
+
+// POST /api/machines/:id/maintenance
+export const maintenanceWindowSchema = refinePeriod(
+  z.object({
+    reason: requiredText('El motivo'),
+    ...periodFields,
+  })
+);
+
+export type MaintenanceWindowInput = z.infer<typeof maintenanceWindowSchema>;
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { bandAt, bandsOverlap, type TariffBandLight } from '@/lib/tariff';
+
+const band = (name: string, start_time: string, end_time: string): TariffBandLight => ({
+  name,
+  start_time,
+  end_time,
+  energy_price: 1,
+  demand_price: 0,
+});
+
+const pico = band('Pico', '18:00', '23:00');
+const valle = band('Valle', '23:00', '05:00');
+const resto = band('Resto', '05:00', '18:00');
+
+describe('bandAt', () => {
+  it('finds the band of a minute, start inclusive and end exclusive', () => {
+    const bands = [pico, valle, resto];
+    expect(bandAt(bands, 18 * 60)?.name).toBe('Pico');
+    expect(bandAt(bands, 23 * 60 - 1)?.name).toBe('Pico');
+    expect(bandAt(bands, 23 * 60)?.name).toBe('Valle');
+  });
+
+  it('covers both sides of midnight for a band that runs past it', () => {
+    expect(bandAt([valle], 23 * 60 + 30)?.name).toBe('Valle');
+    expect(bandAt([valle], 0)?.name).toBe('Valle');
+    expect(bandAt([valle], 4 * 60 + 59)?.name).toBe('Valle');
+    expect(bandAt([valle], 5 * 60)).toBeUndefined();
+  });
+
+  it('leaves minutes outside every band without a band', () => {
+    expect(bandAt([pico], 12 * 60)).toBeUndefined();
+  });
+});
+
+describe('bandsOverlap', () => {
+  it('lets bands that only touch sit next to each other', () => {
+    expect(bandsOverlap(pico, valle)).toBe(false);
+    expect(bandsOverlap(valle, resto)).toBe(false);
+  });
+
+  it('detects overlaps on either side of midnight', () => {
+    expect(bandsOverlap(valle, band('Madrugada', '04:00', '06:00'))).toBe(true);
+    expect(bandsOverlap(valle, band('Noche', '22:00', '23:30'))).toBe(true);
+    expect(bandsOverlap(band('Noche', '22:00', '01:00'), valle)).toBe(true);
+  });
+});
@@ -0,0 +1,36 @@
+// lib/tariff.ts
+// Time-of-use electricity tariff: bands of the day (pico / valle / resto) with a price per kWh and
+// a demand charge per kW. A band whose end isn't after its start runs past midnight ("valle"
+// 23:00 - 05:00). Minutes outside every band are free: the tariff just isn't fully configured.
+
+export type TariffBandLight = {
+  name: string;
+  start_time: string;   // "HH:MM"
+  end_time: string;     // "HH:MM", before start_time when the band runs past midnight
+  energy_price: number; // $ per kWh
+  demand_price: number; // $ per kW added to the band's peak demand
+};
+
+const DAY_MINUTES = 24 * 60;
+
+/** Band in force at a minute of the day */
+export function bandAt<T extends TariffBandLight>(bands: T[], minute: number): T | undefined {
+  return bands.find((band) => intervals(band).some(([start, end]) => minute >= start && minute < end));
+}
+
+/** Whether two bands share any minute of the day */
+export function bandsOverlap(a: TariffBandLight, b: TariffBandLight): boolean {
+  return intervals(a).some(([s1, e1]) => intervals(b).some(([s2, e2]) => s1 < e2 && e1 > s2));
+}
+
+/** Minutes of the day covered by the band, split at midnight */
+function intervals(band: TariffBandLight): [number, number][] {
+  const start = minutes(band.start_time);
+  const end = minutes(band.end_time);
+  return end > start ? [[start, end]] : [[start, DAY_MINUTES], [0, end]];
+}
+
+function minutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { dayOf, formatDate, formatTime, parseDateOnly, parseTime, timeOfDay, zonedDateTime } from '@/lib/time';
+
+// APP_TIME_ZONE is Buenos Aires (UTC-3, no DST); every expectation must hold whatever TZ the server runs in
+describe(`lib/time (TZ=${process.env.TZ ?? 'unset'})`, () => {
+  describe('parseDateOnly', () => {
+    it('reads "YYYY-MM-DD" as UTC midnight of that day', () => {
+      expect(parseDateOnly('2025-09-16').toISOString()).toBe('2025-09-16T00:00:00.000Z');
+    });
+
+    it('reads an ISO instant as the day it falls on in APP_TIME_ZONE', () => {
+      // 01:30 UTC is still 22:30 of the day before in Buenos Aires
+      expect(formatDate(parseDateOnly('2025-09-17T01:30:00Z'))).toBe('2025-09-16');
+      expect(formatDate(parseDateOnly('2025-09-17T03:30:00Z'))).toBe('2025-09-17');
+    });
+
+    it('rejects empty and malformed dates', () => {
+      expect(() => parseDateOnly('')).toThrow('Invalid date');
+      expect(() => parseDateOnly('16/09/2025')).toThrow('Invalid date');
+    });
+  });
+
+  describe('parseTime', () => {
+    it('reads "HH:MM" and "HH:MM:SS" as that hour of 1970-01-01 UTC', () => {
+      expect(parseTime('10:15').toISOString()).toBe('1970-01-01T10:15:00.000Z');
+      expect(parseTime('23:59:30').toISOString()).toBe('1970-01-01T23:59:30.000Z');
+    });
+
+    it('reads an ISO instant as its wall-clock time in APP_TIME_ZONE', () => {
+      expect(formatTime(parseTime('2025-09-16T13:15:00Z'))).toBe('10:15');
+      expect(formatTime(parseTime('2025-09-16T10:15:00-03:00'))).toBe('10:15');
+    });
+
+    it('rejects empty and malformed times', () => {
+      expect(() => parseTime('')).toThrow('Invalid time');
+      expect(() => parseTime('10h15')).toThrow('Invalid time format');
+    });
+  });
+
+  describe('zonedDateTime', () => {
+    it('is the instant of a day and time in APP_TIME_ZONE', () => {
+      const day = parseDateOnly('2025-09-16');
+      expect(zonedDateTime(day, '10:00').toISOString()).toBe('2025-09-16T13:00:00.000Z');
+      expect(zonedDateTime(day, parseTime('10:00')).toISOString()).toBe('2025-09-16T13:00:00.000Z');
+    });
+
+    it('moves late evenings to the next UTC day', () => {
+      expect(zonedDateTime(parseDateOnly('2025-12-31'), '22:30').toISOString()).toBe('2026-01-01T01:30:00.000Z');
+    });
+  });
+
+  describe('dayOf / timeOfDay', () => {
+    it('split an instant into its day and time in APP_TIME_ZONE', () => {
+      const instant = new Date('2025-09-17T02:00:00Z');
+      expect(formatDate(dayOf(instant))).toBe('2025-09-16');
+      expect(formatTime(timeOfDay(instant))).toBe('23:00');
+    });
+
+    it('round-trip through zonedDateTime', () => {
+      for (const iso of ['2025-01-01T00:00:00Z', '2025-06-15T12:34:00Z', '2025-09-17T02:59:00Z']) {
+        const instant = new Date(iso);
+        expect(zonedDateTime(dayOf(instant), timeOfDay(instant)).toISOString()).toBe(instant.toISOString());
+      }
+    });
+  });
+});
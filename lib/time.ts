@@ -0,0 +1,108 @@
+// lib/time.ts
+// Dates and times of the booking system. Every wall-clock value (an appointment on "2025-09-16"
+// from "10:00" to "12:00") is read in APP_TIME_ZONE, whatever the server's TZ, using two
+// representations that match the Postgres columns as Prisma reads and writes them:
+//   calendar day  → Date at UTC midnight of that day        (@db.Date)
+//   time of day   → Date on 1970-01-01 at that UTC hour     (@db.Time())
+// Only instants ("now", the moment an appointment starts) depend on the zone; convert between
+// both worlds with zonedDateTime / dayOf / timeOfDay.
+
+export const DEFAULT_TIME_ZONE = 'America/Argentina/Buenos_Aires';
+export const APP_TIME_ZONE = process.env.APP_TIME_ZONE || DEFAULT_TIME_ZONE;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const partsFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: APP_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+/** Wall-clock fields of an instant in APP_TIME_ZONE */
+function zonedParts(instant: Date) {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of partsFormatter.formatToParts(instant)) {
+    if (type !== 'literal') parts[type] = Number(value);
+  }
+  return parts;
+}
+
+/** Minutes APP_TIME_ZONE is ahead of UTC at `instant` (-180 for Buenos Aires) */
+function offsetMinutes(instant: Date): number {
+  const p = zonedParts(instant);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wall - Math.floor(instant.getTime() / 1000) * 1000) / 60_000);
+}
+
+export function parseDateOnly(input: string): Date {
+  // Accepts "YYYY-MM-DD" or ISO (the day it falls on in APP_TIME_ZONE) → UTC midnight of that day
+  if (!input) throw new Error('Invalid date');
+  if (DATE_REGEX.test(input)) return new Date(`${input}T00:00:00Z`);
+  const d = new Date(input);
+  if (isNaN(d.getTime())) throw new Error('Invalid date');
+  return dayOf(d);
+}
+
+export function parseTime(input: string): Date {
+  // Accepts "HH:mm" or "HH:mm:ss" (or ISO, read in APP_TIME_ZONE) → store as Date for @db.Time()
+  if (!input) throw new Error('Invalid time');
+  const m = input.match(/^(\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!m) {
+    const d = new Date(input);
+    if (!isNaN(d.getTime())) return timeOfDay(d);
+    throw new Error('Invalid time format');
+  }
+  const [, hh, mm, ss] = m;
+  return new Date(`1970-01-01T${hh}:${mm}:${ss ?? '00'}Z`);
+}
+
+/** Calendar day → "YYYY-MM-DD" */
+export function formatDate(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+/** Time of day → "HH:MM" */
+export function formatTime(time: Date): string {
+  return time.toISOString().slice(11, 16);
+}
+
+export function addDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * DAY_MS);
+}
+
+/** 0=Sun .. 6=Sat */
+export function weekday(day: Date): number {
+  return day.getUTCDay();
+}
+
+/** Calendar day an instant falls on in APP_TIME_ZONE */
+export function dayOf(instant: Date): Date {
+  const p = zonedParts(instant);
+  return new Date(Date.UTC(p.year, p.month - 1, p.day));
+}
+
+/** Wall-clock time of an instant in APP_TIME_ZONE */
+export function timeOfDay(instant: Date): Date {
+  const p = zonedParts(instant);
+  return new Date(Date.UTC(1970, 0, 1, p.hour, p.minute, p.second));
+}
+
+/** Today in APP_TIME_ZONE */
+export function today(): Date {
+  return dayOf(new Date());
+}
+
+/** Instant of a calendar day + time of day ("HH:MM" or @db.Time() value) in APP_TIME_ZONE */
+export function zonedDateTime(day: Date, time: Date | string): Date {
+  const clock = typeof time === 'string' ? parseTime(time) : time;
+  const wall = day.getTime() + (clock.getTime() % DAY_MS);
+  // the offset at the wall time is a first guess; recheck at the resulting instant for DST changes
+  const guess = wall - offsetMinutes(new Date(wall)) * 60_000;
+  return new Date(wall - offsetMinutes(new Date(guess)) * 60_000);
+}
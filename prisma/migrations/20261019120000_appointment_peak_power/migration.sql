@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."Appointment" ADD COLUMN     "peak_power" DECIMAL(10,2);
+
+-- Backfill peak power from the connected machines
+UPDATE "public"."Appointment" AS a
+SET "peak_power" = m."total"
+FROM (
+    SELECT am."A" AS "appointment_id", SUM(mc."power_consumption") AS "total"
+    FROM "public"."_AppointmentMachines" AS am
+    JOIN "public"."Machine" AS mc ON mc."id" = am."B"
+    GROUP BY am."A"
+) AS m
+WHERE m."appointment_id" = a."id";
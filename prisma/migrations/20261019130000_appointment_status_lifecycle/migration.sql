@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."AppointmentStatus" AS ENUM ('PENDING', 'CONFIRMED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'NO_SHOW');
+
+-- AlterTable
+ALTER TABLE "public"."Appointment" ADD COLUMN     "cancelled_at" TIMESTAMP(3),
+ADD COLUMN     "completed_at" TIMESTAMP(3),
+ADD COLUMN     "confirmed_at" TIMESTAMP(3),
+ADD COLUMN     "no_show_at" TIMESTAMP(3),
+ADD COLUMN     "started_at" TIMESTAMP(3);
+
+-- Normalize the free-text statuses ("RESERVADO", "confirmed", "pending", "cancelled", ...)
+UPDATE "public"."Appointment"
+SET "status" = CASE UPPER(REPLACE(TRIM("status"), '-', '_'))
+    WHEN 'PENDING' THEN 'PENDING'
+    WHEN 'IN_PROGRESS' THEN 'IN_PROGRESS'
+    WHEN 'COMPLETED' THEN 'COMPLETED'
+    WHEN 'CANCELLED' THEN 'CANCELLED'
+    WHEN 'CANCELED' THEN 'CANCELLED'
+    WHEN 'NO_SHOW' THEN 'NO_SHOW'
+    ELSE 'CONFIRMED' -- "RESERVADO", "CONFIRMED" and anything unknown were live bookings
+END;
+
+UPDATE "public"."Appointment" SET "confirmed_at" = "created_at" WHERE "status" <> 'PENDING';
+
+ALTER TABLE "public"."Appointment" ALTER COLUMN "status" TYPE "public"."AppointmentStatus" USING ("status"::"public"."AppointmentStatus");
+ALTER TABLE "public"."Appointment" ALTER COLUMN "status" SET DEFAULT 'PENDING';
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "public"."AppointmentStatus" ADD VALUE 'REJECTED';
+
+-- AlterTable
+ALTER TABLE "public"."Appointment" ADD COLUMN     "approval_reason" TEXT,
+ADD COLUMN     "rejected_at" TIMESTAMP(3),
+ADD COLUMN     "requires_approval" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "review_note" TEXT;
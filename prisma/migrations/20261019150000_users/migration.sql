@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."User" (
+    "id" SERIAL NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "public"."User"("email");
+
+-- AlterTable
+ALTER TABLE "public"."Appointment" ADD COLUMN     "user_id" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "public"."Appointment" ADD CONSTRAINT "Appointment_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: one account per email already used in a booking (latest name wins)
+INSERT INTO "public"."User" ("email", "name")
+SELECT DISTINCT ON (lower(trim("user_email"))) lower(trim("user_email")), "user_name"
+FROM "public"."Appointment"
+ORDER BY lower(trim("user_email")), "created_at" DESC;
+
+UPDATE "public"."Appointment" a
+SET "user_id" = u."id"
+FROM "public"."User" u
+WHERE u."email" = lower(trim(a."user_email"));
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."UserRole" AS ENUM ('STUDENT', 'LAB_MANAGER', 'ENERGY_ADMIN');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "role" "public"."UserRole" NOT NULL DEFAULT 'STUDENT';
+
+-- CreateTable
+CREATE TABLE "public"."EnergySettings" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "max_daily_consumption" DECIMAL(10,2) NOT NULL,
+    "peak_consumption_threshold" DECIMAL(10,2) NOT NULL,
+    "approval_energy_threshold" DECIMAL(10,2) NOT NULL,
+    "approval_peak_window" DECIMAL(10,2) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EnergySettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."_LaboratoryManagers" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_LaboratoryManagers_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "_LaboratoryManagers_B_index" ON "public"."_LaboratoryManagers"("B");
+
+-- AddForeignKey
+ALTER TABLE "public"."_LaboratoryManagers" ADD CONSTRAINT "_LaboratoryManagers_A_fkey" FOREIGN KEY ("A") REFERENCES "public"."Laboratory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_LaboratoryManagers" ADD CONSTRAINT "_LaboratoryManagers_B_fkey" FOREIGN KEY ("B") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."RecurrenceFrequency" AS ENUM ('WEEKLY', 'BIWEEKLY', 'CUSTOM');
+
+-- AlterTable
+ALTER TABLE "public"."Appointment" ADD COLUMN     "series_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."AppointmentSeries" (
+    "id" SERIAL NOT NULL,
+    "laboratory_id" INTEGER NOT NULL,
+    "user_id" INTEGER,
+    "frequency" "public"."RecurrenceFrequency" NOT NULL,
+    "days_of_week" INTEGER[],
+    "until" DATE,
+    "count" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AppointmentSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."Appointment" ADD CONSTRAINT "Appointment_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "public"."AppointmentSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AppointmentSeries" ADD CONSTRAINT "AppointmentSeries_laboratory_id_fkey" FOREIGN KEY ("laboratory_id") REFERENCES "public"."Laboratory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AppointmentSeries" ADD CONSTRAINT "AppointmentSeries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
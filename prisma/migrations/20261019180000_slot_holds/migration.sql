@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "public"."SlotHold" (
+    "id" SERIAL NOT NULL,
+    "laboratory_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "appointment_date" DATE NOT NULL,
+    "start_time" TIME NOT NULL,
+    "end_time" TIME NOT NULL,
+    "purpose" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SlotHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."_SlotHoldMachines" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_SlotHoldMachines_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "SlotHold_expires_at_idx" ON "public"."SlotHold"("expires_at");
+
+-- CreateIndex
+CREATE INDEX "_SlotHoldMachines_B_index" ON "public"."_SlotHoldMachines"("B");
+
+-- AddForeignKey
+ALTER TABLE "public"."SlotHold" ADD CONSTRAINT "SlotHold_laboratory_id_fkey" FOREIGN KEY ("laboratory_id") REFERENCES "public"."Laboratory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SlotHold" ADD CONSTRAINT "SlotHold_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_SlotHoldMachines" ADD CONSTRAINT "_SlotHoldMachines_A_fkey" FOREIGN KEY ("A") REFERENCES "public"."Machine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_SlotHoldMachines" ADD CONSTRAINT "_SlotHoldMachines_B_fkey" FOREIGN KEY ("B") REFERENCES "public"."SlotHold"("id") ON DELETE CASCADE ON UPDATE CASCADE;
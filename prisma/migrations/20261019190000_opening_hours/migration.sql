@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."OpeningHour" (
+    "id" SERIAL NOT NULL,
+    "laboratory_id" INTEGER NOT NULL,
+    "day_of_week" INTEGER NOT NULL,
+    "open_time" TIME NOT NULL,
+    "close_time" TIME NOT NULL,
+
+    CONSTRAINT "OpeningHour_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OpeningHour_laboratory_id_day_of_week_key" ON "public"."OpeningHour"("laboratory_id", "day_of_week");
+
+-- AddForeignKey
+ALTER TABLE "public"."OpeningHour" ADD CONSTRAINT "OpeningHour_laboratory_id_fkey" FOREIGN KEY ("laboratory_id") REFERENCES "public"."Laboratory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."Closure" (
+    "id" SERIAL NOT NULL,
+    "title" TEXT NOT NULL,
+    "laboratory_id" INTEGER,
+    "machine_id" INTEGER,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "start_time" TIME,
+    "end_time" TIME,
+    "ics_uid" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Closure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Closure_start_date_end_date_idx" ON "public"."Closure"("start_date", "end_date");
+
+-- CreateIndex
+CREATE INDEX "Closure_ics_uid_idx" ON "public"."Closure"("ics_uid");
+
+-- AddForeignKey
+ALTER TABLE "public"."Closure" ADD CONSTRAINT "Closure_laboratory_id_fkey" FOREIGN KEY ("laboratory_id") REFERENCES "public"."Laboratory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Closure" ADD CONSTRAINT "Closure_machine_id_fkey" FOREIGN KEY ("machine_id") REFERENCES "public"."Machine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."Machine" ADD COLUMN     "out_of_service" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "out_of_service_reason" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Appointment" ADD COLUMN     "machine_issue" TEXT,
+ADD COLUMN     "machine_issue_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."MaintenanceWindow" (
+    "id" SERIAL NOT NULL,
+    "machine_id" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "start_time" TIME,
+    "end_time" TIME,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MaintenanceWindow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MaintenanceWindow_machine_id_start_date_end_date_idx" ON "public"."MaintenanceWindow"("machine_id", "start_date", "end_date");
+
+-- AddForeignKey
+ALTER TABLE "public"."MaintenanceWindow" ADD CONSTRAINT "MaintenanceWindow_machine_id_fkey" FOREIGN KEY ("machine_id") REFERENCES "public"."Machine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Machine" ADD COLUMN     "power_profile" JSONB;
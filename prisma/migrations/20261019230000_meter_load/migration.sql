@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."MeterLoad" (
+    "id" SERIAL NOT NULL,
+    "date" DATE NOT NULL,
+    "hour" INTEGER NOT NULL,
+    "power_consumption" DECIMAL(10,2) NOT NULL,
+    "samples" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MeterLoad_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeterLoad_date_hour_key" ON "public"."MeterLoad"("date", "hour");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "public"."TariffBand" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "start_time" TIME NOT NULL,
+    "end_time" TIME NOT NULL,
+    "energy_price" DECIMAL(10,4) NOT NULL,
+    "demand_price" DECIMAL(10,4) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TariffBand_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    // the zone of the booking system is fixed; `npm test` varies the server's TZ around it
+    env: { APP_TIME_ZONE: 'America/Argentina/Buenos_Aires' },
+  },
+});